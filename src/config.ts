@@ -38,22 +38,43 @@ const configSchema = z.object({
     }),
     deepseek: z.object({
       apiKey: z.string().optional(),
-      enabled: z.boolean().default(false)
+      enabled: z.boolean().default(false),
+      model: z.string().optional()
     }),
     groq: z.object({
       apiKey: z.string().optional(),
-      enabled: z.boolean().default(false)
+      enabled: z.boolean().default(false),
+      model: z.string().optional()
     }),
     openrouter: z.object({
       apiKey: z.string().optional(),
-      enabled: z.boolean().default(false)
+      enabled: z.boolean().default(false),
+      model: z.string().optional()
     })
   }),
   
   // Enhanced provider selection with automatic detection
   aiProvider: z.enum(['openai', 'anthropic', 'gemini', 'local', 'deepseek', 'groq', 'openrouter']).optional(),
   primaryProvider: z.enum(['openai', 'anthropic', 'gemini', 'local', 'deepseek', 'groq', 'openrouter']).default('openai'),
-  fallbackProviders: z.array(z.enum(['openai', 'anthropic', 'gemini', 'local', 'deepseek', 'groq', 'openrouter'])).default(['anthropic', 'gemini', 'deepseek']),
+  // Tried right after the primary provider, in this order; unlisted providers follow by cost
+  fallbackProviders: z.array(z.enum(['openai', 'anthropic', 'gemini', 'local', 'deepseek', 'groq', 'openrouter'])).default([]),
+  
+  // Provider order per call and USD spend caps per provider
+  routing: z.object({
+    policy: z.enum(['primary_first', 'cheapest_first', 'fastest_first', 'quality_first']).default('primary_first'),
+    // Share of a spend cap after which calls switch to the provider's cheapest model
+    degradeThreshold: z.number().min(0).max(1).default(0.8),
+    providerSpendCaps: z.record(z.object({
+      dailyUsd: z.number().positive().optional(),
+      monthlyUsd: z.number().positive().optional()
+    })).default({})
+  }),
+  
+  // USD per million tokens by model, merged over SERVER_CONSTANTS.MODEL_PRICING
+  modelPricing: z.record(z.object({
+    inputPerMillion: z.number().nonnegative(),
+    outputPerMillion: z.number().nonnegative()
+  })).default({}),
   
   // Database Configuration
   database: z.object({
@@ -77,13 +98,50 @@ const configSchema = z.object({
     })
   }),
   
+  // News source registry
+  news: z.object({
+    // YAML/JSON file declaring the feeds to poll; built-in defaults without it
+    sourcesFile: z.string().optional(),
+    // Background polling into the MongoDB article store; without MongoDB news is fetched per request
+    ingestion: z.object({
+      enabled: z.boolean().default(true),
+      apiPollIntervalMinutes: z.number().int().min(1).max(24 * 60).default(30),
+      retentionDays: z.number().int().min(1).max(90).default(7)
+    }),
+    // Article pages downloaded for impact analysis; robots.txt is always honored
+    fullText: z.object({
+      enabled: z.boolean().default(true),
+      // Minimum gap between requests to one domain (a longer robots.txt Crawl-delay wins)
+      domainIntervalMs: z.number().int().min(0).default(5000)
+    })
+  }),
+  
   // Security Configuration
   security: z.object({
     rateLimitWindowMs: z.number().positive().default(900000), // 15 minutes
     rateLimitMaxRequests: z.number().positive().default(100),
+    // Tool calls per window, on top of the request limit; cheap is fetch_breaking_news, expensive the analysis tools
+    cheapToolMaxRequests: z.number().positive().default(60),
+    expensiveToolMaxRequests: z.number().positive().default(20),
+    // Express 'trust proxy' setting, so client IPs are read from X-Forwarded-For behind a load balancer
+    trustProxy: z.union([z.boolean(), z.number().int().nonnegative()]).default(false),
     logLevel: z.enum(['error', 'warn', 'info', 'debug']).default('info')
   }),
   
+  // API Key Authentication (HTTP and WebSocket; STDIO is always trusted)
+  auth: z.object({
+    enabled: z.boolean().default(false),
+    // Limits given to new keys unless set explicitly when the key is created
+    defaultRateLimitWindowMs: z.number().positive().default(60000), // 1 minute
+    defaultRateLimitMaxRequests: z.number().positive().default(60),
+    defaultDailyTokenBudget: z.number().positive().default(500000),
+    // USD caps for new keys' tenants; unset means no cap
+    defaultDailySpendCapUsd: z.number().positive().optional(),
+    defaultMonthlySpendCapUsd: z.number().positive().optional(),
+    // Bearer token for the /admin routes, separate from tenant keys; the routes are off without it
+    adminApiKey: z.string().min(16, 'ADMIN_API_KEY must be at least 16 characters').optional()
+  }),
+  
   // TradingView Configuration
   tradingView: z.object({
     webhookSecret: z.string().optional()
@@ -94,7 +152,14 @@ const configSchema = z.object({
     defaultDepth: z.enum(['quick', 'standard', 'deep']).default('standard'),
     maxNewsAgeHours: z.number().positive().default(24),
     cacheDurationHours: z.number().positive().default(12),
-    tripleVerificationThreshold: z.number().min(0).max(1).default(0.7)
+    tripleVerificationThreshold: z.number().min(0).max(1).default(0.7),
+    // Historical hit rates per analyst used by the calibrated consensus strategy
+    analystTrackRecords: z.record(z.object({
+      hits: z.number().int().nonnegative(),
+      total: z.number().int().positive()
+    }).refine(record => record.hits <= record.total, { message: 'hits cannot exceed total' })).default({}),
+    // YAML/JSON file declaring additional analyst personas
+    customAnalystsFile: z.string().optional()
   })
 });
 
@@ -174,22 +239,31 @@ function parseConfig() {
       },
       deepseek: {
         apiKey: process.env.DEEPSEEK_API_KEY,
-        enabled: !!process.env.DEEPSEEK_API_KEY
+        enabled: !!process.env.DEEPSEEK_API_KEY,
+        model: process.env.DEEPSEEK_MODEL
       },
       groq: {
         apiKey: process.env.GROQ_API_KEY,
-        enabled: !!process.env.GROQ_API_KEY
+        enabled: !!process.env.GROQ_API_KEY,
+        model: process.env.GROQ_MODEL
       },
       openrouter: {
         apiKey: process.env.OPENROUTER_API_KEY,
-        enabled: !!process.env.OPENROUTER_API_KEY
+        enabled: !!process.env.OPENROUTER_API_KEY,
+        model: process.env.OPENROUTER_MODEL
       }
     },
     
     // Enhanced provider selection
     aiProvider: process.env.AI_PROVIDER,
     primaryProvider: process.env.PRIMARY_AI_PROVIDER || 'openai',
-    fallbackProviders: process.env.FALLBACK_AI_PROVIDERS?.split(',') || ['anthropic', 'gemini', 'deepseek'],
+    fallbackProviders: process.env.FALLBACK_AI_PROVIDERS?.split(',').map(provider => provider.trim()).filter(Boolean) || [],
+    routing: {
+      policy: process.env.AI_ROUTING_POLICY || 'primary_first',
+      degradeThreshold: parseFloat(process.env.SPEND_CAP_DEGRADE_THRESHOLD || '0.8'),
+      providerSpendCaps: process.env.PROVIDER_SPEND_CAPS ? JSON.parse(process.env.PROVIDER_SPEND_CAPS) : {}
+    },
+    modelPricing: process.env.MODEL_PRICING ? JSON.parse(process.env.MODEL_PRICING) : {},
     
     database: {
       mongoUri: process.env.MONGODB_URI,
@@ -211,12 +285,38 @@ function parseConfig() {
       }
     },
     
+    news: {
+      sourcesFile: process.env.NEWS_SOURCES_FILE,
+      ingestion: {
+        enabled: process.env.NEWS_INGESTION_ENABLED !== 'false',
+        apiPollIntervalMinutes: parseInt(process.env.NEWS_API_POLL_INTERVAL_MINUTES || '30', 10),
+        retentionDays: parseInt(process.env.NEWS_RETENTION_DAYS || '7', 10)
+      },
+      fullText: {
+        enabled: process.env.NEWS_FULL_TEXT_ENABLED !== 'false',
+        domainIntervalMs: parseInt(process.env.NEWS_FULL_TEXT_DOMAIN_INTERVAL_MS || '5000', 10)
+      }
+    },
+    
     security: {
       rateLimitWindowMs: parseInt(process.env.RATE_LIMIT_WINDOW_MS || '900000', 10),
       rateLimitMaxRequests: parseInt(process.env.RATE_LIMIT_MAX_REQUESTS || '100', 10),
+      cheapToolMaxRequests: parseInt(process.env.RATE_LIMIT_CHEAP_TOOLS_MAX_REQUESTS || '60', 10),
+      expensiveToolMaxRequests: parseInt(process.env.RATE_LIMIT_EXPENSIVE_TOOLS_MAX_REQUESTS || '20', 10),
+      trustProxy: /^\d+$/.test(process.env.TRUST_PROXY || '') ? parseInt(process.env.TRUST_PROXY!, 10) : process.env.TRUST_PROXY === 'true',
       logLevel: process.env.LOG_LEVEL || 'info'
     },
     
+    auth: {
+      enabled: process.env.API_AUTH_ENABLED === 'true',
+      defaultRateLimitWindowMs: parseInt(process.env.API_KEY_RATE_LIMIT_WINDOW_MS || '60000', 10),
+      defaultRateLimitMaxRequests: parseInt(process.env.API_KEY_RATE_LIMIT_MAX_REQUESTS || '60', 10),
+      defaultDailyTokenBudget: parseInt(process.env.API_KEY_DAILY_TOKEN_BUDGET || '500000', 10),
+      defaultDailySpendCapUsd: process.env.API_KEY_DAILY_SPEND_CAP_USD ? parseFloat(process.env.API_KEY_DAILY_SPEND_CAP_USD) : undefined,
+      defaultMonthlySpendCapUsd: process.env.API_KEY_MONTHLY_SPEND_CAP_USD ? parseFloat(process.env.API_KEY_MONTHLY_SPEND_CAP_USD) : undefined,
+      adminApiKey: process.env.ADMIN_API_KEY
+    },
+    
     tradingView: {
       webhookSecret: process.env.TRADINGVIEW_WEBHOOK_SECRET
     },
@@ -225,7 +325,9 @@ function parseConfig() {
       defaultDepth: process.env.DEFAULT_ANALYSIS_DEPTH || 'standard',
       maxNewsAgeHours: parseInt(process.env.MAX_NEWS_AGE_HOURS || '24', 10),
       cacheDurationHours: parseInt(process.env.CACHE_DURATION_HOURS || '12', 10),
-      tripleVerificationThreshold: parseFloat(process.env.TRIPLE_VERIFICATION_THRESHOLD || '0.7')
+      tripleVerificationThreshold: parseFloat(process.env.TRIPLE_VERIFICATION_THRESHOLD || '0.7'),
+      analystTrackRecords: process.env.ANALYST_TRACK_RECORDS ? JSON.parse(process.env.ANALYST_TRACK_RECORDS) : {},
+      customAnalystsFile: process.env.CUSTOM_ANALYSTS_FILE
     }
   };
   
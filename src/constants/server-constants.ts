@@ -34,13 +34,143 @@ export const SERVER_CONSTANTS = {
     AI_PROVIDER_REQUEST: 45000     // 45 seconds for AI provider requests
   },
 
+  /**
+   * Models per provider for each tier - providers missing from a tier keep their configured default
+   */
+  MODEL_TIERS: {
+    fast: {
+      openai: 'gpt-4o-mini',
+      anthropic: 'claude-3-haiku-20240307',
+      gemini: 'gemini-1.5-flash',
+      deepseek: 'deepseek-chat',
+      groq: 'llama-3.1-8b-instant',
+      openrouter: 'openai/gpt-4o-mini'
+    },
+    balanced: {},
+    premium: {
+      openai: 'gpt-4o',
+      anthropic: 'claude-3-5-sonnet-latest',
+      gemini: 'gemini-1.5-pro',
+      deepseek: 'deepseek-reasoner',
+      groq: 'llama-3.3-70b-versatile',
+      openrouter: 'anthropic/claude-3.5-sonnet'
+    }
+  },
+
+  /**
+   * List prices in USD per million tokens, by model - MODEL_PRICING overrides or extends these
+   * Models without a price are costed at 0 (local models always are unless priced explicitly)
+   */
+  MODEL_PRICING: {
+    'gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    'gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+    'gpt-4': { inputPerMillion: 30, outputPerMillion: 60 },
+    'gpt-4-turbo': { inputPerMillion: 10, outputPerMillion: 30 },
+    'gpt-3.5-turbo': { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+    'claude-3-haiku-20240307': { inputPerMillion: 0.25, outputPerMillion: 1.25 },
+    'claude-3-sonnet-20240229': { inputPerMillion: 3, outputPerMillion: 15 },
+    'claude-3-5-sonnet-latest': { inputPerMillion: 3, outputPerMillion: 15 },
+    'claude-3-opus-20240229': { inputPerMillion: 15, outputPerMillion: 75 },
+    'gemini-pro': { inputPerMillion: 0.5, outputPerMillion: 1.5 },
+    'gemini-1.5-flash': { inputPerMillion: 0.075, outputPerMillion: 0.3 },
+    'gemini-1.5-pro': { inputPerMillion: 1.25, outputPerMillion: 5 },
+    'gemini-2.5-flash-lite': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+    'deepseek-chat': { inputPerMillion: 0.27, outputPerMillion: 1.1 },
+    'deepseek-reasoner': { inputPerMillion: 0.55, outputPerMillion: 2.19 },
+    'llama-3.3-70b-versatile': { inputPerMillion: 0.59, outputPerMillion: 0.79 },
+    'llama-3.1-8b-instant': { inputPerMillion: 0.05, outputPerMillion: 0.08 },
+    // OpenRouter passes the vendor's list price through
+    'openai/gpt-4o-mini': { inputPerMillion: 0.15, outputPerMillion: 0.6 },
+    'openai/gpt-4o': { inputPerMillion: 2.5, outputPerMillion: 10 },
+    'anthropic/claude-3-haiku': { inputPerMillion: 0.25, outputPerMillion: 1.25 },
+    'anthropic/claude-3.5-sonnet': { inputPerMillion: 3, outputPerMillion: 15 },
+    'meta-llama/llama-3.3-70b-instruct': { inputPerMillion: 0.13, outputPerMillion: 0.4 }
+  } as Record<string, { inputPerMillion: number; outputPerMillion: number }>,
+
+  /**
+   * Token accounting
+   */
+  USAGE: {
+    CHARS_PER_TOKEN_ESTIMATE: 4,   // Used only when a provider does not report usage
+    COST_DECIMALS: 6               // USD amounts are rounded to a millionth of a dollar
+  },
+
+  /**
+   * Provider routing and spend caps
+   */
+  ROUTING: {
+    SPEND_REFRESH_MS: 60 * 1000,         // How often spend totals are reloaded from MongoDB (shared across replicas)
+    DEFAULT_COMPLETION_TOKENS: 2000,     // Completion size assumed when costing a call without maxTokens
+    // Relative answer quality by model for quality_first (unlisted models rank 0)
+    MODEL_QUALITY: {
+      'gpt-4o': 9,
+      'gpt-4-turbo': 8,
+      'gpt-4': 8,
+      'gpt-4o-mini': 6,
+      'gpt-3.5-turbo': 4,
+      'claude-3-opus-20240229': 9,
+      'claude-3-5-sonnet-latest': 9,
+      'claude-3-sonnet-20240229': 7,
+      'claude-3-haiku-20240307': 5,
+      'gemini-1.5-pro': 8,
+      'gemini-pro': 5,
+      'gemini-1.5-flash': 5,
+      'gemini-2.5-flash-lite': 5,
+      'deepseek-reasoner': 8,
+      'deepseek-chat': 7,
+      'llama-3.3-70b-versatile': 6,
+      'llama-3.1-8b-instant': 3,
+      'openai/gpt-4o': 9,
+      'anthropic/claude-3.5-sonnet': 9,
+      'openai/gpt-4o-mini': 6,
+      'meta-llama/llama-3.3-70b-instruct': 6,
+      'anthropic/claude-3-haiku': 5
+    } as Record<string, number>
+  },
+
+  /**
+   * Circuit breaker and background probes per AI provider
+   */
+  PROVIDER_HEALTH: {
+    FAILURE_THRESHOLD: 3,          // Consecutive provider faults that open the circuit
+    OPEN_COOLDOWN_MS: 30 * 1000,   // Wait before the first half-open trial; doubles each time a trial fails
+    MAX_OPEN_COOLDOWN_MS: 5 * 60 * 1000,
+    PROBE_INTERVAL_MS: 60 * 1000,  // Providers without a real call in this long are probed
+    PROBE_TIMEOUT_MS: 10 * 1000,
+    LATENCY_SMOOTHING: 0.2,        // Weight of the newest call in the moving average latency
+    FAULT_STATUS_CODES: [401, 403, 408, 429] as readonly number[] // 4xx answers that mean the provider cannot serve us; other 4xx are request problems
+  },
+
+  /**
+   * Schema-constrained model responses
+   */
+  STRUCTURED_RESPONSE: {
+    MAX_RETRIES: 2                 // Re-prompts after a schema violation before falling back to regex extraction
+  },
+
+  /**
+   * Live analyst output streamed over WebSocket and SSE
+   */
+  STREAMING: {
+    NOTIFICATION_METHOD: 'notifications/analysis/stream'
+  },
+
+  /**
+   * MCP resources: stored analyses, cached news, analyst personas and the economic calendar
+   */
+  RESOURCES: {
+    MAX_LISTED_ANALYSES: 50,       // Most recent stored analyses returned by resources/list
+    CALENDAR_REFRESH_MS: 15 * 60 * 1000, // How often calendar://upcoming is checked for changes while subscribed
+    NOT_FOUND_ERROR_CODE: -32002   // JSON-RPC error code the MCP spec uses for unknown resources
+  },
+
   /**
    * Server capabilities and feature flags
    */
   CAPABILITIES: {
     TOOLS: true,
-    RESOURCES: false,
-    PROMPTS: false,
+    RESOURCES: true,
+    PROMPTS: true,
     LOGGING: true
   },
 
@@ -71,6 +201,14 @@ export const SERVER_CONSTANTS = {
     DEEP: 'deep'
   } as const,
 
+  /**
+   * Tool output formats
+   */
+  OUTPUT_FORMATS: {
+    MARKDOWN: 'markdown',
+    JSON: 'json'
+  } as const,
+
   /**
    * News categories
    */
@@ -84,6 +222,63 @@ export const SERVER_CONSTANTS = {
     ECONOMICS: 'economics'
   } as const,
 
+  /**
+   * News source registry defaults
+   */
+  NEWS_SOURCES: {
+    DEFAULT_CREDIBILITY: 0.7,             // Sources that do not set their own (0-1)
+    DEFAULT_POLL_INTERVAL_MINUTES: 15,    // A source is fetched at most once per interval; polls in between reuse its last items
+    LATENCY_SMOOTHING: 0.3,               // Weight of the newest poll in a source's average latency
+    USER_AGENT: 'MCP-NextGen-Financial-Intelligence/1.0 (+https://github.com/your-repo)',
+    // Product token matched against robots.txt User-agent lines
+    ROBOTS_AGENT: 'MCP-NextGen-Financial-Intelligence',
+    // Free tier requests per day of the news APIs
+    API_DAILY_QUOTAS: {
+      newsapi: 500,
+      gnews: 100,
+      currents: 600
+    }
+  },
+
+  /**
+   * Grouping of articles from different sources into stories
+   */
+  NEWS_CLUSTERING: {
+    MINHASH_PERMUTATIONS: 128,            // Signature length; the similarity estimate's error shrinks with its square root
+    SIMILARITY_THRESHOLD: 0.25,           // Estimated Jaccard similarity of headline and lead above which articles are one story
+    LEAD_CHARS: 200,                      // Text after the headline that counts towards similarity
+    STEM_CHARS: 5                         // Words are compared on this many leading letters
+  },
+
+  /**
+   * Background news ingestion into the MongoDB article store
+   */
+  NEWS_INGESTION: {
+    TICK_MS: 60 * 1000,                   // How often due sources are looked for
+    API_PAGE_SIZE: 20,                    // Items asked of a news API per poll
+    MAX_CONTENT_CHARS: 2000,              // Stored article text is cut to this length
+    RANK_CANDIDATES_FACTOR: 3             // Store reads rank this many times the requested items
+  },
+
+  /**
+   * Full-text article download and extraction
+   */
+  ARTICLE_FETCH: {
+    TIMEOUT_MS: 10 * 1000,                // Per page, robots.txt included
+    BUDGET_MS: 30 * 1000,                 // All downloads of one analysis; items not fetched by then keep their summary
+    MAX_PAGE_BYTES: 2 * 1024 * 1024,      // Larger pages are not downloaded
+    MAX_REDIRECTS: 3,
+    CONCURRENCY: 4,                       // Pages downloaded at once, across domains
+    ROBOTS_CACHE_MS: 60 * 60 * 1000,      // robots.txt is read once an hour per site
+    RESULT_CACHE_MS: 6 * 60 * 60 * 1000,  // Extracted text (or its absence) is reused this long
+    RESULT_CACHE_SIZE: 500,
+    MAX_TEXT_CHARS: 20000,                // Extracted text is cut to this length
+    PROMPT_CHARS: 4000,                   // Text of an article handed to the analysis model
+    MIN_ARTICLE_CHARS: 500,               // Less text than this is not taken for an article
+    MIN_PARAGRAPH_CHARS: 25,              // Shorter paragraphs do not score their container
+    MIN_LINE_CHARS: 20                    // Shorter lines (datelines, labels, buttons) are dropped
+  },
+
   /**
    * Time range options
    */
@@ -91,7 +286,9 @@ export const SERVER_CONSTANTS = {
     ONE_HOUR: '1h',
     SIX_HOURS: '6h',
     TWELVE_HOURS: '12h',
-    TWENTY_FOUR_HOURS: '24h'
+    TWENTY_FOUR_HOURS: '24h',
+    THREE_DAYS: '3d',     // Beyond 24h only the article store (MongoDB ingestion) has enough history
+    SEVEN_DAYS: '7d'
   } as const,
 
   /**
@@ -104,6 +301,7 @@ export const SERVER_CONSTANTS = {
     FORBIDDEN: 403,
     NOT_FOUND: 404,
     METHOD_NOT_ALLOWED: 405,
+    CONFLICT: 409,
     RATE_LIMITED: 429,
     INTERNAL_ERROR: 500,
     SERVICE_UNAVAILABLE: 503
@@ -117,16 +315,40 @@ export const SERVER_CONSTANTS = {
     INVALID_REQUEST: -32600,
     METHOD_NOT_FOUND: -32601,
     INVALID_PARAMS: -32602,
-    INTERNAL_ERROR: -32603
+    INTERNAL_ERROR: -32603,
+    SESSION_NOT_FOUND: -32001,     // Streamable HTTP request for a session that expired or never existed
+    RATE_LIMITED: -32029           // API key exceeded its request rate (WebSocket; HTTP answers 429)
   } as const,
 
+  /**
+   * API key authentication (enabled with API_AUTH_ENABLED)
+   */
+  API_KEYS: {
+    PREFIX: 'mfi_',                // Marks the server's keys so they are easy to spot in leaked-secret scans
+    RANDOM_BYTES: 32,
+    DISPLAY_PREFIX_LENGTH: 12,     // Stored in clear to identify a key in logs and listings
+    CACHE_TTL_MS: 60 * 1000,       // Authenticated keys are re-read from MongoDB after this, so revocation applies within a minute
+    USAGE_RETENTION_DAYS: 35,      // Daily per-tenant usage documents expire after this
+    HEADER: 'x-api-key',
+    QUERY_PARAM: 'api_key'         // WebSocket clients that cannot set headers on the upgrade request
+  },
+
+  /**
+   * MCP Streamable HTTP sessions on /mcp
+   */
+  HTTP_MCP: {
+    SESSION_IDLE_TIMEOUT_MS: 30 * 60 * 1000, // Sessions without requests for this long are closed
+    SESSION_SWEEP_INTERVAL_MS: 60 * 1000
+  },
+
   /**
    * Rate limiting defaults
    */
   RATE_LIMITS: {
     WINDOW_MS: 15 * 60 * 1000,     // 15 minutes
     MAX_REQUESTS: 100,              // Maximum requests per window
-    MAX_REQUESTS_PER_TOOL: 20       // Maximum requests per tool per window
+    MAX_REQUESTS_PER_TOOL: 20,      // Maximum requests per tool per window
+    CHEAP_TOOLS: ['fetch_breaking_news'] as readonly string[] // Counted in the cheap tool bucket; every other tool is expensive
   },
 
   /**
@@ -151,6 +373,74 @@ export const SERVER_CONSTANTS = {
     'behavioral_analyst'
   ] as const,
 
+  /**
+   * Keywords signalling that a query falls within an analyst's specialty
+   */
+  ANALYST_SPECIALTY_KEYWORDS: {
+    political_analyst: ['government', 'policy', 'regulation', 'election', 'congress', 'legislation', 'tariff'],
+    economic_analyst: ['fed', 'interest', 'rate', 'inflation', 'gdp', 'employment', 'cpi', 'recession'],
+    geopolitical_analyst: ['war', 'conflict', 'sanctions', 'trade', 'military', 'opec', 'diplomatic'],
+    financial_analyst: ['earnings', 'stock', 'equity', 'bond', 'yield', 'valuation', 'revenue'],
+    crypto_analyst: ['crypto', 'bitcoin', 'ethereum', 'blockchain', 'defi', 'token', 'stablecoin'],
+    tech_analyst: ['ai', 'tech', 'semiconductor', 'software', 'cloud', 'innovation', 'chip'],
+    behavioral_analyst: ['sentiment', 'fear', 'greed', 'panic', 'rally', 'euphoria', 'capitulation']
+  },
+
+  /**
+   * Automatic analyst routing when no sage_perspectives are given
+   */
+  ANALYST_ROUTING: {
+    // News categories that map directly onto a specialty
+    CATEGORY_ANALYSTS: {
+      crypto: 'crypto_analyst',
+      politics: 'political_analyst',
+      economics: 'economic_analyst',
+      stocks: 'financial_analyst',
+      forex: 'economic_analyst',
+      commodities: 'geopolitical_analyst'
+    } as Record<string, string>,
+    CATEGORY_BOOST: 3,               // Score added for a matching news category
+    // Order used to fill the panel when too few analysts are relevant
+    GENERALISTS: ['financial_analyst', 'economic_analyst', 'behavioral_analyst', 'geopolitical_analyst']
+  },
+
+  /**
+   * Consensus aggregation strategies
+   */
+  CONSENSUS_STRATEGIES: {
+    SIMPLE_MEAN: 'simple_mean',
+    CONFIDENCE_WEIGHTED: 'confidence_weighted',
+    SPECIALTY_WEIGHTED: 'specialty_weighted',
+    CALIBRATED: 'calibrated'
+  },
+
+  /**
+   * Analysis modes: independent single pass, or multi-round debate between analysts
+   */
+  ANALYSIS_MODES: {
+    INDEPENDENT: 'independent',
+    DEBATE: 'debate'
+  },
+
+  /**
+   * Debate mode limits
+   */
+  DEBATE: {
+    DEFAULT_ROUNDS: 2,
+    MAX_ROUNDS: 3,
+    CONVERGENCE_THRESHOLD: 0.25    // Final dispersion at or below this counts as converged
+  },
+
+  /**
+   * Aggregation tuning
+   */
+  AGGREGATION: {
+    SPECIALTY_KEYWORD_BOOST: 0.5,   // Extra weight per matched specialty keyword
+    SPECIALTY_MAX_MULTIPLIER: 3,    // Cap on the specialty weight multiplier
+    CALIBRATION_PRIOR_ACCURACY: 0.5, // Assumed accuracy of an analyst with no track record
+    CALIBRATION_PRIOR_SAMPLES: 10   // Pseudo-samples backing the prior
+  },
+
   /**
    * Default configurations
    */
@@ -160,7 +450,9 @@ export const SERVER_CONSTANTS = {
     TIME_RANGE: '6h',
     NEWS_CATEGORY: 'all',
     INCLUDE_NEWS: true,
-    INCLUDE_ANALYSIS: true
+    INCLUDE_ANALYSIS: true,
+    OUTPUT_FORMAT: 'markdown',
+    CONSENSUS_STRATEGY: 'simple_mean'
   },
 
   /**
@@ -185,8 +477,11 @@ export const SERVER_CONSTANTS = {
     HEALTH: '/health',
     TOOLS: '/tools',
     MCP: '/mcp',
+    MCP_STREAM: '/mcp/stream',
     MCP_INFO: '/mcp/info',
-    MCP_TEST: '/mcp/test'
+    MCP_TEST: '/mcp/test',
+    ADMIN: '/admin',
+    ADMIN_NEWS_SOURCES: '/admin/news-sources'
   }
 } as const;
 
@@ -207,13 +502,23 @@ export const ERROR_MESSAGES = {
   INVALID_JSON: 'Invalid JSON format. Please check your request body.',
   MISSING_REQUIRED_FIELD: (field: string) => `${field} is required`,
   RATE_LIMIT_EXCEEDED: 'Too many requests from this IP, please try again later.',
+  API_KEY_MISSING: 'API key required: send it as "Authorization: Bearer <key>" or in the X-API-Key header',
+  API_KEY_INVALID: 'Invalid or revoked API key',
+  API_KEY_RATE_LIMITED: 'Too many requests for this API key, please try again later.',
+  TOOL_RATE_LIMIT_EXCEEDED: (bucket: string) => `Too many ${bucket.replace('_tools', '')} tool calls, please try again later.`,
+  TOKEN_BUDGET_EXHAUSTED: "Daily AI token budget exhausted for this tenant; it resets at 00:00 UTC",
+  SPEND_CAP_REACHED: (period: 'daily' | 'monthly') =>
+    `${period === 'daily' ? 'Daily' : 'Monthly'} AI spend cap reached for this tenant; it resets at 00:00 UTC${period === 'monthly' ? ' on the 1st' : ''}`,
+  AUTH_UNAVAILABLE: 'Authentication is temporarily unavailable',
+  ADMIN_API_DISABLED: 'Admin API is disabled: set ADMIN_API_KEY to enable it',
+  ADMIN_KEY_INVALID: 'Invalid admin key',
   INTERNAL_SERVER_ERROR: 'Internal server error',
   TOOL_EXECUTION_FAILED: 'Tool execution failed',
   ANALYSIS_FAILED: 'Analysis failed',
   NETWORK_ERROR: 'Failed to connect to the analysis server. Please try again.',
   AI_PROVIDER_UNAVAILABLE: 'AI provider temporarily unavailable',
   INVALID_ANALYSIS_DEPTH: 'Analysis depth must be quick, standard, or deep',
-  INVALID_TIME_RANGE: 'Time range must be 1h, 6h, 12h, or 24h',
+  INVALID_TIME_RANGE: 'Time range must be 1h, 6h, 12h, 24h, 3d or 7d',
   INVALID_NEWS_CATEGORY: 'Invalid news category specified'
 } as const;
 
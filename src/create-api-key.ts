@@ -0,0 +1,81 @@
+#!/usr/bin/env node
+
+import { parseArgs } from 'util';
+
+import { config } from './config.js';
+import { mongoService } from './services/mongodb.js';
+import { apiKeyService } from './services/api-keys.js';
+
+/**
+ * Issue an API key for HTTP and WebSocket access
+ * Usage: npm run api-key:create -- --tenant <tenant> --name <name> [--max-requests <n>] [--window-ms <ms>] [--daily-tokens <n>] [--daily-usd <usd>] [--monthly-usd <usd>]
+ * The key is printed once; only its hash is stored
+ */
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      tenant: { type: 'string' },
+      name: { type: 'string' },
+      'max-requests': { type: 'string' },
+      'window-ms': { type: 'string' },
+      'daily-tokens': { type: 'string' },
+      'daily-usd': { type: 'string' },
+      'monthly-usd': { type: 'string' }
+    }
+  });
+
+  if (!values.tenant || !values.name) {
+    throw new Error('Usage: npm run api-key:create -- --tenant <tenant> --name <name> [--max-requests <n>] [--window-ms <ms>] [--daily-tokens <n>] [--daily-usd <usd>] [--monthly-usd <usd>]');
+  }
+
+  const parsePositive = (option: string, value: string | undefined, fallback: number): number => {
+    if (value === undefined) return fallback;
+    const parsed = parseInt(value, 10);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      throw new Error(`--${option} must be a positive integer`);
+    }
+    return parsed;
+  };
+
+  const parseUsd = (option: string, value: string | undefined, fallback: number | undefined): number | undefined => {
+    if (value === undefined) return fallback;
+    const parsed = parseFloat(value);
+    if (!Number.isFinite(parsed) || parsed <= 0) {
+      throw new Error(`--${option} must be a positive amount in USD`);
+    }
+    return parsed;
+  };
+  const dailyUsd = parseUsd('daily-usd', values['daily-usd'], config.auth.defaultDailySpendCapUsd);
+  const monthlyUsd = parseUsd('monthly-usd', values['monthly-usd'], config.auth.defaultMonthlySpendCapUsd);
+
+  if (!(await mongoService.connect())) {
+    throw new Error('MongoDB is required to store API keys - set MONGODB_URI');
+  }
+
+  try {
+    const { key, identity } = await apiKeyService.createApiKey({
+      name: values.name,
+      tenant: values.tenant,
+      rateLimit: {
+        windowMs: parsePositive('window-ms', values['window-ms'], config.auth.defaultRateLimitWindowMs),
+        maxRequests: parsePositive('max-requests', values['max-requests'], config.auth.defaultRateLimitMaxRequests)
+      },
+      dailyTokenBudget: parsePositive('daily-tokens', values['daily-tokens'], config.auth.defaultDailyTokenBudget),
+      spendCaps: {
+        ...(dailyUsd && { dailyUsd }),
+        ...(monthlyUsd && { monthlyUsd })
+      }
+    });
+
+    process.stdout.write(`${JSON.stringify({ ...identity, key }, null, 2)}\n`);
+    process.stdout.write('Store this key now - it cannot be shown again.\n');
+  } finally {
+    await mongoService.disconnect();
+  }
+}
+
+// Exit explicitly: the MongoDB service schedules a reconnect when the connection closes
+main().then(() => process.exit(0), error => {
+  process.stderr.write(`${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+});
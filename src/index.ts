@@ -2,21 +2,16 @@
 
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
-import { 
-  CallToolRequestSchema, 
-  ListToolsRequestSchema
-} from "@modelcontextprotocol/sdk/types.js";
 
 import { config, configForLogging } from "./config.js";
 import { secureLogger } from "./utils/logger.js";
-import { ToolResponse } from "./types/index.js";
 
-// Import shared definitions
-import { TOOL_DEFINITIONS } from "./shared/tool-definitions.js";
-import { UniversalToolExecutor } from "./shared/tool-executor.js";
+// Import shared MCP server
+import { createMcpServer } from "./shared/mcp-server-factory.js";
 
 // Import database manager
 import { databaseManager } from "./services/database-manager.js";
+import { newsIngestionWorker } from "./services/news-ingestion.js";
 
 /**
  * MCP NextGen Financial Intelligence Server
@@ -26,62 +21,10 @@ class FinancialIntelligenceServer {
   private readonly server: Server;
   
   constructor() {
-    this.server = new Server(
-      {
-        name: "mcp-nextgen-financial-intelligence",
-        version: "3.0.0"
-      },
-      {
-        capabilities: {
-          tools: {}
-        }
-      }
-    );
-    
-    this.setupHandlers();
+    // Progress notifications only - STDIO clients do not get the live analysis stream
+    this.server = createMcpServer({ transport: 'STDIO', streamToolOutput: false });
   }
   
-  private setupHandlers(): void {
-    // List available tools
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return { tools: TOOL_DEFINITIONS };
-    });
-    
-    // Handle tool execution
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-      const startTime = Date.now();
-      
-      try {
-        secureLogger.info(`Executing tool: ${name}`, { args });
-        
-        const result: ToolResponse = await UniversalToolExecutor.execute(name, args);
-        
-        const duration = Date.now() - startTime;
-        secureLogger.toolExecution(name, args, duration, true);
-        
-        return {
-          content: result.content,
-          isError: result.isError
-        };
-        
-      } catch (error) {
-        const duration = Date.now() - startTime;
-        secureLogger.toolExecution(name, args, duration, false);
-        secureLogger.error(`Tool execution error: ${name}`, { error: error instanceof Error ? error.message : String(error) });
-        
-        return {
-          content: [{ 
-            type: "text", 
-            text: `❌ **Error executing ${name}**: ${error instanceof Error ? error.message : String(error)}` 
-          }],
-          isError: true
-        };
-      }
-    });
-  }
-  
-  
   async start(): Promise<void> {
     // Initialize database services
     try {
@@ -90,6 +33,9 @@ class FinancialIntelligenceServer {
       secureLogger.warn("Database initialization failed, continuing without database support", { error });
     }
     
+    // Fill the article store in the background (needs MongoDB)
+    newsIngestionWorker.start();
+    
     // Check for Universal mode (all protocols)
     if (config.universalMode) {
       secureLogger.info("Universal mode requested, starting all protocol servers");
@@ -169,12 +115,14 @@ class FinancialIntelligenceServer {
 // Error handling and graceful shutdown
 process.on('SIGINT', async () => {
   secureLogger.info('Received SIGINT, shutting down gracefully');
+  newsIngestionWorker.stop();
   await databaseManager.shutdown();
   process.exit(0);
 });
 
 process.on('SIGTERM', async () => {
   secureLogger.info('Received SIGTERM, shutting down gracefully');
+  newsIngestionWorker.stop();
   await databaseManager.shutdown();
   process.exit(0);
 });
@@ -1,14 +1,26 @@
-import axios, { AxiosInstance } from 'axios';
+import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
+import { Readable } from 'stream';
 import { config } from '../config.js';
 import { secureLogger } from '../utils/logger.js';
-import { ProviderConfidenceExtractors } from '../utils/confidence-extractor.js';
+import { ProviderConfidenceExtractors, ProviderType } from '../utils/confidence-extractor.js';
+import { SERVER_CONSTANTS } from '../constants/server-constants.js';
+import { ProviderHealth, ProviderHealthMonitor } from './provider-health.js';
+import { ProviderRouter } from './provider-router.js';
+import { usageAccountingService, ReportedTokens } from './usage-accounting.js';
 import { 
   AIProvider, 
+  AIRequestOptions,
   AnalysisResult, 
   AIProviderError,
+  ProviderUsage,
+  SpendCaps,
+  SpendTotals,
+  TokenUsage,
   OpenAIResponse,
+  OpenAIStreamChunk,
   GeminiResponse,
   AnthropicResponse,
+  AnthropicStreamEvent,
   LocalModelResponse
 } from '../types/index.js';
 
@@ -17,8 +29,6 @@ import {
  */
 abstract class BaseAIProvider implements AIProvider {
   protected http: AxiosInstance;
-  protected quotaUsed: number = 0;
-  protected lastQuotaReset: Date = new Date();
   
   constructor(
     public name: string,
@@ -27,7 +37,7 @@ abstract class BaseAIProvider implements AIProvider {
   ) {
     this.http = axios.create({
       baseURL,
-      timeout: 30000,
+      timeout: SERVER_CONSTANTS.TIMEOUTS.AI_PROVIDER_REQUEST,
       headers: {
         'Content-Type': 'application/json'
       }
@@ -41,69 +51,92 @@ abstract class BaseAIProvider implements AIProvider {
       });
       return request;
     });
-    
-    // Add response interceptor for quota tracking
-    this.http.interceptors.response.use(
-      (response) => {
-        this.quotaUsed++;
-        return response;
-      },
-      (error) => {
-        this.quotaUsed++;
-        return Promise.reject(error instanceof Error ? error : new Error(String(error)));
-      }
-    );
   }
   
-  abstract analyze(prompt: string, model?: string): Promise<AnalysisResult>;
+  abstract analyze(prompt: string, model?: string, options?: AIRequestOptions): Promise<AnalysisResult>;
   abstract getModels(): string[];
+  abstract getDefaultModel(): string;
   
-  async isAvailable(): Promise<boolean> {
-    try {
-      // Simple availability check - attempt a minimal request
-      await this.testConnection();
-      return true;
-    } catch (error) {
-      secureLogger.warn(`AI Provider ${this.name} unavailable`, { error });
-      return false;
-    }
+  async probe(signal: AbortSignal): Promise<void> {
+    await this.testConnection(signal);
+  }
+  
+  /**
+   * Tokens and cost of one call, from the provider's reported counts (estimated from the text when it reported none)
+   */
+  protected measureUsage(model: string, prompt: string, content: string, reported?: ReportedTokens): TokenUsage {
+    return usageAccountingService.measure(this.name, model, prompt, content, reported);
+  }
+  
+  /**
+   * Per-call axios config - attaches the caller's abort signal so cancellation drops the HTTP request
+   */
+  protected requestConfig(options: AIRequestOptions, streaming: boolean = false): AxiosRequestConfig {
+    return {
+      ...(options.signal && { signal: options.signal }),
+      ...(streaming && { responseType: 'stream' as const })
+    };
   }
   
-  async getRemainingQuota(): Promise<number> {
-    // Reset quota daily (simplified implementation)
-    const now = new Date();
-    if (now.getDate() !== this.lastQuotaReset.getDate()) {
-      this.quotaUsed = 0;
-      this.lastQuotaReset = now;
+  /**
+   * Call onLine for every non-empty line of a streamed response body
+   */
+  protected async readLines(stream: Readable, onLine: (line: string) => void): Promise<void> {
+    stream.setEncoding('utf8');
+    let buffered = '';
+    
+    for await (const chunk of stream) {
+      buffered += chunk as string;
+      const lines = buffered.split('\n');
+      buffered = lines.pop() ?? '';
+      lines.map(line => line.trim()).filter(Boolean).forEach(onLine);
     }
     
-    // Return estimated remaining quota (provider-specific limits)
-    return Math.max(0, this.getMaxDailyQuota() - this.quotaUsed);
+    if (buffered.trim()) {
+      onLine(buffered.trim());
+    }
+  }
+  
+  /**
+   * Parse the payload of a Server-Sent Events `data:` line
+   * @returns null for event names, comments and the [DONE] sentinel
+   */
+  protected parseSseData<T>(line: string): T | null {
+    if (!line.startsWith('data:')) return null;
+    const data = line.slice('data:'.length).trim();
+    return data === '[DONE]' ? null : JSON.parse(data) as T;
   }
   
-  protected abstract testConnection(): Promise<void>;
-  protected abstract getMaxDailyQuota(): number;
+  protected abstract testConnection(signal: AbortSignal): Promise<void>;
 }
 
 /**
- * OpenAI Provider Implementation
+ * Base for providers that serve the OpenAI chat completions API (OpenAI, DeepSeek, Groq, OpenRouter)
+ * Subclasses choose the endpoint, models and display name; requests, streaming and usage are shared
  */
-export class OpenAIProvider extends BaseAIProvider {
-  constructor(apiKey: string) {
-    super('openai', apiKey, 'https://api.openai.com/v1');
+abstract class OpenAICompatibleProvider extends BaseAIProvider {
+  /** Name used in sources and error messages, e.g. "OpenAI" */
+  protected abstract readonly displayName: string;
+  private readonly extractConfidence: (content: string) => number;
+  
+  constructor(name: ProviderType, apiKey: string, baseURL: string, headers: Record<string, string> = {}) {
+    super(name, apiKey, baseURL);
+    this.extractConfidence = ProviderConfidenceExtractors[name];
     if (this.http.defaults.headers) {
       this.http.defaults.headers['Authorization'] = `Bearer ${apiKey}`;
+      Object.assign(this.http.defaults.headers, headers);
     }
   }
   
-  async analyze(prompt: string, model: string = process.env.OPENAI_MODEL || 'gpt-4o-mini'): Promise<AnalysisResult> {
+  async analyze(prompt: string, model: string = this.getDefaultModel(), options: AIRequestOptions = {}): Promise<AnalysisResult> {
     try {
-      const response = await this.http.post<OpenAIResponse>('/chat/completions', {
+      const systemPrompt = 'You are a specialized financial analyst AI. Provide detailed, accurate analysis with confidence scores and supporting evidence.';
+      const request = {
         model,
         messages: [
           {
             role: 'system',
-            content: 'You are a specialized financial analyst AI. Provide detailed, accurate analysis with confidence scores and supporting evidence.'
+            content: systemPrompt
           },
           {
             role: 'user',
@@ -111,49 +144,187 @@ export class OpenAIProvider extends BaseAIProvider {
           }
         ],
         temperature: 0.7,
-        max_tokens: 2000
-      });
+        max_tokens: options.maxTokens ?? 2000,
+        ...(options.responseFormat === 'json' && this.supportsJsonMode(model) && { response_format: { type: 'json_object' } })
+      };
       
-      const content = response.data.choices[0]?.message?.content || '';
-      const tokensUsed = response.data.usage?.total_tokens || 0;
+      const { content, reported } = options.onToken
+        ? await this.streamCompletion(request, options.onToken, options)
+        : await this.complete(request, options);
+      const usage = this.measureUsage(model, systemPrompt + prompt, content, reported);
       
-      secureLogger.aiProviderCall('openai', model, true, tokensUsed);
+      secureLogger.aiProviderCall(this.name, model, true, usage.totalTokens);
       
       return {
         content,
-        confidence: ProviderConfidenceExtractors.openai(content),
-        sources: ['OpenAI Analysis'],
+        confidence: this.extractConfidence(content),
+        sources: [`${this.displayName} Analysis`],
         timestamp: new Date(),
         analysisType: 'financial_intelligence',
         metadata: {
           model,
-          tokensUsed,
-          provider: 'openai'
+          provider: this.name,
+          usage
         }
       };
       
     } catch (error: any) {
-      secureLogger.aiProviderCall('openai', model, false);
+      secureLogger.aiProviderCall(this.name, model, false);
+      if (error instanceof AIProviderError) throw error;
+      // Buffered error bodies carry the API's own message; streamed ones are not read
+      const detail = error.response?.data?.error?.message ?? error.message;
       throw new AIProviderError(
-        `OpenAI API error: ${error.message}`,
-        'openai',
+        `${this.displayName} API error: ${detail}`,
+        this.name,
         error.response?.status
       );
     }
   }
   
+  /**
+   * Whether the model accepts response_format json_object; without it structured output relies on the prompt
+   */
+  protected supportsJsonMode(_model: string): boolean {
+    return true;
+  }
+  
+  private async complete(request: Record<string, unknown>, options: AIRequestOptions): Promise<{ content: string; reported?: ReportedTokens }> {
+    const response = await this.http.post<OpenAIResponse>('/chat/completions', request, this.requestConfig(options));
+    const usage = response.data.usage;
+    return {
+      content: response.data.choices[0]?.message?.content || '',
+      ...(usage && { reported: { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens } })
+    };
+  }
+  
+  /**
+   * Stream a chat completion, forwarding each content delta as it arrives
+   */
+  private async streamCompletion(
+    request: Record<string, unknown>,
+    onToken: (text: string) => void,
+    options: AIRequestOptions
+  ): Promise<{ content: string; reported?: ReportedTokens }> {
+    const response = await this.http.post<Readable>('/chat/completions', {
+      ...request,
+      stream: true,
+      stream_options: { include_usage: true }
+    }, this.requestConfig(options, true));
+    
+    let content = '';
+    let reported: ReportedTokens | undefined;
+    
+    await this.readLines(response.data, line => {
+      const chunk = this.parseSseData<OpenAIStreamChunk>(line);
+      // Errors after the response has started arrive as a chunk, with the HTTP status already 200
+      if (chunk?.error) {
+        throw new AIProviderError(`${this.displayName} API error: ${chunk.error.message}`, this.name, typeof chunk.error.code === 'number' ? chunk.error.code : undefined);
+      }
+      const text = chunk?.choices?.[0]?.delta?.content;
+      if (text) {
+        content += text;
+        onToken(text);
+      }
+      const usage = chunk?.usage ?? chunk?.x_groq?.usage;
+      if (usage) {
+        reported = { promptTokens: usage.prompt_tokens, completionTokens: usage.completion_tokens };
+      }
+    });
+    
+    return { content, ...(reported && { reported }) };
+  }
+  
+  protected async testConnection(signal: AbortSignal): Promise<void> {
+    await this.http.get('/models', { signal });
+  }
+}
+
+/**
+ * OpenAI Provider Implementation
+ */
+export class OpenAIProvider extends OpenAICompatibleProvider {
+  protected readonly displayName = 'OpenAI';
+  
+  constructor(apiKey: string) {
+    super('openai', apiKey, 'https://api.openai.com/v1');
+  }
+  
+  getDefaultModel(): string {
+    return process.env.OPENAI_MODEL || 'gpt-4o-mini';
+  }
+  
   getModels(): string[] {
     return ['gpt-4o-mini', 'gpt-4o', 'gpt-4', 'gpt-4-turbo', 'gpt-3.5-turbo'];
   }
+}
+
+/**
+ * DeepSeek Provider Implementation
+ */
+export class DeepSeekProvider extends OpenAICompatibleProvider {
+  protected readonly displayName = 'DeepSeek';
+  
+  constructor(apiKey: string) {
+    super('deepseek', apiKey, 'https://api.deepseek.com/v1');
+  }
+  
+  getDefaultModel(): string {
+    return process.env.DEEPSEEK_MODEL || 'deepseek-chat';
+  }
+  
+  getModels(): string[] {
+    return ['deepseek-chat', 'deepseek-reasoner'];
+  }
+  
+  // The reasoning model has no JSON mode
+  protected override supportsJsonMode(model: string): boolean {
+    return model !== 'deepseek-reasoner';
+  }
+}
+
+/**
+ * Groq Provider Implementation
+ */
+export class GroqProvider extends OpenAICompatibleProvider {
+  protected readonly displayName = 'Groq';
+  
+  constructor(apiKey: string) {
+    super('groq', apiKey, 'https://api.groq.com/openai/v1');
+  }
+  
+  getDefaultModel(): string {
+    return process.env.GROQ_MODEL || 'llama-3.3-70b-versatile';
+  }
+  
+  getModels(): string[] {
+    return ['llama-3.3-70b-versatile', 'llama-3.1-8b-instant'];
+  }
+}
+
+/**
+ * OpenRouter Provider Implementation
+ * Models are named `<vendor>/<model>`; the call is billed and routed by OpenRouter
+ */
+export class OpenRouterProvider extends OpenAICompatibleProvider {
+  protected readonly displayName = 'OpenRouter';
+  
+  constructor(apiKey: string) {
+    // Identifies the app on OpenRouter's dashboard
+    super('openrouter', apiKey, 'https://openrouter.ai/api/v1', { 'X-Title': SERVER_CONSTANTS.NAME });
+  }
   
-  protected async testConnection(): Promise<void> {
-    await this.http.get('/models');
+  getDefaultModel(): string {
+    return process.env.OPENROUTER_MODEL || 'openai/gpt-4o-mini';
   }
   
-  protected getMaxDailyQuota(): number {
-    return 10000; // Conservative estimate for OpenAI
+  getModels(): string[] {
+    return ['openai/gpt-4o-mini', 'openai/gpt-4o', 'anthropic/claude-3-haiku', 'anthropic/claude-3.5-sonnet', 'meta-llama/llama-3.3-70b-instruct'];
   }
   
+  // The model list is public, so check the key itself
+  protected override async testConnection(signal: AbortSignal): Promise<void> {
+    await this.http.get('/auth/key', { signal });
+  }
 }
 
 /**
@@ -164,26 +335,32 @@ export class GeminiProvider extends BaseAIProvider {
     super('gemini', apiKey, 'https://generativelanguage.googleapis.com/v1beta');
   }
   
-  async analyze(prompt: string, model: string = 'gemini-pro'): Promise<AnalysisResult> {
+  getDefaultModel(): string {
+    return 'gemini-pro';
+  }
+  
+  async analyze(prompt: string, model: string = this.getDefaultModel(), options: AIRequestOptions = {}): Promise<AnalysisResult> {
     try {
-      const response = await this.http.post<GeminiResponse>(
-        `/models/${model}:generateContent?key=${this.apiKey}`,
-        {
-          contents: [{
-            parts: [{
-              text: `As a specialized financial analyst AI, provide detailed analysis for: ${prompt}`
-            }]
-          }],
-          generationConfig: {
-            temperature: 0.7,
-            maxOutputTokens: 2000
-          }
+      const text = `As a specialized financial analyst AI, provide detailed analysis for: ${prompt}`;
+      const request = {
+        contents: [{
+          parts: [{
+            text
+          }]
+        }],
+        generationConfig: {
+          temperature: 0.7,
+          maxOutputTokens: options.maxTokens ?? 2000,
+          ...(options.responseFormat === 'json' && { responseMimeType: 'application/json' })
         }
-      );
+      };
       
-      const content = response.data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+      const { content, reported } = options.onToken
+        ? await this.streamContent(model, request, options.onToken, options)
+        : await this.generateContent(model, request, options);
+      const usage = this.measureUsage(model, text, content, reported);
       
-      secureLogger.aiProviderCall('gemini', model, true);
+      secureLogger.aiProviderCall('gemini', model, true, usage.totalTokens);
       
       return {
         content,
@@ -193,7 +370,8 @@ export class GeminiProvider extends BaseAIProvider {
         analysisType: 'financial_intelligence',
         metadata: {
           model,
-          provider: 'gemini'
+          provider: 'gemini',
+          usage
         }
       };
       
@@ -207,16 +385,64 @@ export class GeminiProvider extends BaseAIProvider {
     }
   }
   
-  getModels(): string[] {
-    return ['gemini-pro', 'gemini-1.5-pro'];
+  private async generateContent(model: string, request: Record<string, unknown>, options: AIRequestOptions): Promise<{ content: string; reported?: ReportedTokens }> {
+    const response = await this.http.post<GeminiResponse>(
+      `/models/${model}:generateContent?key=${this.apiKey}`,
+      request,
+      this.requestConfig(options)
+    );
+    const reported = this.toReportedTokens(response.data.usageMetadata);
+    return {
+      content: response.data.candidates?.[0]?.content?.parts?.[0]?.text || '',
+      ...(reported && { reported })
+    };
+  }
+  
+  /**
+   * Gemini omits candidatesTokenCount when nothing was generated
+   */
+  private toReportedTokens(usage: GeminiResponse['usageMetadata']): ReportedTokens | undefined {
+    if (usage?.promptTokenCount === undefined) return undefined;
+    return { promptTokens: usage.promptTokenCount, completionTokens: usage.candidatesTokenCount ?? 0 };
+  }
+  
+  /**
+   * Stream generated content over SSE, forwarding each text part as it arrives
+   */
+  private async streamContent(
+    model: string,
+    request: Record<string, unknown>,
+    onToken: (text: string) => void,
+    options: AIRequestOptions
+  ): Promise<{ content: string; reported?: ReportedTokens }> {
+    const response = await this.http.post<Readable>(
+      `/models/${model}:streamGenerateContent?alt=sse&key=${this.apiKey}`,
+      request,
+      this.requestConfig(options, true)
+    );
+    
+    let content = '';
+    let reported: ReportedTokens | undefined;
+    await this.readLines(response.data, line => {
+      const chunk = this.parseSseData<GeminiResponse>(line);
+      const text = chunk?.candidates?.[0]?.content?.parts?.[0]?.text;
+      if (text) {
+        content += text;
+        onToken(text);
+      }
+      // Every chunk carries the running counts; the last one has the totals
+      reported = this.toReportedTokens(chunk?.usageMetadata) ?? reported;
+    });
+    
+    return { content, ...(reported && { reported }) };
   }
   
-  protected async testConnection(): Promise<void> {
-    await this.http.get(`/models?key=${this.apiKey}`);
+  getModels(): string[] {
+    return ['gemini-pro', 'gemini-1.5-pro'];
   }
   
-  protected getMaxDailyQuota(): number {
-    return 1000; // Gemini free tier limit
+  protected async testConnection(signal: AbortSignal): Promise<void> {
+    await this.http.get(`/models?key=${this.apiKey}`, { signal });
   }
   
 }
@@ -233,25 +459,33 @@ export class AnthropicProvider extends BaseAIProvider {
     }
   }
   
-  async analyze(prompt: string, model: string = process.env.ANTHROPIC_MODEL || 'claude-3-haiku-20240307'): Promise<AnalysisResult> {
+  getDefaultModel(): string {
+    return process.env.ANTHROPIC_MODEL || 'claude-3-haiku-20240307';
+  }
+  
+  async analyze(prompt: string, model: string = this.getDefaultModel(), options: AIRequestOptions = {}): Promise<AnalysisResult> {
+    // Anthropic has no native JSON mode - structured output relies on the prompt instructions
     try {
-      const response = await this.http.post<AnthropicResponse>('/messages', {
+      const systemPrompt = 'You are a specialized financial analyst AI. Provide detailed, accurate analysis with confidence scores and supporting evidence.';
+      const request = {
         model,
-        max_tokens: 2000,
+        max_tokens: options.maxTokens ?? 2000,
         temperature: 0.7,
-        system: 'You are a specialized financial analyst AI. Provide detailed, accurate analysis with confidence scores and supporting evidence.',
+        system: systemPrompt,
         messages: [
           {
             role: 'user',
             content: prompt
           }
         ]
-      });
+      };
       
-      const content = response.data.content[0]?.text || '';
-      const tokensUsed = response.data.usage.input_tokens + response.data.usage.output_tokens;
+      const { content, inputTokens, outputTokens } = options.onToken
+        ? await this.streamMessage(request, options.onToken, options)
+        : await this.createMessage(request, options);
+      const usage = this.measureUsage(model, systemPrompt + prompt, content, { promptTokens: inputTokens, completionTokens: outputTokens });
       
-      secureLogger.aiProviderCall('anthropic', model, true, tokensUsed);
+      secureLogger.aiProviderCall('anthropic', model, true, usage.totalTokens);
       
       return {
         content,
@@ -261,10 +495,8 @@ export class AnthropicProvider extends BaseAIProvider {
         analysisType: 'financial_intelligence',
         metadata: {
           model,
-          tokensUsed,
           provider: 'anthropic',
-          inputTokens: response.data.usage.input_tokens,
-          outputTokens: response.data.usage.output_tokens
+          usage
         }
       };
       
@@ -278,6 +510,53 @@ export class AnthropicProvider extends BaseAIProvider {
     }
   }
   
+  private async createMessage(request: Record<string, unknown>, options: AIRequestOptions): Promise<{ content: string; inputTokens: number; outputTokens: number }> {
+    const response = await this.http.post<AnthropicResponse>('/messages', request, this.requestConfig(options));
+    return {
+      content: response.data.content[0]?.text || '',
+      inputTokens: response.data.usage.input_tokens,
+      outputTokens: response.data.usage.output_tokens
+    };
+  }
+  
+  /**
+   * Stream a message, forwarding each text delta as it arrives
+   */
+  private async streamMessage(
+    request: Record<string, unknown>,
+    onToken: (text: string) => void,
+    options: AIRequestOptions
+  ): Promise<{ content: string; inputTokens: number; outputTokens: number }> {
+    const response = await this.http.post<Readable>('/messages', { ...request, stream: true }, this.requestConfig(options, true));
+    
+    let content = '';
+    let inputTokens = 0;
+    let outputTokens = 0;
+    
+    await this.readLines(response.data, line => {
+      const event = this.parseSseData<AnthropicStreamEvent>(line);
+      switch (event?.type) {
+        case 'message_start':
+          inputTokens = event.message.usage.input_tokens;
+          outputTokens = event.message.usage.output_tokens;
+          break;
+        case 'content_block_delta':
+          if (event.delta.text) {
+            content += event.delta.text;
+            onToken(event.delta.text);
+          }
+          break;
+        case 'message_delta':
+          outputTokens = event.usage.output_tokens;
+          break;
+        case 'error':
+          throw new Error(event.error.message);
+      }
+    });
+    
+    return { content, inputTokens, outputTokens };
+  }
+  
   getModels(): string[] {
     return [
       'claude-3-haiku-20240307',    // Most cost-effective
@@ -286,17 +565,13 @@ export class AnthropicProvider extends BaseAIProvider {
     ];
   }
   
-  protected async testConnection(): Promise<void> {
+  protected async testConnection(signal: AbortSignal): Promise<void> {
     // Simple test with minimal token usage
     await this.http.post('/messages', {
       model: 'claude-3-haiku-20240307',
       max_tokens: 1,
       messages: [{ role: 'user', content: 'Hi' }]
-    });
-  }
-  
-  protected getMaxDailyQuota(): number {
-    return 5000; // Conservative estimate for Claude
+    }, { signal });
   }
   
 }
@@ -310,17 +585,32 @@ export class LocalModelProvider extends BaseAIProvider {
     // No API key needed for local models
   }
   
-  async analyze(prompt: string, model: string = process.env.LOCAL_MODEL_NAME || 'llama2'): Promise<AnalysisResult> {
+  getDefaultModel(): string {
+    return process.env.LOCAL_MODEL_NAME || 'llama2';
+  }
+  
+  async analyze(prompt: string, model: string = this.getDefaultModel(), options: AIRequestOptions = {}): Promise<AnalysisResult> {
     try {
-      const response = await this.http.post<LocalModelResponse>('/api/generate', {
+      const fullPrompt = `You are a specialized financial analyst AI. Provide detailed, accurate analysis with confidence scores and supporting evidence.\n\n${prompt}`;
+      const request = {
         model,
-        prompt: `You are a specialized financial analyst AI. Provide detailed, accurate analysis with confidence scores and supporting evidence.\n\n${prompt}`,
-        stream: false
-      });
+        prompt: fullPrompt,
+        ...(options.responseFormat === 'json' && { format: 'json' }),
+        ...(options.maxTokens && { options: { num_predict: options.maxTokens } })
+      };
+      
+      const result = options.onToken
+        ? await this.streamGenerate(request, options.onToken, options)
+        : (await this.http.post<LocalModelResponse>('/api/generate', { ...request, stream: false }, this.requestConfig(options))).data;
       
-      const content = response.data.response || '';
+      const content = result.response || '';
+      // Ollama leaves prompt_eval_count out when the prompt was served from its cache
+      const usage = this.measureUsage(model, fullPrompt, content, result.eval_count === undefined ? undefined : {
+        promptTokens: result.prompt_eval_count ?? 0,
+        completionTokens: result.eval_count
+      });
       
-      secureLogger.aiProviderCall('local', model, true);
+      secureLogger.aiProviderCall('local', model, true, usage.totalTokens);
       
       return {
         content,
@@ -331,8 +621,8 @@ export class LocalModelProvider extends BaseAIProvider {
         metadata: {
           model,
           provider: 'local',
-          totalDuration: response.data.total_duration,
-          evalCount: response.data.eval_count
+          usage,
+          totalDuration: result.total_duration
         }
       };
       
@@ -346,6 +636,34 @@ export class LocalModelProvider extends BaseAIProvider {
     }
   }
   
+  /**
+   * Stream a generation (newline-delimited JSON), forwarding each fragment as it arrives
+   * @returns The final status object with the fragments joined into `response`
+   */
+  private async streamGenerate(
+    request: Record<string, unknown>,
+    onToken: (text: string) => void,
+    options: AIRequestOptions
+  ): Promise<LocalModelResponse> {
+    const response = await this.http.post<Readable>('/api/generate', { ...request, stream: true }, this.requestConfig(options, true));
+    
+    let content = '';
+    let final: LocalModelResponse = { response: '', done: false };
+    
+    await this.readLines(response.data, line => {
+      const chunk = JSON.parse(line) as LocalModelResponse;
+      if (chunk.response) {
+        content += chunk.response;
+        onToken(chunk.response);
+      }
+      if (chunk.done) {
+        final = chunk;
+      }
+    });
+    
+    return { ...final, response: content };
+  }
+  
   getModels(): string[] {
     return [
       'llama2',           // General purpose
@@ -356,25 +674,41 @@ export class LocalModelProvider extends BaseAIProvider {
     ];
   }
   
-  protected async testConnection(): Promise<void> {
-    await this.http.get('/api/tags');
-  }
-  
-  protected getMaxDailyQuota(): number {
-    return 50000; // High quota for local models (limited by hardware only)
+  protected async testConnection(signal: AbortSignal): Promise<void> {
+    await this.http.get('/api/tags', { signal });
   }
   
 }
 
+export interface ProviderStatus {
+  available: boolean;
+  primary: boolean;
+  models: string[];
+  health: ProviderHealth;
+  /** Calls, tokens and spend so far today (UTC) in this process */
+  usageToday: ProviderUsage;
+  /** USD spent this UTC day and month across replicas, against the configured caps */
+  spend: SpendTotals;
+  spendCaps?: SpendCaps;
+}
+
 /**
  * AI Provider Manager with fallback chain
+ * Providers whose circuit is open are skipped without a request; see provider-health.ts
+ * Every completed or failed call is accounted per provider; see usage-accounting.ts
+ * The order and model of each call follow the routing policy and spend caps; see provider-router.ts
  */
 export class AIProviderManager {
   private readonly providers: Map<string, AIProvider> = new Map();
   private fallbackChain: string[] = [];
+  private readonly health = new ProviderHealthMonitor((name, signal) => this.providers.get(name)!.probe(signal));
+  private readonly router = new ProviderRouter(this.providers, this.health);
   
   constructor() {
     this.initializeProviders();
+    for (const name of this.providers.keys()) {
+      this.health.register(name);
+    }
   }
   
   private initializeProviders(): void {
@@ -399,7 +733,20 @@ export class AIProviderManager {
       secureLogger.debug('Local model provider initialized');
     }
     
-    // Note: DeepSeek, Groq, and OpenRouter providers can be added here when needed
+    if (config.aiProviders.deepseek.enabled && config.aiProviders.deepseek.apiKey) {
+      this.providers.set('deepseek', new DeepSeekProvider(config.aiProviders.deepseek.apiKey));
+      secureLogger.debug('DeepSeek provider initialized');
+    }
+    
+    if (config.aiProviders.groq.enabled && config.aiProviders.groq.apiKey) {
+      this.providers.set('groq', new GroqProvider(config.aiProviders.groq.apiKey));
+      secureLogger.debug('Groq provider initialized');
+    }
+    
+    if (config.aiProviders.openrouter.enabled && config.aiProviders.openrouter.apiKey) {
+      this.providers.set('openrouter', new OpenRouterProvider(config.aiProviders.openrouter.apiKey));
+      secureLogger.debug('OpenRouter provider initialized');
+    }
     
     // Determine primary provider based on AI_PROVIDER env var or automatic detection
     const preferredProvider = config.aiProvider || this.detectBestAvailableProvider();
@@ -421,7 +768,7 @@ export class AIProviderManager {
    */
   private detectBestAvailableProvider(): string {
     // Priority order: cost-effective and reliable providers first
-    const providerPriority = ['anthropic', 'openai', 'local', 'gemini'];
+    const providerPriority = ['anthropic', 'openai', 'local', 'gemini', 'deepseek', 'groq', 'openrouter'];
     
     for (const provider of providerPriority) {
       if (this.providers.has(provider)) {
@@ -441,7 +788,8 @@ export class AIProviderManager {
   }
   
   /**
-   * Build an optimal fallback chain prioritizing cost-effectiveness
+   * Build the fallback chain: the primary provider, then FALLBACK_AI_PROVIDERS in their order,
+   * then the remaining providers prioritizing cost-effectiveness
    */
   private buildOptimalFallbackChain(primaryProvider: string): string[] {
     const costOptimizedOrder = [
@@ -457,9 +805,9 @@ export class AIProviderManager {
     // Start with primary provider
     const chain = [primaryProvider];
     
-    // Add other available providers in cost-optimized order
-    for (const provider of costOptimizedOrder) {
-      if (provider !== primaryProvider && this.providers.has(provider)) {
+    // Add other available providers, configured fallbacks first, then in cost-optimized order
+    for (const provider of [...config.fallbackProviders, ...costOptimizedOrder]) {
+      if (!chain.includes(provider) && this.providers.has(provider)) {
         chain.push(provider);
       }
     }
@@ -467,36 +815,88 @@ export class AIProviderManager {
     return chain;
   }
   
-  async analyze(prompt: string, preferredProvider?: string, model?: string): Promise<AnalysisResult> {
-    const providersToTry = preferredProvider && this.providers.has(preferredProvider)
-      ? [preferredProvider, ...this.fallbackChain.filter(p => p !== preferredProvider)]
-      : this.fallbackChain;
+  async analyze(prompt: string, preferredProvider?: string, model?: string, options?: AIRequestOptions): Promise<AnalysisResult> {
+    const pinned = Boolean(preferredProvider && this.providers.has(preferredProvider));
+    const plan = this.router.plan({
+      prompt,
+      providers: pinned ? [preferredProvider!, ...this.fallbackChain.filter(p => p !== preferredProvider)] : this.fallbackChain,
+      pinFirst: pinned,
+      ...(model && { model }),
+      ...(options && { options })
+    });
+    
+    if (plan.candidates.length === 0) {
+      secureLogger.warn('AI routing decision: no provider within its spend cap', { policy: plan.policy, excluded: plan.excluded });
+      throw new AIProviderError(
+        `All AI providers are over their spend caps (${plan.excluded.map(e => e.provider).join(', ')})`,
+        'all',
+        429
+      );
+    }
     
     let lastError: Error | null = null;
+    const skipped: string[] = [];
+    let attempt = 0;
+    // Set once a failed attempt has streamed text the client must drop before the next provider writes
+    let restartPending = false;
     
-    for (const providerName of providersToTry) {
-      const provider = this.providers.get(providerName);
-      if (!provider) continue;
+    for (const candidate of plan.candidates) {
+      const providerName = candidate.provider;
+      const provider = this.providers.get(providerName)!;
+      
+      // A cancelled request must not fall through to the next provider
+      options?.signal?.throwIfAborted();
+      
+      // Skip providers whose circuit is open (or whose half-open trial is already running)
+      if (!this.health.tryAcquire(providerName)) {
+        skipped.push(providerName);
+        continue;
+      }
       
+      attempt++;
+      secureLogger.info('AI routing decision', {
+        policy: plan.policy,
+        provider: providerName,
+        model: candidate.model,
+        attempt,
+        reason: candidate.reason,
+        ...(candidate.degraded && { degraded: true }),
+        ...(skipped.length > 0 && { circuitOpen: skipped }),
+        ...(plan.excluded.length > 0 && { excluded: plan.excluded })
+      });
+      
+      const tenant = options?.billedTo?.tenant;
+      // Text streamed by this attempt; a call that fails mid-stream has already spent its tokens
+      let streamed = '';
+      const onToken = options?.onToken;
+      const attemptOptions = onToken
+        ? { ...options, onToken: (text: string) => { streamed += text; onToken(text); } }
+        : options;
+      const partialUsage = (): TokenUsage | null =>
+        streamed ? usageAccountingService.measure(providerName, candidate.model, prompt, streamed) : null;
+      if (restartPending) {
+        options?.onRestart?.('fallback');
+        restartPending = false;
+      }
+      const startTime = Date.now();
       try {
-        // Check availability first
-        if (!(await provider.isAvailable())) {
-          continue;
-        }
-        
-        // Check quota
-        const remainingQuota = await provider.getRemainingQuota();
-        if (remainingQuota <= 0) {
-          secureLogger.warn(`Provider ${providerName} quota exhausted`);
-          continue;
-        }
-        
-        // Attempt analysis
-        const result = await provider.analyze(prompt, model);
+        const result = await provider.analyze(prompt, candidate.model, attemptOptions);
+        this.health.recordSuccess(providerName, Date.now() - startTime);
+        usageAccountingService.recordProviderCall(providerName, result.metadata?.usage ?? null, tenant);
         secureLogger.info(`Analysis successful with provider: ${providerName}`);
         return result;
         
       } catch (error) {
+        if (options?.signal?.aborted) {
+          this.health.release(providerName);
+          usageAccountingService.recordProviderCall(providerName, partialUsage(), tenant, true);
+          secureLogger.warn(`Provider ${providerName} request aborted`, { reason: String(options.signal.reason) });
+          throw options.signal.reason;
+        }
+        
+        this.health.recordFailure(providerName, error, Date.now() - startTime);
+        usageAccountingService.recordProviderCall(providerName, partialUsage(), tenant, true);
+        restartPending = streamed !== '';
         lastError = error instanceof Error ? error : new Error(String(error));
         secureLogger.warn(`Provider ${providerName} failed`, { error: lastError.message });
         continue;
@@ -505,43 +905,37 @@ export class AIProviderManager {
     
     // All providers failed
     throw new AIProviderError(
-      `All AI providers failed. Last error: ${lastError?.message || 'Unknown error'}`,
+      `All AI providers failed. Last error: ${lastError?.message || 'Unknown error'}` +
+        (skipped.length > 0 ? ` (circuit open: ${skipped.join(', ')})` : ''),
       'all',
       500
     );
   }
   
+  /**
+   * Providers whose circuit is not open - from the health monitor, without calling the providers
+   */
   async getAvailableProviders(): Promise<string[]> {
-    const available: string[] = [];
-    
-    for (const [name, provider] of this.providers) {
-      if (await provider.isAvailable()) {
-        available.push(name);
-      }
-    }
-    
-    return available;
+    return Array.from(this.providers.keys()).filter(name => !this.health.isOpen(name));
   }
   
-  async getProviderStatus(): Promise<Record<string, any>> {
-    const status: Record<string, any> = {};
+  /**
+   * Circuit state and call statistics from the health monitor, today's usage and spend against caps, per provider
+   */
+  async getProviderStatus(): Promise<Record<string, ProviderStatus>> {
+    const status: Record<string, ProviderStatus> = {};
     
     for (const [name, provider] of this.providers) {
-      try {
-        const isAvailable = await provider.isAvailable();
-        const remainingQuota = await provider.getRemainingQuota();
-        
-        status[name] = {
-          available: isAvailable,
-          remainingQuota,
-          models: provider.getModels()
-        };
-      } catch (error) {
-        status[name] = {
-          available: false,
-          error: error instanceof Error ? error.message : String(error)
-        };
-      }
+      const spendCaps = this.router.getProviderCaps(name);
+      status[name] = {
+        available: !this.health.isOpen(name),
+        primary: name === this.fallbackChain[0],
+        models: provider.getModels(),
+        health: this.health.getHealth(name)!,
+        usageToday: usageAccountingService.getProviderUsage(name),
+        spend: usageAccountingService.getProviderSpend(name),
+        ...(spendCaps && { spendCaps })
+      };
     }
     
     return status;
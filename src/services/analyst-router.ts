@@ -0,0 +1,113 @@
+import { secureLogger } from '../utils/logger.js';
+import { SERVER_CONSTANTS } from '../constants/server-constants.js';
+import { customAnalystRegistry } from './custom-analysts.js';
+import { getDepthProfile } from './depth-profiles.js';
+import { AnalysisDepth, AnalystRelevance, AnalystRoutingDecision } from '../types/index.js';
+
+/**
+ * Analyst Router
+ * Scores each analyst's relevance to a query and picks the panel for the requested depth
+ */
+
+export interface RoutingOptions {
+  /** News category of the item being analyzed, if known */
+  category?: string;
+  /** Override the depth's maximum panel size */
+  maxAnalysts?: number;
+}
+
+export class AnalystRouter {
+  /**
+   * Select the analysts to run for a query
+   * @param availableAnalysts - Registered analyst names, in registration order
+   */
+  route(query: string, depth: AnalysisDepth, availableAnalysts: string[], options: RoutingOptions = {}): AnalystRoutingDecision {
+    const profile = getDepthProfile(depth);
+    const maxAnalysts = Math.min(options.maxAnalysts ?? profile.maxAnalysts ?? availableAnalysts.length, availableAnalysts.length);
+    // Profiles without a panel cap run every analyst
+    const minAnalysts = profile.maxAnalysts === null ? maxAnalysts : Math.min(profile.minAnalysts, maxAnalysts);
+
+    const scored = availableAnalysts
+      .map(analyst => this.scoreAnalyst(analyst, query, options.category))
+      .sort((a, b) => b.score - a.score || this.generalistRank(a.analyst) - this.generalistRank(b.analyst));
+
+    const selected = new Set(scored.filter(c => c.score > 0).slice(0, maxAnalysts).map(c => c.analyst));
+
+    // Too few relevant specialists - fill the panel with generalists, then anyone left
+    for (const candidate of scored) {
+      if (selected.size >= minAnalysts) break;
+      selected.add(candidate.analyst);
+    }
+
+    const candidates: AnalystRelevance[] = scored.map(candidate => ({
+      ...candidate,
+      selected: selected.has(candidate.analyst),
+      reason: this.describe(candidate, selected.has(candidate.analyst))
+    }));
+
+    const decision: AnalystRoutingDecision = {
+      depth,
+      selected: candidates.filter(c => c.selected).map(c => c.analyst),
+      candidates,
+      explanation: this.explain(candidates, depth)
+    };
+
+    secureLogger.info('Analysts routed', {
+      depth,
+      selected: decision.selected,
+      skipped: candidates.length - decision.selected.length
+    });
+
+    return decision;
+  }
+
+  /**
+   * Specialty keywords of an analyst that occur in the text (whole words, plurals included)
+   */
+  matchKeywords(analyst: string, text: string): string[] {
+    const words = new Set(text.toLowerCase().match(/[a-z0-9]+/g) ?? []);
+    return customAnalystRegistry.getSpecialtyKeywords(analyst)
+      .filter(keyword => words.has(keyword) || words.has(`${keyword}s`));
+  }
+
+  private scoreAnalyst(analyst: string, query: string, category?: string): Omit<AnalystRelevance, 'selected' | 'reason'> {
+    const matchedKeywords = this.matchKeywords(analyst, query);
+    const categoryMatch = category !== undefined && SERVER_CONSTANTS.ANALYST_ROUTING.CATEGORY_ANALYSTS[category] === analyst;
+
+    return {
+      analyst,
+      score: matchedKeywords.length + (categoryMatch ? SERVER_CONSTANTS.ANALYST_ROUTING.CATEGORY_BOOST : 0),
+      matchedKeywords
+    };
+  }
+
+  private generalistRank(analyst: string): number {
+    const rank = (SERVER_CONSTANTS.ANALYST_ROUTING.GENERALISTS as readonly string[]).indexOf(analyst);
+    return rank === -1 ? Number.MAX_SAFE_INTEGER : rank;
+  }
+
+  private describe(candidate: Omit<AnalystRelevance, 'selected' | 'reason'>, selected: boolean): string {
+    const signals = [
+      ...(candidate.matchedKeywords.length > 0 ? [`matched ${candidate.matchedKeywords.join(', ')}`] : []),
+      ...(candidate.score > candidate.matchedKeywords.length ? ['news category match'] : [])
+    ];
+    const relevance = signals.length > 0 ? signals.join(' + ') : 'no specialty match';
+
+    if (selected) {
+      return candidate.score > 0 ? relevance : 'added to reach the minimum panel size';
+    }
+    return candidate.score > 0 ? `${relevance}, outranked by more relevant analysts` : relevance;
+  }
+
+  private explain(candidates: AnalystRelevance[], depth: AnalysisDepth): string {
+    const selected = candidates.filter(c => c.selected);
+    const skipped = candidates.length - selected.length;
+
+    const picks = selected.map(c => `${c.analyst} (${c.reason})`).join('; ');
+    return `${depth} analysis routed to ${selected.length} of ${candidates.length} analysts: ${picks}` +
+      (skipped > 0 ? `. Skipped ${skipped} less relevant analyst(s).` : '.');
+  }
+}
+
+// Export singleton instance
+export const analystRouter = new AnalystRouter();
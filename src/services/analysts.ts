@@ -1,15 +1,125 @@
-import { aiProviderManager } from './ai-provider.js';
+import { z } from 'zod';
 import { secureLogger } from '../utils/logger.js';
 import { temporalContextService } from './temporal-context.js';
 import { preventiveValidationService } from './preventive-validation.js';
+import { structuredAnalysisService } from './structured-analysis.js';
+import { disagreementEngine } from './disagreement-engine.js';
+import { consensusAggregator } from './consensus-aggregation.js';
+import { customAnalystRegistry, CustomAnalystDefinition } from './custom-analysts.js';
+import { analystRouter } from './analyst-router.js';
+import { getDepthProfile, TokenBudget } from './depth-profiles.js';
+import { SERVER_CONSTANTS } from '../constants/server-constants.js';
+import { withDeadline, raceWithSignal, getCancellationReason } from '../utils/cancellation.js';
+import { emptyTokenUsage } from '../utils/token-usage.js';
 import { 
   Analyst, 
   AnalysisResult, 
   ConsensusAnalysis, 
   AnalystOpinion,
-  AnalysisDepth 
+  AnalysisDepth,
+  RiskLevel,
+  MarketStance,
+  ConsensusStrategy,
+  ConsensusOptions,
+  DepthProfile,
+  DebateResult,
+  DebateTurn,
+  PositionChange,
+  PartialResultInfo,
+  AnalysisEventListener,
+  AnalysisStreamEvent,
+  StreamRestartReason,
+  ApiKeyIdentity
 } from '../types/index.js';
 
+const riskLevelSchema = z.string()
+  .transform(value => value.trim().toUpperCase())
+  .pipe(z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']));
+
+/**
+ * Schema every analyst response must satisfy
+ */
+const analystResponseSchema = z.object({
+  opinion: z.string().min(1),
+  stance: z.string()
+    .transform(value => value.trim().toLowerCase())
+    .pipe(z.enum(['bullish', 'bearish', 'neutral'])),
+  confidence: z.number().min(0).max(100),
+  reasoning: z.string().min(1),
+  // No upper bound: extra points are trimmed to the depth profile's limit rather than re-requested
+  supporting_evidence: z.array(z.string()),
+  risk_level: riskLevelSchema,
+  timeframe: z.string().min(1),
+  recommendation: z.string().min(1)
+});
+
+type AnalystResponse = z.infer<typeof analystResponseSchema>;
+
+/**
+ * Response shape shown to analysts, with the evidence limit of the depth profile
+ */
+function analystResponseShape(maxEvidencePoints: number): Record<string, string> {
+  return {
+    opinion: 'string - your main conclusion in one or two sentences',
+    stance: "'bullish' | 'bearish' | 'neutral' - your directional call",
+    confidence: 'number 0-100',
+    reasoning: 'string - why you reached this conclusion',
+    supporting_evidence: `string[] - up to ${maxEvidencePoints} concise evidence points`,
+    risk_level: "'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL'",
+    timeframe: "string - horizon over which this view applies, e.g. '1-2 weeks'",
+    recommendation: 'string - the key takeaway or action'
+  };
+}
+
+/**
+ * Schema the consensus step must satisfy
+ */
+const consensusResponseSchema = z.object({
+  summary: z.string().min(1),
+  consensus: z.string().min(1),
+  recommendations: z.array(z.string()).min(1).max(5),
+  risk_level: riskLevelSchema,
+  timeframe: z.string().min(1)
+});
+
+/**
+ * Context passed to an analyst for a debate rebuttal round
+ */
+interface DebateContext {
+  round: number;
+  totalRounds: number;
+  previousPosition: AnalystOpinion;
+  peerSummary: string;
+}
+
+/**
+ * Context passed from AnalystManager into every analyst call
+ */
+interface AnalystContext {
+  depth: AnalysisDepth;
+  profile?: DepthProfile;
+  debate?: DebateContext;
+  signal?: AbortSignal;
+  onToken?: (text: string) => void;
+  onRestart?: (reason: StreamRestartReason) => void;
+  /** Tenant the model calls are billed to, for spend caps */
+  billedTo?: ApiKeyIdentity;
+}
+
+const DEPTH_GUIDANCE: Record<AnalysisDepth, string> = {
+  quick: 'Lead with the single most important market implication; skip background',
+  standard: 'Cover the main implications and the key risk to your view',
+  deep: 'Examine second-order effects, alternative scenarios and what would invalidate your view'
+};
+
+const CONSENSUS_RESPONSE_SHAPE = {
+  summary: 'string - one sentence executive summary',
+  consensus: 'string - the unified consensus narrative',
+  recommendations: 'string[] - 1 to 5 unified recommendations',
+  risk_level: "'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' - overall risk level",
+  timeframe: 'string - appropriate timeframe for monitoring'
+};
+
 /**
  * Base Analyst class with common functionality
  */
@@ -20,7 +130,7 @@ abstract class BaseAnalyst implements Analyst {
     protected persona: string
   ) {}
   
-  async analyze(input: string, context?: any): Promise<AnalysisResult> {
+  async analyze(input: string, context?: AnalystContext): Promise<AnalysisResult> {
     // STEP 1: PREVENTIVE VALIDATION - Block fabrication BEFORE AI analysis
     const preventiveValidation = await preventiveValidationService.validateQuery(input, context);
     
@@ -51,18 +161,34 @@ abstract class BaseAnalyst implements Analyst {
       };
     }
 
-    // STEP 2: If allowed, proceed with temporal-aware analysis
+    // STEP 2: If allowed, proceed with temporal-aware, schema-constrained analysis
     const temporalPrompt = temporalContextService.generateTemporalPrompt();
-    const fullPrompt = `${temporalPrompt}\n\n${this.buildPrompt(input, context)}`;
+    const debateSection = context?.debate ? `\n\n${this.buildDebatePrompt(context.debate)}` : '';
+    const profile = context?.profile ?? getDepthProfile(context?.depth ?? 'standard');
+    const fullPrompt = `${temporalPrompt}\n\n${this.buildPrompt(input, context)}${debateSection}\n\n${structuredAnalysisService.buildInstructions(analystResponseShape(profile.maxEvidencePoints))}`;
     
     try {
-      const result = await aiProviderManager.analyze(fullPrompt);
+      const { data: structured, raw: result, attempts, usage } = await structuredAnalysisService.request(fullPrompt, analystResponseSchema, {
+        modelTier: profile.modelTier,
+        maxTokens: profile.maxTokensPerCall,
+        ...(context?.signal && { signal: context.signal }),
+        ...(context?.onToken && { onToken: context.onToken }),
+        ...(context?.onRestart && { onRestart: context.onRestart }),
+        ...(context?.billedTo && { billedTo: context.billedTo })
+      });
+      
+      if (!structured) {
+        secureLogger.warn(`Analyst ${this.name} returned no schema-valid response, falling back to text extraction`, { attempts });
+      }
+      
+      const rawContent = structured ? this.renderStructuredResponse(structured, profile.maxEvidencePoints) : result.content;
+      const rawConfidence = structured ? structured.confidence / 100 : result.confidence;
       
       // STEP 3: Post-analysis validation (reactive backup)
-      const validation = temporalContextService.validateAnalysisContent(result.content, input);
+      const validation = temporalContextService.validateAnalysisContent(rawContent, input);
       
       // Use corrected content if validation found issues
-      const finalContent = validation.correctedContent || result.content;
+      const finalContent = validation.correctedContent || rawContent;
       
       // Add temporal disclaimer
       const contentWithDisclaimer = temporalContextService.addTemporalDisclaimer(finalContent);
@@ -80,12 +206,16 @@ abstract class BaseAnalyst implements Analyst {
       return {
         ...result,
         content: contentWithDisclaimer,
-        confidence: Math.min(result.confidence, validation.confidence),
+        confidence: Math.min(rawConfidence, validation.confidence),
         analysisType: `${this.name}_analysis`,
         metadata: {
           ...result.metadata,
           analyst: this.name,
           specialty: this.specialty,
+          structuredResponse: structured,
+          extractionMethod: structured ? 'structured' : 'regex_fallback',
+          structuredAttempts: attempts,
+          usage,
           preventiveValidation: {
             blocked: false,
             classification: preventiveValidation.classification,
@@ -109,17 +239,50 @@ abstract class BaseAnalyst implements Analyst {
     return this.persona;
   }
   
-  protected abstract buildPrompt(input: string, context?: any): string;
+  /**
+   * Render a structured response as readable text for validation and display
+   */
+  private renderStructuredResponse(response: AnalystResponse, maxEvidencePoints: number): string {
+    return `${response.opinion}
+
+Stance: ${response.stance.toUpperCase()}
+Confidence: ${response.confidence}%
+Reasoning: ${response.reasoning}
+${response.supporting_evidence.slice(0, maxEvidencePoints).map(evidence => `- ${evidence}`).join('\n')}
+Risk Level: ${response.risk_level}
+Timeframe: ${response.timeframe}
+Recommendation: ${response.recommendation}`;
+  }
+  
+  /**
+   * Rebuttal instructions for a debate round, showing the other analysts' positions anonymously
+   */
+  private buildDebatePrompt(debate: DebateContext): string {
+    const previous = debate.previousPosition;
+    
+    return `DEBATE ROUND ${debate.round} OF ${debate.totalRounds}:
+Your previous position: ${previous.stance?.toUpperCase() ?? 'UNSTATED'} (risk ${previous.risk_level ?? 'UNSTATED'}) - ${previous.opinion}
+
+The other analysts currently hold these positions (identities withheld):
+${debate.peerSummary}
+
+Review their arguments from the perspective of your specialty. Revise your position where their evidence is stronger, or defend it and rebut the weakest opposing argument. State in your reasoning what you changed and why, or why you held firm.`;
+  }
+  
+  protected abstract buildPrompt(input: string, context?: AnalystContext): string;
   
-  protected getBasePrompt(): string {
+  protected getBasePrompt(context?: AnalystContext): string {
+    const profile = context?.profile ?? getDepthProfile(context?.depth ?? 'standard');
+    
     return `You are ${this.persona}. 
     
 CRITICAL REQUIREMENTS:
 - Provide specific, actionable insights related to your expertise
 - Include a confidence score (0-100%) for your analysis
-- Cite reasoning and supporting evidence
+- Cite reasoning and at most ${profile.maxEvidencePoints} supporting evidence points
 - Identify potential risks and opportunities
-- Keep analysis focused and concise (under 300 words)
+- Keep analysis focused and concise (under ${profile.analystWordLimit} words)
+- ${DEPTH_GUIDANCE[profile.depth]}
 - End with a clear recommendation or key takeaway
 
 Your specialty: ${this.specialty}`;
@@ -138,8 +301,8 @@ export class PoliticalAnalyst extends BaseAnalyst {
     );
   }
   
-  protected buildPrompt(input: string, _context?: any): string {
-    return `${this.getBasePrompt()}
+  protected buildPrompt(input: string, context?: AnalystContext): string {
+    return `${this.getBasePrompt(context)}
 
 POLITICAL ANALYSIS REQUEST:
 ${input}
@@ -168,8 +331,8 @@ export class EconomicAnalyst extends BaseAnalyst {
     );
   }
   
-  protected buildPrompt(input: string, _context?: any): string {
-    return `${this.getBasePrompt()}
+  protected buildPrompt(input: string, context?: AnalystContext): string {
+    return `${this.getBasePrompt(context)}
 
 ECONOMIC ANALYSIS REQUEST:
 ${input}
@@ -199,8 +362,8 @@ export class GeopoliticalAnalyst extends BaseAnalyst {
     );
   }
   
-  protected buildPrompt(input: string, _context?: any): string {
-    return `${this.getBasePrompt()}
+  protected buildPrompt(input: string, context?: AnalystContext): string {
+    return `${this.getBasePrompt(context)}
 
 GEOPOLITICAL ANALYSIS REQUEST:
 ${input}
@@ -230,8 +393,8 @@ export class FinancialAnalyst extends BaseAnalyst {
     );
   }
   
-  protected buildPrompt(input: string, _context?: any): string {
-    return `${this.getBasePrompt()}
+  protected buildPrompt(input: string, context?: AnalystContext): string {
+    return `${this.getBasePrompt(context)}
 
 FINANCIAL MARKETS ANALYSIS REQUEST:
 ${input}
@@ -262,8 +425,8 @@ export class CryptoAnalyst extends BaseAnalyst {
     );
   }
   
-  protected buildPrompt(input: string, _context?: any): string {
-    return `${this.getBasePrompt()}
+  protected buildPrompt(input: string, context?: AnalystContext): string {
+    return `${this.getBasePrompt(context)}
 
 CRYPTOCURRENCY ANALYSIS REQUEST:
 ${input}
@@ -294,8 +457,8 @@ export class TechAnalyst extends BaseAnalyst {
     );
   }
   
-  protected buildPrompt(input: string, _context?: any): string {
-    return `${this.getBasePrompt()}
+  protected buildPrompt(input: string, context?: AnalystContext): string {
+    return `${this.getBasePrompt(context)}
 
 TECHNOLOGY ANALYSIS REQUEST:
 ${input}
@@ -326,8 +489,8 @@ export class BehavioralAnalyst extends BaseAnalyst {
     );
   }
   
-  protected buildPrompt(input: string, _context?: any): string {
-    return `${this.getBasePrompt()}
+  protected buildPrompt(input: string, context?: AnalystContext): string {
+    return `${this.getBasePrompt(context)}
 
 BEHAVIORAL ANALYSIS REQUEST:
 ${input}
@@ -347,7 +510,40 @@ Include specific sentiment scores and behavioral pattern predictions.`;
 }
 
 /**
- * Analyst Manager - Coordinates all 7 analysts and builds consensus
+ * Configurable Analyst - Persona declared in the custom analysts file
+ */
+export class ConfigurableAnalyst extends BaseAnalyst {
+  constructor(private readonly definition: CustomAnalystDefinition) {
+    super(definition.name, definition.specialty, definition.persona);
+  }
+  
+  protected buildPrompt(input: string, context?: AnalystContext): string {
+    const focus = this.definition.focus.map(item => `- ${item}`).join('\n');
+    
+    if (!this.definition.prompt_template) {
+      return `${this.getBasePrompt(context)}
+
+${this.name.replace(/_analyst$/, '').replace(/_/g, ' ').toUpperCase()} ANALYSIS REQUEST:
+${input}
+
+Focus on:
+${focus}`;
+    }
+    
+    const placeholders: Record<string, string> = {
+      base_prompt: this.getBasePrompt(context),
+      input,
+      focus,
+      name: this.name,
+      specialty: this.specialty
+    };
+    
+    return this.definition.prompt_template.replace(/\{\{(\w+)\}\}/g, (match, key: string) => placeholders[key] ?? match);
+  }
+}
+
+/**
+ * Analyst Manager - Coordinates the built-in and custom analysts and builds consensus
  */
 export class AnalystManager {
   private readonly analysts: Map<string, Analyst> = new Map();
@@ -364,7 +560,8 @@ export class AnalystManager {
       new FinancialAnalyst(),
       new CryptoAnalyst(),
       new TechAnalyst(),
-      new BehavioralAnalyst()
+      new BehavioralAnalyst(),
+      ...customAnalystRegistry.getDefinitions().map(definition => new ConfigurableAnalyst(definition))
     ];
     
     analystInstances.forEach(analyst => {
@@ -380,14 +577,26 @@ export class AnalystManager {
   async getConsensusAnalysis(
     input: string, 
     depth: AnalysisDepth = 'standard',
-    selectedAnalysts?: string[]
+    selectedAnalysts?: string[],
+    options: ConsensusOptions = {}
   ): Promise<ConsensusAnalysis> {
     const startTime = Date.now();
+    const strategy = options.strategy ?? SERVER_CONSTANTS.DEFAULTS.CONSENSUS_STRATEGY;
+    const profile = getDepthProfile(depth);
+    const budget = new TokenBudget(profile);
+    // Analysts and debate rounds must finish within the profile's timeout; the consensus step only honors the caller's signal
+    const analysisSignal = withDeadline(profile.timeoutMs, options.signal);
+    // Without an explicit mode the depth profile decides whether the sages debate
+    const mode = options.mode ?? (profile.debateRounds > 0 ? SERVER_CONSTANTS.ANALYSIS_MODES.DEBATE : SERVER_CONSTANTS.ANALYSIS_MODES.INDEPENDENT);
+    const billedTo = options.caller?.apiKey;
     
-    // Determine which analysts to use
+    // Determine which analysts to use - explicit selection wins, otherwise route by relevance
+    const routing = selectedAnalysts
+      ? undefined
+      : analystRouter.route(input, depth, this.getAvailableAnalysts());
     const analystsToUse = selectedAnalysts 
       ? selectedAnalysts.filter(name => this.analysts.has(name))
-      : Array.from(this.analysts.keys());
+      : routing?.selected ?? [];
     
     if (analystsToUse.length === 0) {
       throw new Error('No valid analysts specified');
@@ -396,107 +605,415 @@ export class AnalystManager {
     secureLogger.info(`Starting consensus analysis with ${analystsToUse.length} analysts`, {
       analysts: analystsToUse,
       depth,
+      strategy,
+      mode,
       inputLength: input.length
     });
+    this.emit(options.onEvent, { type: 'analysis_started', depth, analysts: analystsToUse });
     
     // Get analysis from each analyst
     const analystOpinions: AnalystOpinion[] = [];
-    const analysisPromises = analystsToUse.map(async (analystName) => {
-      const analyst = this.analysts.get(analystName);
-      if (!analyst) {
-        throw new Error(`Analyst ${analystName} not found`);
-      }
-      
-      try {
-        const result = await analyst.analyze(input, { depth });
-        
-        // Extract key components from analysis
-        const opinion = this.extractOpinion(result.content);
-        const confidence = result.confidence;
-        const reasoning = this.extractReasoning(result.content);
-        const evidence = this.extractEvidence(result.content);
-        
-        return {
-          analyst: analyst.name,
-          opinion,
-          confidence,
-          reasoning,
-          supporting_evidence: evidence
-        };
-        
-      } catch (error) {
-        secureLogger.error(`Analyst ${analystName} failed`, { error });
-        
-        // Return a failure opinion
-        return {
-          analyst: analyst.name,
-          opinion: `Analysis unavailable due to error: ${error instanceof Error ? error.message : String(error)}`,
-          confidence: 0,
-          reasoning: 'Technical failure during analysis',
-          supporting_evidence: []
-        };
-      }
-    });
-    
-    // Wait for all analyses to complete
-    const opinions = await Promise.all(analysisPromises);
+    const opinions = await Promise.all(
+      analystsToUse.map(analystName => this.runAnalyst(analystName, input, { depth, profile, signal: analysisSignal, ...(billedTo && { billedTo }) }, budget, options.onEvent))
+    );
     analystOpinions.push(...opinions.filter(opinion => opinion.confidence > 0));
     
+    // Analysts still running at the deadline are dropped - the consensus is built from those that finished
+    const unfinishedAnalysts = opinions.filter(opinion => opinion.extraction_method === 'cancelled').map(opinion => opinion.analyst);
+    let partial: PartialResultInfo | undefined = unfinishedAnalysts.length > 0
+      ? { reason: getCancellationReason(analysisSignal), stage: 'analysis', unfinishedAnalysts }
+      : undefined;
+    
+    // Debate mode: let analysts rebut each other before the consensus is built
+    let debate: DebateResult | undefined;
+    if (mode === SERVER_CONSTANTS.ANALYSIS_MODES.DEBATE && analystOpinions.length > 1) {
+      if (analysisSignal.aborted) {
+        partial ??= { reason: getCancellationReason(analysisSignal), stage: 'debate', unfinishedAnalysts };
+      } else {
+        const rounds = Math.min(
+          options.debateRounds ?? (profile.debateRounds || SERVER_CONSTANTS.DEBATE.DEFAULT_ROUNDS),
+          SERVER_CONSTANTS.DEBATE.MAX_ROUNDS
+        );
+        const debateOutcome = await this.runDebate(analystOpinions, input, profile, rounds, budget, analysisSignal, options.onEvent, billedTo);
+        analystOpinions.splice(0, analystOpinions.length, ...debateOutcome.finalOpinions);
+        debate = debateOutcome.result;
+        if (debateOutcome.interrupted) {
+          partial ??= { reason: getCancellationReason(analysisSignal), stage: 'debate', unfinishedAnalysts };
+        }
+      }
+    }
+    
     // Build consensus
-    const consensus = await this.buildConsensus(analystOpinions, input);
+    const consensus = await this.buildConsensus(analystOpinions, input, strategy, profile, budget, {
+      ...(debate && { debate }),
+      ...(options.signal && { signal: options.signal }),
+      ...(options.onEvent && { onEvent: options.onEvent }),
+      ...(billedTo && { billedTo })
+    });
+    this.emit(options.onEvent, { type: 'consensus_completed', summary: consensus.summary, riskLevel: consensus.riskLevel });
+    if (routing) {
+      consensus.routing = routing;
+    }
+    if (!partial && consensus.extractionMethod === 'failed' && options.signal?.aborted) {
+      partial = { reason: getCancellationReason(options.signal), stage: 'consensus', unfinishedAnalysts };
+    }
+    if (partial) {
+      consensus.partial = partial;
+      secureLogger.warn('Consensus built from partial results', { ...partial, depth, timeoutMs: profile.timeoutMs });
+    }
     const duration = Date.now() - startTime;
     
     secureLogger.info(`Consensus analysis completed`, {
       duration: `${duration}ms`,
       analystCount: analystOpinions.length,
-      consensusConfidence: consensus.confidence
+      consensusConfidence: consensus.confidence,
+      tokensUsed: budget.used,
+      costUsd: budget.usage.costUsd,
+      ...(partial && { partial: partial.stage }),
+      ...(debate && { debateRounds: debate.roundsCompleted, converged: debate.converged })
     });
+    options.onTokenUsage?.(budget.usage);
     
     return consensus;
   }
   
-  private async buildConsensus(opinions: AnalystOpinion[], originalInput: string): Promise<ConsensusAnalysis> {
-    // Calculate overall confidence (weighted average)
-    const totalWeight = opinions.reduce((sum, op) => sum + op.confidence, 0);
-    const averageConfidence = totalWeight / opinions.length;
+  /**
+   * Run a single analyst, streaming its output to the event listener as it writes
+   */
+  private async runAnalyst(
+    analystName: string,
+    input: string,
+    context: AnalystContext,
+    budget: TokenBudget,
+    onEvent?: AnalysisEventListener
+  ): Promise<AnalystOpinion> {
+    if (!onEvent) {
+      return this.executeAnalyst(analystName, input, context, budget);
+    }
+    
+    const round = context.debate?.round ?? 0;
+    this.emit(onEvent, { type: 'analyst_started', analyst: analystName, round });
+    
+    const opinion = await this.executeAnalyst(analystName, input, {
+      ...context,
+      onToken: text => this.emit(onEvent, { type: 'analyst_token', analyst: analystName, round, text }),
+      onRestart: reason => this.emit(onEvent, { type: 'analyst_restarted', analyst: analystName, round, reason })
+    }, budget);
+    
+    this.emit(onEvent, { type: 'analyst_completed', analyst: analystName, round, opinion });
+    return opinion;
+  }
+  
+  /**
+   * Call a single analyst, converting failures and cancellations into a zero-confidence opinion
+   */
+  private async executeAnalyst(analystName: string, input: string, context: AnalystContext, budget: TokenBudget): Promise<AnalystOpinion> {
+    const analyst = this.analysts.get(analystName);
+    if (!analyst) {
+      throw new Error(`Analyst ${analystName} not found`);
+    }
+    
+    try {
+      // Racing the signal also covers steps that cannot be interrupted (validation, availability probes)
+      const result = await raceWithSignal(analyst.analyze(input, context), context.signal);
+      budget.record(result.metadata?.usage ?? emptyTokenUsage(), analystName);
+      const { maxEvidencePoints } = context.profile ?? getDepthProfile(context.depth);
+      return this.buildOpinion(analyst.name, result, maxEvidencePoints);
+      
+    } catch (error) {
+      if (context.signal?.aborted) {
+        const reason = getCancellationReason(context.signal);
+        secureLogger.warn(`Analyst ${analystName} did not finish`, { reason });
+        
+        return {
+          analyst: analyst.name,
+          opinion: reason === 'timeout' ? 'Analysis did not finish before the deadline' : 'Analysis was cancelled',
+          confidence: 0,
+          reasoning: `Analysis ${reason === 'timeout' ? 'timed out' : 'cancelled'} before completion`,
+          supporting_evidence: [],
+          extraction_method: 'cancelled'
+        } satisfies AnalystOpinion;
+      }
+      
+      secureLogger.error(`Analyst ${analystName} failed`, { error });
+      
+      // Return a failure opinion
+      return {
+        analyst: analyst.name,
+        opinion: `Analysis unavailable due to error: ${error instanceof Error ? error.message : String(error)}`,
+        confidence: 0,
+        reasoning: 'Technical failure during analysis',
+        supporting_evidence: [],
+        extraction_method: 'failed'
+      } satisfies AnalystOpinion;
+    }
+  }
+  
+  /**
+   * Run rebuttal rounds in which every analyst sees the others' anonymized positions
+   * Stops early once a round produces no position changes, or when the budget or deadline runs out
+   */
+  private async runDebate(
+    openingOpinions: AnalystOpinion[],
+    input: string,
+    profile: DepthProfile,
+    totalRounds: number,
+    budget: TokenBudget,
+    signal: AbortSignal,
+    onEvent?: AnalysisEventListener,
+    billedTo?: ApiKeyIdentity
+  ): Promise<{ finalOpinions: AnalystOpinion[]; result: DebateResult; interrupted: boolean }> {
+    const transcript: DebateTurn[] = openingOpinions.map(op => this.toDebateTurn(op, 0));
+    const positionChanges: PositionChange[] = [];
+    const dispersionByRound = [disagreementEngine.analyze(openingOpinions, input).dispersion.score];
+    
+    // Stable anonymous labels so analysts can follow the same peer across rounds
+    const labels = new Map(openingOpinions.map((op, idx) => [op.analyst, `Analyst ${String.fromCharCode(65 + idx)}`]));
+    
+    let current = openingOpinions;
+    let roundsCompleted = 0;
+    let interrupted = false;
+    
+    for (let round = 1; round <= totalRounds; round++) {
+      if (budget.isExhausted()) {
+        secureLogger.warn('Debate stopped: token budget exhausted', { round, tokensUsed: budget.used });
+        break;
+      }
+      if (signal.aborted) {
+        secureLogger.warn('Debate stopped: deadline reached', { round, reason: getCancellationReason(signal) });
+        interrupted = true;
+        break;
+      }
+      
+      const previousRound = current;
+      
+      current = await Promise.all(previousRound.map(async position => {
+        // Blocked analysts never reached the model - nothing to debate
+        if (position.extraction_method === 'blocked') return position;
+        
+        const revised = await this.runAnalyst(position.analyst, input, {
+          depth: profile.depth,
+          profile,
+          debate: {
+            round,
+            totalRounds,
+            previousPosition: position,
+            peerSummary: this.summarizePeers(previousRound, position.analyst, labels)
+          },
+          signal,
+          ...(billedTo && { billedTo })
+        }, budget, onEvent);
+        
+        // An analyst that fails or is cut off mid-debate keeps its last position
+        return revised.confidence > 0 ? revised : position;
+      }));
+      
+      roundsCompleted = round;
+      // Revisions cut off mid-round kept their previous position
+      interrupted = signal.aborted;
+      transcript.push(...current.map(op => this.toDebateTurn(op, round)));
+      dispersionByRound.push(disagreementEngine.analyze(current, input).dispersion.score);
+      
+      const changes = current.flatMap((op, idx) => {
+        const before = previousRound[idx];
+        if (!before || (before.stance === op.stance && before.risk_level === op.risk_level)) return [];
+        return [{
+          analyst: op.analyst,
+          round,
+          from: { ...(before.stance && { stance: before.stance }), ...(before.risk_level && { risk_level: before.risk_level }) },
+          to: { ...(op.stance && { stance: op.stance }), ...(op.risk_level && { risk_level: op.risk_level }) }
+        }];
+      });
+      positionChanges.push(...changes);
+      
+      secureLogger.info(`Debate round ${round} completed`, {
+        positionChanges: changes.length,
+        dispersion: dispersionByRound[round]
+      });
+      
+      if (changes.length === 0) break;
+    }
+    
+    const finalDispersion = dispersionByRound[dispersionByRound.length - 1] ?? 0;
+    
+    return {
+      finalOpinions: current,
+      result: {
+        roundsCompleted,
+        transcript,
+        positionChanges,
+        dispersionByRound,
+        converged: finalDispersion <= SERVER_CONSTANTS.DEBATE.CONVERGENCE_THRESHOLD
+      },
+      interrupted
+    };
+  }
+  
+  /**
+   * Deliver an event without letting a failing listener (e.g. a closed socket) break the analysis
+   */
+  private emit(listener: AnalysisEventListener | undefined, event: AnalysisStreamEvent): void {
+    if (!listener) return;
+    try {
+      listener(event);
+    } catch (error) {
+      secureLogger.debug('Analysis event listener failed', { type: event.type, error });
+    }
+  }
+  
+  private summarizePeers(opinions: AnalystOpinion[], self: string, labels: Map<string, string>): string {
+    return opinions
+      .filter(op => op.analyst !== self)
+      .map(op => `- ${labels.get(op.analyst)} (${op.stance?.toUpperCase() ?? 'UNSTATED'}, risk ${op.risk_level ?? 'UNSTATED'}, horizon ${op.timeframe ?? 'unstated'}): ${op.opinion} Reasoning: ${op.reasoning}`)
+      .join('\n');
+  }
+  
+  private toDebateTurn(opinion: AnalystOpinion, round: number): DebateTurn {
+    return {
+      round,
+      analyst: opinion.analyst,
+      ...(opinion.stance && { stance: opinion.stance }),
+      ...(opinion.risk_level && { risk_level: opinion.risk_level }),
+      confidence: opinion.confidence,
+      opinion: opinion.opinion,
+      reasoning: opinion.reasoning
+    };
+  }
+  
+  /**
+   * Convert an analyst result into an opinion, preferring the schema-validated payload
+   * @param maxEvidencePoints - Evidence points kept, from the depth profile
+   */
+  private buildOpinion(analystName: string, result: AnalysisResult, maxEvidencePoints: number): AnalystOpinion {
+    const structured = result.metadata?.structuredResponse as AnalystResponse | undefined;
+    
+    if (structured) {
+      return {
+        analyst: analystName,
+        opinion: structured.opinion,
+        confidence: result.confidence,
+        reasoning: structured.reasoning,
+        supporting_evidence: structured.supporting_evidence.slice(0, maxEvidencePoints),
+        stance: structured.stance,
+        risk_level: structured.risk_level,
+        timeframe: structured.timeframe,
+        extraction_method: 'structured'
+      };
+    }
+    
+    // Last resort: scrape the free text
+    const stance = this.extractStance(result.content);
+    const riskLevel = this.matchRiskLevel(result.content);
+    
+    return {
+      analyst: analystName,
+      opinion: this.extractOpinion(result.content),
+      confidence: result.confidence,
+      reasoning: this.extractReasoning(result.content),
+      supporting_evidence: this.extractEvidence(result.content, maxEvidencePoints),
+      ...(stance && { stance }),
+      ...(riskLevel && { risk_level: riskLevel }),
+      extraction_method: result.metadata?.preventiveValidation?.blocked ? 'blocked' : 'regex_fallback'
+    };
+  }
+  
+  private async buildConsensus(
+    opinions: AnalystOpinion[],
+    originalInput: string,
+    strategy: ConsensusStrategy,
+    profile: DepthProfile,
+    budget: TokenBudget,
+    { debate, signal, onEvent, billedTo }: { debate?: DebateResult; signal?: AbortSignal; onEvent?: AnalysisEventListener; billedTo?: ApiKeyIdentity } = {}
+  ): Promise<ConsensusAnalysis> {
+    // Weight each analyst according to the selected aggregation strategy
+    const { confidence: averageConfidence, ...aggregation } = consensusAggregator.aggregate(strategy, opinions, originalInput);
     
-    // Identify areas of agreement and disagreement
-    // const agreements: string[] = []; // Reserved for future consensus building enhancements
-    const disagreements: string[] = [];
+    // Identify disagreements on direction, risk and horizon
+    const { disagreements, dispersion } = disagreementEngine.analyze(opinions, originalInput);
+    
+    const debateNote = debate
+      ? `\nThese are the analysts' final positions after ${debate.roundsCompleted} debate round(s); ${debate.positionChanges.length} position change(s) occurred and the panel ${debate.converged ? 'converged' : 'did not converge'}.\n`
+      : '';
     
-    // Simple consensus building (can be enhanced with more sophisticated algorithms)
     const consensusPrompt = `Based on the following expert analyses, provide a unified consensus summary:
-
+${debateNote}
 ${opinions.map(op => `
-**${op.analyst.toUpperCase()}** (Confidence: ${(op.confidence * 100).toFixed(0)}%)
+**${op.analyst.toUpperCase()}** (Confidence: ${(op.confidence * 100).toFixed(0)}%, Weight: ${((aggregation.weights[op.analyst] ?? 0) * 100).toFixed(0)}%)
 ${op.opinion}
 Reasoning: ${op.reasoning}
 `).join('\n')}
 
 Original Input: ${originalInput}
 
+Detected Disagreements: ${disagreements.length > 0 ? disagreements.map(d => `\n- ${d}`).join('') : 'None'}
+Opinion Dispersion: ${dispersion.score} (0 = unanimous, 1 = fully split)
+
 Provide a consensus that:
-1. Synthesizes common themes
+1. Synthesizes common themes, giving each analyst influence in proportion to their weight
 2. Highlights key disagreements
 3. Provides unified recommendations
 4. Assesses overall risk level (LOW/MEDIUM/HIGH/CRITICAL)
 5. Suggests appropriate timeframe for monitoring
+6. Keeps the consensus narrative under ${profile.consensusWordLimit} words
 
-Format as clear, actionable summary under 400 words.`;
+${structuredAnalysisService.buildInstructions(CONSENSUS_RESPONSE_SHAPE)}`;
+    
+    this.emit(onEvent, { type: 'consensus_started', analysts: opinions.map(op => op.analyst) });
     
     try {
-      const consensusResult = await aiProviderManager.analyze(consensusPrompt);
+      const { data: structured, raw: consensusResult, usage } = await raceWithSignal(
+        structuredAnalysisService.request(consensusPrompt, consensusResponseSchema, {
+          modelTier: profile.modelTier,
+          maxTokens: profile.maxTokensPerCall,
+          ...(signal && { signal }),
+          ...(onEvent && {
+            onToken: (text: string) => this.emit(onEvent, { type: 'consensus_token', text }),
+            onRestart: (reason: StreamRestartReason) => this.emit(onEvent, { type: 'consensus_restarted', reason })
+          }),
+          ...(billedTo && { billedTo })
+        }),
+        signal
+      );
+      budget.record(usage);
+      
+      if (structured) {
+        return {
+          summary: structured.summary,
+          consensus: structured.consensus,
+          confidence: averageConfidence,
+          disagreements,
+          dispersion,
+          aggregation,
+          depthProfile: budget.toUsage(),
+          usage: budget.toAnalysisUsage(),
+          ...(debate && { debate }),
+          analystOpinions: opinions,
+          recommendations: structured.recommendations,
+          riskLevel: structured.risk_level,
+          timeframe: structured.timeframe,
+          lastUpdated: new Date(),
+          extractionMethod: 'structured'
+        };
+      }
+      
+      secureLogger.warn('Consensus response failed schema validation, falling back to text extraction');
       
       return {
         summary: this.extractSummary(consensusResult.content),
         consensus: consensusResult.content,
         confidence: averageConfidence,
         disagreements,
+        dispersion,
+        aggregation,
+        depthProfile: budget.toUsage(),
+        usage: budget.toAnalysisUsage(),
+        ...(debate && { debate }),
         analystOpinions: opinions,
         recommendations: this.extractRecommendations(consensusResult.content),
         riskLevel: this.extractRiskLevel(consensusResult.content),
         timeframe: this.extractTimeframe(consensusResult.content),
-        lastUpdated: new Date()
+        lastUpdated: new Date(),
+        extractionMethod: 'regex_fallback'
       };
       
     } catch (error) {
@@ -507,17 +1024,23 @@ Format as clear, actionable summary under 400 words.`;
         summary: `Analysis completed with ${opinions.length} expert perspectives. Average confidence: ${(averageConfidence * 100).toFixed(0)}%`,
         consensus: 'Consensus building failed due to technical issues. Individual analyst opinions available.',
         confidence: averageConfidence,
-        disagreements: ['Consensus building system unavailable'],
+        disagreements: ['Consensus building system unavailable', ...disagreements],
+        dispersion,
+        aggregation,
+        depthProfile: budget.toUsage(),
+        usage: budget.toAnalysisUsage(),
+        ...(debate && { debate }),
         analystOpinions: opinions,
         recommendations: ['Review individual analyst opinions', 'Retry analysis when system is available'],
         riskLevel: 'MEDIUM',
         timeframe: '24-48 hours',
-        lastUpdated: new Date()
+        lastUpdated: new Date(),
+        extractionMethod: 'failed'
       };
     }
   }
   
-  // Helper methods for extracting information from analysis content
+  // Regex fallbacks - only used when the model never produced a schema-valid response
   private extractOpinion(content: string): string {
     // Extract main opinion/conclusion (first paragraph or key finding)
     const lines = content.split('\n').filter(line => line.trim().length > 0);
@@ -530,13 +1053,13 @@ Format as clear, actionable summary under 400 words.`;
     return reasoningMatch?.[1]?.trim() || 'See full analysis for reasoning';
   }
   
-  private extractEvidence(content: string): string[] {
+  private extractEvidence(content: string, maxPoints: number): string[] {
     const evidence: string[] = [];
     const bulletPoints = content.match(/[-•*]\s*([^\n]+)/g);
     if (bulletPoints) {
       evidence.push(...bulletPoints.map(bp => bp.replace(/[-•*]\s*/, '').trim()));
     }
-    return evidence.slice(0, 3); // Top 3 pieces of evidence
+    return evidence.slice(0, maxPoints);
   }
   
   private extractSummary(content: string): string {
@@ -553,13 +1076,24 @@ Format as clear, actionable summary under 400 words.`;
     return recommendations.length > 0 ? recommendations : ['Monitor situation closely', 'Review in 24-48 hours'];
   }
   
-  private extractRiskLevel(content: string): 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' {
+  private extractRiskLevel(content: string): RiskLevel {
+    return this.matchRiskLevel(content) ?? 'MEDIUM'; // Default
+  }
+  
+  private matchRiskLevel(content: string): RiskLevel | undefined {
     const riskPattern = /risk[:\s]*(?:level[:\s]*)?(low|medium|high|critical)/i;
     const riskMatch = riskPattern.exec(content);
-    if (riskMatch?.[1]) {
-      return riskMatch[1].toUpperCase() as 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
-    }
-    return 'MEDIUM'; // Default
+    return riskMatch?.[1] ? riskMatch[1].toUpperCase() as RiskLevel : undefined;
+  }
+  
+  private extractStance(content: string): MarketStance | undefined {
+    const bullish = content.match(/\b(?:bullish|upside|rally|outperform)\b/gi)?.length ?? 0;
+    const bearish = content.match(/\b(?:bearish|downside|sell-?off|underperform)\b/gi)?.length ?? 0;
+    
+    if (bullish === 0 && bearish === 0) return undefined;
+    if (bullish > bearish * 2) return 'bullish';
+    if (bearish > bullish * 2) return 'bearish';
+    return 'neutral';
   }
   
   private extractTimeframe(content: string): string {
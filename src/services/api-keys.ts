@@ -0,0 +1,258 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { IncomingHttpHeaders } from 'http';
+
+import { config } from '../config.js';
+import { SERVER_CONSTANTS, ERROR_MESSAGES } from '../constants/server-constants.js';
+import { ApiKeyError, ApiKeyIdentity, SpendCaps, ToolCaller } from '../types/index.js';
+import { secureLogger } from '../utils/logger.js';
+import { mongoService, IApiKey } from './mongodb.js';
+import { databaseManager } from './database-manager.js';
+
+/**
+ * API Key Authentication
+ * Keys are stored as SHA-256 hashes in MongoDB. Each key carries its tenant's request rate,
+ * daily AI-token budget and daily/monthly USD spend caps; the counters are kept per tenant, so a
+ * tenant's keys share one allowance
+ */
+
+export interface CreateApiKeyInput {
+  name: string;
+  tenant: string;
+  rateLimit?: {
+    windowMs: number;
+    maxRequests: number;
+  };
+  dailyTokenBudget?: number;
+  spendCaps?: SpendCaps;
+}
+
+export interface ToolUsage {
+  toolName: string;
+  query?: string;
+  processingTime: number;
+  success: boolean;
+  tokensUsed: number;
+  costUsd: number;
+}
+
+function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+/**
+ * Day the tenant budgets count against (budgets reset at 00:00 UTC)
+ */
+function utcDate(now = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+function secondsUntilUtcMidnight(now = new Date()): number {
+  const midnight = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate() + 1);
+  return Math.ceil((midnight - now.getTime()) / 1000);
+}
+
+function secondsUntilUtcMonthStart(now = new Date()): number {
+  const monthStart = Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1);
+  return Math.ceil((monthStart - now.getTime()) / 1000);
+}
+
+function toIdentity(apiKey: IApiKey): ApiKeyIdentity {
+  return {
+    id: apiKey.id,
+    name: apiKey.name,
+    tenant: apiKey.tenant,
+    rateLimit: {
+      windowMs: apiKey.rateLimit.windowMs,
+      maxRequests: apiKey.rateLimit.maxRequests
+    },
+    dailyTokenBudget: apiKey.dailyTokenBudget,
+    spendCaps: {
+      ...(apiKey.spendCaps?.dailyUsd && { dailyUsd: apiKey.spendCaps.dailyUsd }),
+      ...(apiKey.spendCaps?.monthlyUsd && { monthlyUsd: apiKey.spendCaps.monthlyUsd })
+    }
+  };
+}
+
+export class ApiKeyService {
+  private readonly cache = new Map<string, { identity: ApiKeyIdentity; expiresAt: number }>();
+
+  /**
+   * Whether HTTP and WebSocket requests must carry an API key
+   */
+  isEnabled(): boolean {
+    return config.auth.enabled;
+  }
+
+  /**
+   * Read the key from `Authorization: Bearer`, `X-API-Key` or, for WebSocket upgrades, the `api_key` query parameter
+   * @param headers - Request headers
+   * @param url - Request URL, only passed where the query parameter is accepted
+   */
+  extractKey(headers: IncomingHttpHeaders, url?: string): string | null {
+    const authorization = headers.authorization;
+    if (authorization?.startsWith('Bearer ')) {
+      return authorization.slice('Bearer '.length).trim() || null;
+    }
+
+    const header = headers[SERVER_CONSTANTS.API_KEYS.HEADER];
+    if (typeof header === 'string' && header.trim()) {
+      return header.trim();
+    }
+
+    if (url) {
+      return new URL(url, 'http://localhost').searchParams.get(SERVER_CONSTANTS.API_KEYS.QUERY_PARAM) || null;
+    }
+
+    return null;
+  }
+
+  /**
+   * Check the admin token on /admin requests; it is compared by hash, in constant time
+   * @throws ApiKeyError - 404 when no ADMIN_API_KEY is configured, 401 when missing, 403 when wrong
+   */
+  authenticateAdmin(key: string | null): void {
+    const adminKey = config.auth.adminApiKey;
+    if (!adminKey) {
+      throw new ApiKeyError(ERROR_MESSAGES.ADMIN_API_DISABLED, SERVER_CONSTANTS.HTTP_STATUS.NOT_FOUND);
+    }
+    if (!key) {
+      throw new ApiKeyError(ERROR_MESSAGES.API_KEY_MISSING, SERVER_CONSTANTS.HTTP_STATUS.UNAUTHORIZED);
+    }
+    if (!timingSafeEqual(Buffer.from(hashApiKey(key), 'hex'), Buffer.from(hashApiKey(adminKey), 'hex'))) {
+      throw new ApiKeyError(ERROR_MESSAGES.ADMIN_KEY_INVALID, SERVER_CONSTANTS.HTTP_STATUS.FORBIDDEN);
+    }
+  }
+
+  /**
+   * Resolve a key to its identity; lookups are cached for a minute
+   * @throws ApiKeyError - 401 for missing, unknown or revoked keys, 503 when MongoDB cannot be reached
+   */
+  async authenticate(key: string | null): Promise<ApiKeyIdentity> {
+    if (!key) {
+      throw new ApiKeyError(ERROR_MESSAGES.API_KEY_MISSING, SERVER_CONSTANTS.HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    const keyHash = hashApiKey(key);
+    const cached = this.cache.get(keyHash);
+    if (cached && cached.expiresAt > Date.now()) {
+      return cached.identity;
+    }
+
+    let apiKey: IApiKey | null;
+    try {
+      apiKey = await mongoService.findActiveApiKey(keyHash);
+    } catch (error) {
+      secureLogger.error('API key lookup failed', { error: error instanceof Error ? error.message : String(error) });
+      throw new ApiKeyError(ERROR_MESSAGES.AUTH_UNAVAILABLE, SERVER_CONSTANTS.HTTP_STATUS.SERVICE_UNAVAILABLE);
+    }
+
+    if (!apiKey) {
+      this.cache.delete(keyHash);
+      throw new ApiKeyError(ERROR_MESSAGES.API_KEY_INVALID, SERVER_CONSTANTS.HTTP_STATUS.UNAUTHORIZED);
+    }
+
+    const identity = toIdentity(apiKey);
+    this.cache.set(keyHash, { identity, expiresAt: Date.now() + SERVER_CONSTANTS.API_KEYS.CACHE_TTL_MS });
+    return identity;
+  }
+
+  /**
+   * Count one request against the tenant's rate limit
+   * @throws ApiKeyError - 429 with the seconds until the window resets
+   */
+  async consumeRequest(identity: ApiKeyIdentity): Promise<void> {
+    const { windowMs, maxRequests } = identity.rateLimit;
+    const windowSeconds = Math.ceil(windowMs / 1000);
+    const result = await databaseManager.checkRateLimit(`tenant:${identity.tenant}`, maxRequests, windowSeconds);
+
+    if (!result.allowed) {
+      secureLogger.warn('API key rate limit exceeded', { tenant: identity.tenant, apiKeyId: identity.id, count: result.count });
+      throw new ApiKeyError(
+        ERROR_MESSAGES.API_KEY_RATE_LIMITED,
+        SERVER_CONSTANTS.HTTP_STATUS.RATE_LIMITED,
+        Math.max(1, result.resetTime - Math.floor(Date.now() / 1000))
+      );
+    }
+  }
+
+  /**
+   * Refuse new tool calls once the tenant has spent its daily token budget or reached a spend cap
+   * A call already running when the budget runs out is allowed to finish
+   * @throws ApiKeyError - 429 until the budget or cap resets, 503 when usage cannot be read
+   */
+  async assertWithinBudget(identity: ApiKeyIdentity): Promise<void> {
+    let usage: Awaited<ReturnType<typeof mongoService.getTenantUsage>>;
+    try {
+      usage = await mongoService.getTenantUsage(identity.tenant, utcDate());
+    } catch (error) {
+      secureLogger.error('Tenant usage lookup failed', { tenant: identity.tenant, error: error instanceof Error ? error.message : String(error) });
+      throw new ApiKeyError(ERROR_MESSAGES.AUTH_UNAVAILABLE, SERVER_CONSTANTS.HTTP_STATUS.SERVICE_UNAVAILABLE);
+    }
+
+    if (usage.tokensUsed >= identity.dailyTokenBudget) {
+      secureLogger.warn('Tenant token budget exhausted', { tenant: identity.tenant, tokensUsed: usage.tokensUsed, budget: identity.dailyTokenBudget });
+      throw new ApiKeyError(ERROR_MESSAGES.TOKEN_BUDGET_EXHAUSTED, SERVER_CONSTANTS.HTTP_STATUS.RATE_LIMITED, secondsUntilUtcMidnight());
+    }
+
+    const { dailyUsd, monthlyUsd } = identity.spendCaps;
+    if (monthlyUsd && usage.monthlyUsd >= monthlyUsd) {
+      secureLogger.warn('Tenant monthly spend cap reached', { tenant: identity.tenant, spentUsd: usage.monthlyUsd, capUsd: monthlyUsd });
+      throw new ApiKeyError(ERROR_MESSAGES.SPEND_CAP_REACHED('monthly'), SERVER_CONSTANTS.HTTP_STATUS.RATE_LIMITED, secondsUntilUtcMonthStart());
+    }
+    if (dailyUsd && usage.dailyUsd >= dailyUsd) {
+      secureLogger.warn('Tenant daily spend cap reached', { tenant: identity.tenant, spentUsd: usage.dailyUsd, capUsd: dailyUsd });
+      throw new ApiKeyError(ERROR_MESSAGES.SPEND_CAP_REACHED('daily'), SERVER_CONSTANTS.HTTP_STATUS.RATE_LIMITED, secondsUntilUtcMidnight());
+    }
+  }
+
+  /**
+   * Add a tool call's tokens and cost to the tenant's daily usage and attribute them to the key in UserSession
+   */
+  async recordToolUsage(caller: ToolCaller, usage: ToolUsage): Promise<void> {
+    const { apiKey } = caller;
+    const date = utcDate();
+
+    await Promise.all([
+      mongoService.recordTenantUsage(apiKey.tenant, date, usage.tokensUsed, usage.costUsd),
+      // One session document per key and day keeps the request log of busy keys bounded
+      databaseManager.trackUserSession(
+        `apikey:${apiKey.id}:${date}`,
+        caller.ipAddress,
+        caller.userAgent,
+        usage.toolName,
+        usage.query,
+        usage.processingTime,
+        usage.success,
+        { apiKeyId: apiKey.id, tenant: apiKey.tenant, tokensUsed: usage.tokensUsed, costUsd: usage.costUsd }
+      )
+    ]);
+  }
+
+  /**
+   * Issue a new key; the plaintext is returned here once and never stored
+   */
+  async createApiKey(input: CreateApiKeyInput): Promise<{ key: string; identity: ApiKeyIdentity }> {
+    const key = SERVER_CONSTANTS.API_KEYS.PREFIX + randomBytes(SERVER_CONSTANTS.API_KEYS.RANDOM_BYTES).toString('base64url');
+
+    const apiKey = await mongoService.createApiKey({
+      keyHash: hashApiKey(key),
+      keyPrefix: key.slice(0, SERVER_CONSTANTS.API_KEYS.DISPLAY_PREFIX_LENGTH),
+      name: input.name,
+      tenant: input.tenant,
+      rateLimit: input.rateLimit ?? {
+        windowMs: config.auth.defaultRateLimitWindowMs,
+        maxRequests: config.auth.defaultRateLimitMaxRequests
+      },
+      dailyTokenBudget: input.dailyTokenBudget ?? config.auth.defaultDailyTokenBudget,
+      spendCaps: input.spendCaps ?? {
+        ...(config.auth.defaultDailySpendCapUsd && { dailyUsd: config.auth.defaultDailySpendCapUsd }),
+        ...(config.auth.defaultMonthlySpendCapUsd && { monthlyUsd: config.auth.defaultMonthlySpendCapUsd })
+      }
+    });
+
+    return { key, identity: toIdentity(apiKey) };
+  }
+}
+
+// Export singleton instance
+export const apiKeyService = new ApiKeyService();
@@ -0,0 +1,36 @@
+import { after, before, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import http from 'node:http';
+import { AddressInfo } from 'node:net';
+
+process.env.OPENAI_API_KEY ??= 'test';
+const { articleFetcherService } = await import('./article-fetcher.js');
+
+describe('ArticleFetcherService', () => {
+  let server: http.Server;
+  let requests: string[];
+  let base: string;
+
+  before(async () => {
+    requests = [];
+    server = http.createServer((req, res) => {
+      requests.push(req.url ?? '');
+      res.writeHead(200, { 'content-type': 'text/html' });
+      res.end(`<article>${'<p>Internal page text, which must never be fetched for a feed item.</p>'.repeat(20)}</article>`);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => {
+    server.close();
+  });
+
+  it('does not request pages on internal addresses', async () => {
+    const signal = AbortSignal.timeout(5000);
+    assert.equal(await articleFetcherService.fetchArticleText(`${base}/article`, signal), null);
+    assert.equal(await articleFetcherService.fetchArticleText(`http://localhost:${new URL(base).port}/article`, signal), null);
+    assert.equal(await articleFetcherService.fetchArticleText('http://169.254.169.254/latest/meta-data/', signal), null);
+    assert.deepEqual(requests, []);
+  });
+});
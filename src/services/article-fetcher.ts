@@ -0,0 +1,228 @@
+import axios from 'axios';
+import { config } from '../config.js';
+import { secureLogger } from '../utils/logger.js';
+import { SERVER_CONSTANTS } from '../constants/server-constants.js';
+import { NewsItem } from '../types/index.js';
+import { extractArticleText } from '../utils/article-extractor.js';
+import { withDeadline } from '../utils/cancellation.js';
+import { InternalAddressError, resolvePublicHost } from '../utils/network-guard.js';
+import { isAllowed, parseRobots, RobotsRules } from '../utils/robots-txt.js';
+
+/**
+ * Article Fetcher
+ * Downloads the pages news items link to and extracts their main text (see utils/article-extractor) so
+ * impact analysis reads the article rather than the feed's summary
+ *
+ * Polite by construction: a site's robots.txt is read before any page of it (and before every redirect
+ * target) and obeyed, requests to one domain are spaced by NEWS_FULL_TEXT_DOMAIN_INTERVAL_MS or the site's
+ * Crawl-delay, whichever is longer, and results are cached so a page is downloaded once per few hours
+ *
+ * The urls come from feeds and redirects, so hosts are resolved and refused when they point at an internal
+ * address (loopback, private networks, cloud metadata) - before the first request and every redirect, and
+ * again when connecting
+ */
+
+const ALLOW_ALL: RobotsRules = { allow: [], disallow: [], crawlDelayMs: 0 };
+const DISALLOW_ALL: RobotsRules = { allow: [], disallow: ['/'], crawlDelayMs: 0 };
+
+const http = axios.create({
+  timeout: SERVER_CONSTANTS.ARTICLE_FETCH.TIMEOUT_MS,
+  maxRedirects: 0,
+  responseType: 'text',
+  validateStatus: () => true,
+  // Connections go to addresses that passed the check, so a host re-resolving to an internal address
+  // between the check and the connect is refused as well
+  lookup: async (hostname: string) => [
+    (await resolvePublicHost(hostname)).map(({ address, family }) => ({ address, family: family === 6 ? 6 as const : 4 as const }))
+  ],
+  // A proxy would resolve the host itself, past the address check
+  proxy: false,
+  headers: {
+    'User-Agent': SERVER_CONSTANTS.NEWS_SOURCES.USER_AGENT
+  }
+});
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export class ArticleFetcherService {
+  private readonly robots = new Map<string, { rules: Promise<RobotsRules>; fetchedAt: number }>();
+  /** Earliest time the next request to each host may start */
+  private readonly nextRequestAt = new Map<string, number>();
+  /** Extracted text per url; null when the page was not allowed, not an article or failed */
+  private readonly results = new Map<string, { text: string | null; fetchedAt: number }>();
+
+  isEnabled(): boolean {
+    return config.news.fullText.enabled;
+  }
+
+  /**
+   * Set fullText on the items whose page can be downloaded and holds an article
+   * Bounded by ARTICLE_FETCH.BUDGET_MS; items not done by then keep their summary only. Never throws
+   * @param items - Items to complete, changed in place
+   * @param signal - Caller's signal (e.g. client disconnect), if any
+   */
+  async attachFullText(items: NewsItem[], signal?: AbortSignal): Promise<void> {
+    if (!this.isEnabled() || items.length === 0) return;
+
+    const deadline = withDeadline(SERVER_CONSTANTS.ARTICLE_FETCH.BUDGET_MS, signal);
+    const pending = items.filter(item => !item.fullText);
+
+    const worker = async (): Promise<void> => {
+      for (let item = pending.shift(); item && !deadline.aborted; item = pending.shift()) {
+        const text = await this.fetchArticleText(item.url, deadline);
+        if (text) {
+          item.fullText = text;
+        }
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(SERVER_CONSTANTS.ARTICLE_FETCH.CONCURRENCY, pending.length) }, worker));
+  }
+
+  /**
+   * Main text of the page at url, or null when robots.txt disallows it, it is not an HTML article
+   * or it cannot be downloaded in time
+   */
+  async fetchArticleText(url: string, signal: AbortSignal): Promise<string | null> {
+    const cached = this.results.get(url);
+    if (cached && Date.now() - cached.fetchedAt < SERVER_CONSTANTS.ARTICLE_FETCH.RESULT_CACHE_MS) {
+      return cached.text;
+    }
+
+    let text: string | null = null;
+    try {
+      const html = await this.download(url, signal);
+      const article = html ? extractArticleText(html) : null;
+      text = article ? article.text.slice(0, SERVER_CONSTANTS.ARTICLE_FETCH.MAX_TEXT_CHARS) : null;
+    } catch (error: any) {
+      if (signal.aborted) {
+        // Out of time - not a verdict on the page, so nothing is cached
+        return null;
+      }
+      secureLogger.debug('Article download failed', { url, error: error.message });
+    }
+
+    this.cacheResult(url, text);
+    return text;
+  }
+
+  /**
+   * HTML of the page, following redirects that robots.txt allows; null for disallowed or non-HTML pages
+   */
+  private async download(url: string, signal: AbortSignal): Promise<string | null> {
+    let target = new URL(url);
+
+    for (let redirects = 0; redirects <= SERVER_CONSTANTS.ARTICLE_FETCH.MAX_REDIRECTS; redirects++) {
+      if (target.protocol !== 'http:' && target.protocol !== 'https:') return null;
+
+      try {
+        await resolvePublicHost(target.hostname);
+      } catch (error) {
+        if (!(error instanceof InternalAddressError)) throw error;
+        secureLogger.warn('Article page on an internal address refused', { url: target.toString() });
+        return null;
+      }
+
+      const rules = await this.getRobots(target, signal);
+      if (!isAllowed(rules, target.pathname + target.search)) {
+        secureLogger.debug('Article page disallowed by robots.txt', { url: target.toString() });
+        return null;
+      }
+
+      await this.waitForSlot(target.host, rules.crawlDelayMs, signal);
+      const response = await http.get<string>(target.toString(), {
+        signal,
+        maxContentLength: SERVER_CONSTANTS.ARTICLE_FETCH.MAX_PAGE_BYTES,
+        headers: { Accept: 'text/html,application/xhtml+xml' }
+      });
+
+      const location = response.headers.location;
+      if (response.status >= 300 && response.status < 400 && typeof location === 'string') {
+        target = new URL(location, target);
+        continue;
+      }
+
+      const contentType = String(response.headers['content-type'] ?? '');
+      if (response.status !== 200 || !/html/i.test(contentType) || typeof response.data !== 'string') {
+        return null;
+      }
+      return response.data;
+    }
+
+    return null;
+  }
+
+  /**
+   * The site's robots.txt rules, read at most once per ROBOTS_CACHE_MS
+   * A missing robots.txt (4xx) allows everything; an unreachable one (5xx, network error) allows nothing
+   */
+  private getRobots(target: URL, signal: AbortSignal): Promise<RobotsRules> {
+    const cached = this.robots.get(target.origin);
+    if (cached && Date.now() - cached.fetchedAt < SERVER_CONSTANTS.ARTICLE_FETCH.ROBOTS_CACHE_MS) {
+      return cached.rules;
+    }
+
+    const rules = (async (): Promise<RobotsRules> => {
+      await this.waitForSlot(target.host, 0, signal);
+      try {
+        const response = await http.get<string>(`${target.origin}/robots.txt`, { signal, maxRedirects: 3 });
+        if (response.status >= 200 && response.status < 300) {
+          return parseRobots(String(response.data));
+        }
+        return response.status >= 400 && response.status < 500 ? ALLOW_ALL : DISALLOW_ALL;
+      } catch (error) {
+        if (signal.aborted) throw error;
+        return DISALLOW_ALL;
+      }
+    })();
+
+    this.robots.set(target.origin, { rules, fetchedAt: Date.now() });
+    // An abort is this caller's deadline, not the site's answer - the next caller asks again
+    rules.catch(() => this.robots.delete(target.origin));
+    return rules;
+  }
+
+  /**
+   * Wait for the host's next free request slot and take it
+   * @param crawlDelayMs - The site's Crawl-delay; applies when longer than the configured interval
+   */
+  private async waitForSlot(host: string, crawlDelayMs: number, signal: AbortSignal): Promise<void> {
+    const now = Date.now();
+    const slot = Math.max(now, this.nextRequestAt.get(host) ?? 0);
+    this.nextRequestAt.set(host, slot + Math.max(config.news.fullText.domainIntervalMs, crawlDelayMs));
+
+    if (slot > now) {
+      await sleep(slot - now, signal);
+    }
+  }
+
+  private cacheResult(url: string, text: string | null): void {
+    this.results.delete(url);
+    this.results.set(url, { text, fetchedAt: Date.now() });
+
+    // Maps iterate in insertion order, so the first key is the oldest result
+    if (this.results.size > SERVER_CONSTANTS.ARTICLE_FETCH.RESULT_CACHE_SIZE) {
+      const oldest = this.results.keys().next().value;
+      if (oldest !== undefined) {
+        this.results.delete(oldest);
+      }
+    }
+  }
+}
+
+// Export singleton instance
+export const articleFetcherService = new ArticleFetcherService();
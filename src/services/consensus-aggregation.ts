@@ -0,0 +1,138 @@
+import { secureLogger } from '../utils/logger.js';
+import { config } from '../config.js';
+import { SERVER_CONSTANTS } from '../constants/server-constants.js';
+import { analystRouter } from './analyst-router.js';
+import { AnalystOpinion, ConsensusAggregation, ConsensusStrategy } from '../types/index.js';
+
+/**
+ * Consensus Aggregation
+ * Pluggable strategies deciding how much each analyst's opinion counts toward the consensus
+ */
+
+export interface AggregationStrategy {
+  name: ConsensusStrategy;
+  /** Raw (unnormalized) weight per analyst */
+  computeWeights(opinions: AnalystOpinion[], input: string): Record<string, number>;
+}
+
+export interface AggregationResult extends ConsensusAggregation {
+  /** Weighted mean of analyst confidences */
+  confidence: number;
+}
+
+interface TrackRecord {
+  hits: number;
+  total: number;
+}
+
+class SimpleMeanStrategy implements AggregationStrategy {
+  readonly name = 'simple_mean' as const;
+
+  computeWeights(opinions: AnalystOpinion[]): Record<string, number> {
+    return Object.fromEntries(opinions.map(op => [op.analyst, 1]));
+  }
+}
+
+class ConfidenceWeightedStrategy implements AggregationStrategy {
+  readonly name = 'confidence_weighted' as const;
+
+  computeWeights(opinions: AnalystOpinion[]): Record<string, number> {
+    return Object.fromEntries(opinions.map(op => [op.analyst, op.confidence]));
+  }
+}
+
+/**
+ * Boosts analysts whose specialty keywords appear in the query
+ * (e.g. crypto_analyst counts more on crypto queries)
+ */
+class SpecialtyWeightedStrategy implements AggregationStrategy {
+  readonly name = 'specialty_weighted' as const;
+
+  computeWeights(opinions: AnalystOpinion[], input: string): Record<string, number> {
+    return Object.fromEntries(opinions.map(op => {
+      const matches = analystRouter.matchKeywords(op.analyst, input).length;
+      const multiplier = Math.min(
+        SERVER_CONSTANTS.AGGREGATION.SPECIALTY_MAX_MULTIPLIER,
+        1 + matches * SERVER_CONSTANTS.AGGREGATION.SPECIALTY_KEYWORD_BOOST
+      );
+      return [op.analyst, multiplier];
+    }));
+  }
+}
+
+/**
+ * Weights analysts by their historical hit rate, smoothed toward a prior
+ * so analysts with few recorded outcomes are not over- or under-weighted
+ */
+class CalibratedStrategy implements AggregationStrategy {
+  readonly name = 'calibrated' as const;
+
+  constructor(private readonly trackRecords: Map<string, TrackRecord>) {}
+
+  computeWeights(opinions: AnalystOpinion[]): Record<string, number> {
+    const { CALIBRATION_PRIOR_ACCURACY: prior, CALIBRATION_PRIOR_SAMPLES: priorSamples } = SERVER_CONSTANTS.AGGREGATION;
+
+    return Object.fromEntries(opinions.map(op => {
+      const record = this.trackRecords.get(op.analyst) ?? { hits: 0, total: 0 };
+      return [op.analyst, (record.hits + prior * priorSamples) / (record.total + priorSamples)];
+    }));
+  }
+}
+
+export class ConsensusAggregator {
+  private readonly strategies = new Map<ConsensusStrategy, AggregationStrategy>();
+
+  constructor() {
+    // Track records come from configuration only; there is no outcome feedback at runtime
+    const trackRecords = new Map<string, TrackRecord>(Object.entries(config.analysis.analystTrackRecords));
+
+    this.register(new SimpleMeanStrategy());
+    this.register(new ConfidenceWeightedStrategy());
+    this.register(new SpecialtyWeightedStrategy());
+    this.register(new CalibratedStrategy(trackRecords));
+  }
+
+  register(strategy: AggregationStrategy): void {
+    this.strategies.set(strategy.name, strategy);
+  }
+
+  getAvailableStrategies(): ConsensusStrategy[] {
+    return Array.from(this.strategies.keys());
+  }
+
+  /**
+   * Compute normalized analyst weights and the weighted consensus confidence
+   */
+  aggregate(strategyName: ConsensusStrategy, opinions: AnalystOpinion[], input: string): AggregationResult {
+    const strategy = this.strategies.get(strategyName);
+    if (!strategy) {
+      throw new Error(`Unknown consensus strategy: ${strategyName}`);
+    }
+
+    if (opinions.length === 0) {
+      return { strategy: strategyName, weights: {}, confidence: 0 };
+    }
+
+    const rawWeights = strategy.computeWeights(opinions, input);
+    const total = Object.values(rawWeights).reduce((sum, weight) => sum + weight, 0);
+
+    // Degenerate weights (e.g. all zero confidence) fall back to equal weighting
+    const weights: Record<string, number> = Object.fromEntries(opinions.map(op => [
+      op.analyst,
+      total > 0 ? (rawWeights[op.analyst] ?? 0) / total : 1 / opinions.length
+    ]));
+
+    const confidence = opinions.reduce((sum, op) => sum + op.confidence * (weights[op.analyst] ?? 0), 0);
+
+    secureLogger.debug('Consensus weights computed', { strategy: strategyName, weights });
+
+    return {
+      strategy: strategyName,
+      weights: Object.fromEntries(Object.entries(weights).map(([analyst, weight]) => [analyst, Number(weight.toFixed(4))])),
+      confidence
+    };
+  }
+}
+
+// Export singleton instance
+export const consensusAggregator = new ConsensusAggregator();
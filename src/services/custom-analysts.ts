@@ -0,0 +1,99 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { config } from '../config.js';
+import { secureLogger } from '../utils/logger.js';
+import { SERVER_CONSTANTS } from '../constants/server-constants.js';
+
+/**
+ * Custom Analyst Registry
+ * Loads user-defined analyst personas from a YAML/JSON file at startup
+ */
+
+const customAnalystSchema = z.object({
+  name: z.string()
+    .regex(/^[a-z][a-z0-9_]*_analyst$/, "Name must be snake_case and end with '_analyst' (e.g. energy_analyst)"),
+  specialty: z.string().min(3).max(200),
+  persona: z.string().min(10).max(500),
+  focus: z.array(z.string().min(1)).min(1).max(12),
+  // Placeholders: {{base_prompt}}, {{input}}, {{focus}}, {{name}}, {{specialty}}
+  prompt_template: z.string()
+    .refine(template => template.includes('{{input}}'), "Prompt template must contain the {{input}} placeholder")
+    .optional(),
+  // Words that make this analyst count more under the specialty_weighted consensus strategy
+  keywords: z.array(z.string().min(1).transform(keyword => keyword.toLowerCase())).default([])
+});
+
+const customAnalystFileSchema = z.object({
+  analysts: z.array(customAnalystSchema).min(1)
+}).superRefine((file, ctx) => {
+  const seen = new Set<string>(SERVER_CONSTANTS.ANALYST_TYPES);
+  file.analysts.forEach((analyst, idx) => {
+    if (seen.has(analyst.name)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['analysts', idx, 'name'],
+        message: `Analyst '${analyst.name}' is already defined`
+      });
+    }
+    seen.add(analyst.name);
+  });
+});
+
+export type CustomAnalystDefinition = z.infer<typeof customAnalystSchema>;
+
+export class CustomAnalystRegistry {
+  private readonly definitions: CustomAnalystDefinition[];
+
+  constructor(filePath: string | undefined = config.analysis.customAnalystsFile) {
+    this.definitions = filePath ? this.loadFile(filePath) : [];
+  }
+
+  getDefinitions(): CustomAnalystDefinition[] {
+    return [...this.definitions];
+  }
+
+  /**
+   * Built-in analyst names followed by custom ones
+   */
+  getAnalystTypes(): string[] {
+    return [...SERVER_CONSTANTS.ANALYST_TYPES, ...this.definitions.map(def => def.name)];
+  }
+
+  getSpecialtyKeywords(analyst: string): readonly string[] {
+    const builtIn: Record<string, readonly string[]> = SERVER_CONSTANTS.ANALYST_SPECIALTY_KEYWORDS;
+    return builtIn[analyst] ?? this.definitions.find(def => def.name === analyst)?.keywords ?? [];
+  }
+
+  /**
+   * Read and validate the definitions file - any problem aborts startup
+   */
+  private loadFile(filePath: string): CustomAnalystDefinition[] {
+    const resolvedPath = path.resolve(process.cwd(), filePath);
+
+    let raw: unknown;
+    try {
+      const content = fs.readFileSync(resolvedPath, 'utf8');
+      raw = resolvedPath.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+    } catch (error) {
+      throw new Error(`Failed to read custom analysts file ${resolvedPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const result = customAnalystFileSchema.safeParse(raw);
+    if (!result.success) {
+      const issues = result.error.errors.map(err => `${err.path.join('.') || 'root'}: ${err.message}`).join('; ');
+      throw new Error(`Invalid custom analysts file ${resolvedPath}: ${issues}`);
+    }
+
+    secureLogger.info('Custom analysts loaded', {
+      file: resolvedPath,
+      analysts: result.data.analysts.map(def => def.name)
+    });
+
+    return result.data.analysts;
+  }
+}
+
+// Export singleton instance - constructed at import so an invalid file fails startup
+export const customAnalystRegistry = new CustomAnalystRegistry();
@@ -1,4 +1,4 @@
-import { mongoService } from './mongodb.js';
+import { AnalysisOwner, mongoService, UsageAttribution } from './mongodb.js';
 import { redisService } from './redis.js';
 import { secureLogger as logger } from '../utils/logger.js';
 
@@ -26,6 +26,8 @@ export class DatabaseManager {
   private static instance: DatabaseManager;
   private initialized = false;
   private readonly cacheFirstTypes = ['consensus', 'breaking_news', 'complete_intelligence'];
+  // Fixed windows used for rate limiting while Redis is unavailable (this process only)
+  private readonly localRateLimits = new Map<string, { count: number; resetTime: number }>();
 
   private constructor() {}
 
@@ -96,12 +98,16 @@ export class DatabaseManager {
 
   /**
    * Store analysis result with intelligent caching strategy
+   * @param owner - API key that ran the analysis; the stored copy is visible to its tenant only
+   * @param variant - Options the result depends on besides the query; a cache lookup must give the same
    */
   public async storeAnalysisResult(
     query: string,
     analysisType: string,
     result: any,
-    metadata: AnalysisMetadata
+    metadata: AnalysisMetadata,
+    owner?: AnalysisOwner,
+    variant?: string
   ): Promise<{ cached: boolean; stored: boolean; id?: string }> {
     const operations: Promise<any>[] = [];
     let cached = false;
@@ -112,7 +118,7 @@ export class DatabaseManager {
       // Cache in Redis for fast retrieval (if available)
       if (redisService.isConnected() && this.cacheFirstTypes.includes(analysisType)) {
         operations.push(
-          redisService.cacheAnalysisResult(query, analysisType, result, metadata)
+          redisService.cacheAnalysisResult(query, analysisType, result, metadata, variant, owner?.tenant)
             .then(success => { cached = success; })
             .catch(error => logger.warn('Redis caching failed:', error))
         );
@@ -121,7 +127,7 @@ export class DatabaseManager {
       // Store in MongoDB for persistence and analytics (if available)
       if (mongoService.isConnected()) {
         operations.push(
-          mongoService.storeAnalysisResult(query, analysisType, result, metadata)
+          mongoService.storeAnalysisResult(query, analysisType, result, metadata, owner, variant)
             .then(resultId => { 
               stored = !!resultId; 
               id = resultId || undefined;
@@ -152,12 +158,14 @@ export class DatabaseManager {
 
   /**
    * Retrieve cached analysis result with fallback strategy
+   * @param variant - Options the result depends on besides the query, as given when it was stored
+   * @param tenant - Tenant of the caller; only results stored by the same tenant (or, without one, by no tenant) are found
    */
-  public async getCachedAnalysis(query: string, analysisType: string): Promise<any | null> {
+  public async getCachedAnalysis(query: string, analysisType: string, variant?: string, tenant?: string): Promise<any | null> {
     try {
       // Try Redis first for fastest retrieval
       if (redisService.isConnected()) {
-        const redisResult = await redisService.getCachedAnalysis(query, analysisType);
+        const redisResult = await redisService.getCachedAnalysis(query, analysisType, variant, tenant);
         if (redisResult) {
           logger.debug('Cache hit from Redis', { type: analysisType });
           return redisResult;
@@ -166,7 +174,7 @@ export class DatabaseManager {
 
       // Fallback to MongoDB
       if (mongoService.isConnected()) {
-        const mongoResult = await mongoService.getCachedAnalysis(query, analysisType);
+        const mongoResult = await mongoService.getCachedAnalysis(query, analysisType, variant, tenant);
         if (mongoResult) {
           logger.debug('Cache hit from MongoDB', { type: analysisType });
           
@@ -176,7 +184,9 @@ export class DatabaseManager {
               query, 
               analysisType, 
               mongoResult,
-              { processingTime: 0, provider: 'cache' }
+              { processingTime: 0, provider: 'cache' },
+              variant,
+              tenant
             ).catch(error => logger.debug('Redis backfill failed:', error));
           }
           
@@ -203,7 +213,8 @@ export class DatabaseManager {
     endpoint: string,
     query: string | undefined,
     processingTime: number,
-    success: boolean
+    success: boolean,
+    attribution?: UsageAttribution
   ): Promise<void> {
     const operations: Promise<void>[] = [];
 
@@ -233,7 +244,7 @@ export class DatabaseManager {
       if (mongoService.isConnected()) {
         operations.push(
           mongoService.trackUserSession(
-            sessionId, ipAddress, userAgent, endpoint, query, processingTime, success
+            sessionId, ipAddress, userAgent, endpoint, query, processingTime, success, attribution
           ).catch(error => logger.debug('MongoDB session tracking failed:', error))
         );
       }
@@ -246,26 +257,53 @@ export class DatabaseManager {
   }
 
   /**
-   * Check rate limiting using Redis (with MongoDB fallback)
+   * Check rate limiting using Redis, falling back to a per-process window while Redis is down
    */
   public async checkRateLimit(
     identifier: string, 
     limit: number, 
     windowSeconds: number
   ): Promise<{ allowed: boolean; count: number; resetTime: number }> {
-    try {
-      if (redisService.isConnected()) {
+    if (redisService.isConnected()) {
+      try {
         return await redisService.checkRateLimit(identifier, limit, windowSeconds);
+      } catch (error) {
+        logger.debug('Redis rate limit check failed, using in-memory window', {
+          identifier,
+          error: error instanceof Error ? error.message : String(error)
+        });
       }
+    }
 
-      // Fallback: allow request if no caching available
-      logger.debug('Rate limiting unavailable - allowing request', { identifier });
-      return { allowed: true, count: 0, resetTime: 0 };
+    return this.checkLocalRateLimit(identifier, limit, windowSeconds);
+  }
 
-    } catch (error) {
-      logger.error('Rate limit check failed:', error);
-      return { allowed: true, count: 0, resetTime: 0 };
+  /**
+   * Fixed-window rate limit kept in memory; limits are per process when several instances run
+   */
+  private checkLocalRateLimit(
+    identifier: string,
+    limit: number,
+    windowSeconds: number
+  ): { allowed: boolean; count: number; resetTime: number } {
+    // Reset times are epoch seconds, as returned by Redis
+    const now = Math.floor(Date.now() / 1000);
+    let window = this.localRateLimits.get(identifier);
+
+    if (!window || window.resetTime <= now) {
+      // Drop expired windows so keys that went quiet do not accumulate
+      for (const [key, entry] of this.localRateLimits) {
+        if (entry.resetTime <= now) this.localRateLimits.delete(key);
+      }
+      window = { count: 0, resetTime: now + windowSeconds };
+      this.localRateLimits.set(identifier, window);
     }
+
+    // Like Redis, count is the number of requests before this one, and rejected requests are not counted
+    const count = window.count;
+    const allowed = count < limit;
+    if (allowed) window.count++;
+    return { allowed, count, resetTime: window.resetTime };
   }
 
   /**
@@ -0,0 +1,114 @@
+import { SERVER_CONSTANTS } from '../constants/server-constants.js';
+import { AnalysisDepth, AnalysisUsage, DepthProfile, DepthProfileUsage, TokenUsage } from '../types/index.js';
+import { addTokenUsage, emptyTokenUsage } from '../utils/token-usage.js';
+
+/**
+ * Depth Profiles
+ * Concrete settings behind 'quick', 'standard' and 'deep'
+ */
+
+const DEPTH_PROFILES: Record<AnalysisDepth, DepthProfile> = {
+  quick: {
+    depth: 'quick',
+    analystWordLimit: 120,
+    consensusWordLimit: 150,
+    maxEvidencePoints: 2,
+    modelTier: 'fast',
+    minAnalysts: 1,
+    maxAnalysts: 2,
+    debateRounds: 0,
+    verificationPasses: 1,
+    maxTokensPerCall: 600,
+    tokenBudget: 6000,
+    timeoutMs: SERVER_CONSTANTS.TIMEOUTS.ANALYSIS_QUICK
+  },
+  standard: {
+    depth: 'standard',
+    analystWordLimit: 300,
+    consensusWordLimit: 400,
+    maxEvidencePoints: 3,
+    modelTier: 'balanced',
+    minAnalysts: 3,
+    maxAnalysts: 4,
+    debateRounds: 0,
+    verificationPasses: 1,
+    maxTokensPerCall: 1200,
+    tokenBudget: 25000,
+    timeoutMs: SERVER_CONSTANTS.TIMEOUTS.ANALYSIS_STANDARD
+  },
+  deep: {
+    depth: 'deep',
+    analystWordLimit: 500,
+    consensusWordLimit: 700,
+    maxEvidencePoints: 5,
+    modelTier: 'premium',
+    minAnalysts: 1,
+    maxAnalysts: null,
+    debateRounds: 1,
+    verificationPasses: 2,
+    maxTokensPerCall: 2000,
+    tokenBudget: 120000,
+    timeoutMs: SERVER_CONSTANTS.TIMEOUTS.ANALYSIS_DEEP
+  }
+};
+
+export function getDepthProfile(depth: AnalysisDepth): DepthProfile {
+  return DEPTH_PROFILES[depth];
+}
+
+/**
+ * Tracks tokens spent by one analysis run against its profile's budget, and who spent them
+ */
+export class TokenBudget {
+  private total = emptyTokenUsage();
+  private consensus = emptyTokenUsage();
+  private readonly analysts = new Map<string, TokenUsage>();
+
+  constructor(private readonly profile: DepthProfile) {}
+
+  /**
+   * @param usage - Tokens and cost of the step
+   * @param analyst - Analyst whose call it was; omitted for the consensus step
+   */
+  record(usage: TokenUsage, analyst?: string): void {
+    this.total = addTokenUsage(this.total, usage);
+    if (analyst) {
+      this.analysts.set(analyst, addTokenUsage(this.analysts.get(analyst) ?? emptyTokenUsage(), usage));
+    } else {
+      this.consensus = addTokenUsage(this.consensus, usage);
+    }
+  }
+
+  get used(): number {
+    return this.total.totalTokens;
+  }
+
+  get usage(): TokenUsage {
+    return this.total;
+  }
+
+
+  get remaining(): number {
+    return Math.max(0, this.profile.tokenBudget - this.used);
+  }
+
+  isExhausted(): boolean {
+    return this.used >= this.profile.tokenBudget;
+  }
+
+  toUsage(): DepthProfileUsage {
+    return {
+      ...this.profile,
+      tokensUsed: this.used,
+      budgetExhausted: this.isExhausted()
+    };
+  }
+
+  toAnalysisUsage(): AnalysisUsage {
+    return {
+      total: this.total,
+      analysts: Object.fromEntries(this.analysts),
+      consensus: this.consensus
+    };
+  }
+}
@@ -0,0 +1,169 @@
+import { secureLogger } from '../utils/logger.js';
+import { AnalystOpinion, MarketStance, RiskLevel, OpinionDispersion } from '../types/index.js';
+
+/**
+ * Disagreement Engine
+ * Compares analyst opinions pairwise on direction, risk and horizon,
+ * producing named disagreements and a 0-1 dispersion score
+ */
+
+const STANCE_VALUES: Record<MarketStance, number> = {
+  bearish: -1,
+  neutral: 0,
+  bullish: 1
+};
+
+const RISK_VALUES: Record<RiskLevel, number> = {
+  LOW: 0,
+  MEDIUM: 1,
+  HIGH: 2,
+  CRITICAL: 3
+};
+
+const TIMEFRAME_UNITS_IN_DAYS: Array<{ pattern: RegExp; days: number }> = [
+  { pattern: /hour|hr/i, days: 1 / 24 },
+  { pattern: /day/i, days: 1 },
+  { pattern: /week/i, days: 7 },
+  { pattern: /month/i, days: 30 },
+  { pattern: /quarter/i, days: 91 },
+  { pattern: /year|yr/i, days: 365 }
+];
+
+/** Dimension weights for the overall dispersion score */
+const DISPERSION_WEIGHTS = {
+  stance: 0.5,
+  riskLevel: 0.3,
+  timeframe: 0.2
+};
+
+/** Risk levels this many steps apart count as a disagreement */
+const RISK_DISAGREEMENT_GAP = 2;
+
+/** Horizons differing by at least this factor count as a disagreement */
+const TIMEFRAME_DISAGREEMENT_RATIO = 4;
+
+/** Longest horizon considered when normalising timeframe dispersion (log10 days) */
+const MAX_TIMEFRAME_SPREAD = 2;
+
+export interface DisagreementReport {
+  disagreements: string[];
+  dispersion: OpinionDispersion;
+}
+
+export class DisagreementEngine {
+  /**
+   * Detect disagreements between analysts
+   * @param opinions - Opinions of the analysts that completed
+   * @param topic - Short label of what is being analyzed, used to name disagreements
+   */
+  analyze(opinions: AnalystOpinion[], topic: string): DisagreementReport {
+    const label = this.toTopicLabel(topic);
+    const disagreements: string[] = [];
+
+    for (let i = 0; i < opinions.length; i++) {
+      for (let j = i + 1; j < opinions.length; j++) {
+        const a = opinions[i];
+        const b = opinions[j];
+        if (!a || !b) continue;
+
+        disagreements.push(...this.comparePair(a, b, label));
+      }
+    }
+
+    const dispersion = this.calculateDispersion(opinions);
+
+    secureLogger.debug('Disagreement analysis completed', {
+      opinionCount: opinions.length,
+      disagreementCount: disagreements.length,
+      dispersion: dispersion.score
+    });
+
+    return { disagreements, dispersion };
+  }
+
+  /**
+   * Parse a free-text timeframe ("1-2 weeks", "next 6 months") into days, using the upper bound
+   */
+  parseTimeframeDays(timeframe: string): number | null {
+    const unit = TIMEFRAME_UNITS_IN_DAYS.find(entry => entry.pattern.test(timeframe));
+    if (!unit) return null;
+
+    const numbers = timeframe.match(/\d+(?:\.\d+)?/g)?.map(Number) ?? [];
+    const quantity = numbers.length > 0 ? Math.max(...numbers) : 1;
+
+    return quantity * unit.days;
+  }
+
+  private comparePair(a: AnalystOpinion, b: AnalystOpinion, topic: string): string[] {
+    const found: string[] = [];
+
+    if (a.stance && b.stance && Math.abs(STANCE_VALUES[a.stance] - STANCE_VALUES[b.stance]) === 2) {
+      found.push(`${a.analyst} ${a.stance} vs ${b.analyst} ${b.stance} on ${topic}`);
+    }
+
+    if (a.risk_level && b.risk_level && Math.abs(RISK_VALUES[a.risk_level] - RISK_VALUES[b.risk_level]) >= RISK_DISAGREEMENT_GAP) {
+      found.push(`${a.analyst} rates risk ${a.risk_level} vs ${b.analyst} ${b.risk_level} on ${topic}`);
+    }
+
+    if (a.timeframe && b.timeframe) {
+      const aDays = this.parseTimeframeDays(a.timeframe);
+      const bDays = this.parseTimeframeDays(b.timeframe);
+
+      if (aDays && bDays && Math.max(aDays, bDays) / Math.min(aDays, bDays) >= TIMEFRAME_DISAGREEMENT_RATIO) {
+        found.push(`${a.analyst} expects ${a.timeframe} vs ${b.analyst} ${b.timeframe} horizon on ${topic}`);
+      }
+    }
+
+    return found;
+  }
+
+  private calculateDispersion(opinions: AnalystOpinion[]): OpinionDispersion {
+    const stances = opinions.flatMap(op => op.stance ? [STANCE_VALUES[op.stance]] : []);
+    const risks = opinions.flatMap(op => op.risk_level ? [RISK_VALUES[op.risk_level]] : []);
+    const horizons = opinions.flatMap(op => {
+      const days = op.timeframe ? this.parseTimeframeDays(op.timeframe) : null;
+      return days ? [Math.log10(days)] : [];
+    });
+
+    // Normalise each standard deviation by the largest possible spread of its dimension
+    const components = {
+      stance: this.normalizedSpread(stances, 1),
+      riskLevel: this.normalizedSpread(risks, 1.5),
+      timeframe: this.normalizedSpread(horizons, MAX_TIMEFRAME_SPREAD)
+    };
+
+    let weightedSum = 0;
+    let totalWeight = 0;
+    for (const [dimension, value] of Object.entries(components) as Array<[keyof typeof DISPERSION_WEIGHTS, number | null]>) {
+      if (value === null) continue;
+      weightedSum += value * DISPERSION_WEIGHTS[dimension];
+      totalWeight += DISPERSION_WEIGHTS[dimension];
+    }
+
+    return {
+      score: totalWeight > 0 ? Number((weightedSum / totalWeight).toFixed(3)) : 0,
+      ...components
+    };
+  }
+
+  /**
+   * Standard deviation scaled to 0-1, or null when fewer than two analysts reported the dimension
+   */
+  private normalizedSpread(values: number[], maxStdDev: number): number | null {
+    if (values.length < 2) return null;
+
+    const mean = values.reduce((sum, value) => sum + value, 0) / values.length;
+    const variance = values.reduce((sum, value) => sum + (value - mean) ** 2, 0) / values.length;
+
+    return Number(Math.min(1, Math.sqrt(variance) / maxStdDev).toFixed(3));
+  }
+
+  private toTopicLabel(topic: string): string {
+    const words = topic.trim().split(/\s+/);
+    const label = words.slice(0, 8).join(' ');
+    return words.length > 8 ? `"${label}..."` : `"${label}"`;
+  }
+}
+
+// Export singleton instance
+export const disagreementEngine = new DisagreementEngine();
@@ -0,0 +1,220 @@
+import { EventEmitter } from 'events';
+import { McpError, ReadResourceResult, Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { ToolCaller } from '../types/index.js';
+
+import { secureLogger } from '../utils/logger.js';
+import { SERVER_CONSTANTS } from '../constants/server-constants.js';
+import { mongoService } from './mongodb.js';
+import { newsFetcherService } from './news-fetcher.js';
+import { analystManager } from './analysts.js';
+import { temporalContextService } from './temporal-context.js';
+
+/**
+ * MCP Resources
+ * Exposes stored analyses, cached news, analyst personas and the economic calendar as
+ * read-only resources, so clients can attach them as context without re-running tools
+ *
+ * Stored analyses are private to the tenant whose API key ran them: a session sees only its own tenant's
+ * (or, without an API key, only those run without one)
+ */
+
+export const CALENDAR_URI = 'calendar://upcoming';
+
+export type ResourceChange =
+  | { type: 'updated'; uri: string }
+  | { type: 'list_changed' };
+
+export type ResourceChangeListener = (change: ResourceChange) => void;
+
+const RESOURCE_TEMPLATES: ResourceTemplate[] = [
+  {
+    uriTemplate: 'analysis://{id}',
+    name: 'Stored analysis',
+    description: 'A past complete financial intelligence analysis, kept until its cache entry expires',
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'news://{category}/latest',
+    name: 'Latest news',
+    description: `Most recently fetched news for a category (${Object.values(SERVER_CONSTANTS.NEWS_CATEGORIES).join(', ')})`,
+    mimeType: 'application/json'
+  },
+  {
+    uriTemplate: 'sage://{analyst}',
+    name: 'Analyst persona',
+    description: 'Specialty and persona of one analyst on the panel',
+    mimeType: 'application/json'
+  }
+];
+
+export class McpResourceService {
+  private readonly events = new EventEmitter();
+  private calendarTimer: NodeJS.Timeout | null = null;
+  private calendarSnapshot = '';
+
+  constructor() {
+    mongoService.onAnalysisStored(() => this.emitChange({ type: 'list_changed' }));
+    newsFetcherService.onNewsCached(category => this.emitChange({ type: 'updated', uri: `news://${category}/latest` }));
+  }
+
+  /**
+   * Every concrete resource: the caller's recent analyses, one news feed per category, each analyst and the calendar
+   * @param caller - Authenticated caller of the session, if any
+   */
+  async listResources(caller?: ToolCaller): Promise<Resource[]> {
+    const analyses = await mongoService.listRecentAnalyses(SERVER_CONSTANTS.RESOURCES.MAX_LISTED_ANALYSES, caller?.apiKey.tenant);
+
+    return [
+      ...analyses.map(analysis => ({
+        uri: `analysis://${analysis.id}`,
+        name: `Analysis: ${analysis.query.slice(0, 80)}`,
+        description: `${analysis.analysisType} analysis from ${analysis.metadata.timestamp.toISOString()}`,
+        mimeType: 'application/json'
+      })),
+      ...Object.values(SERVER_CONSTANTS.NEWS_CATEGORIES).map(category => ({
+        uri: `news://${category}/latest`,
+        name: `Latest ${category} news`,
+        mimeType: 'application/json'
+      })),
+      ...analystManager.getAvailableAnalysts().map(analyst => ({
+        uri: `sage://${analyst}`,
+        name: `Analyst: ${analyst}`,
+        mimeType: 'application/json'
+      })),
+      {
+        uri: CALENDAR_URI,
+        name: 'Upcoming economic events',
+        description: 'Scheduled releases that have not happened yet',
+        mimeType: 'application/json'
+      }
+    ];
+  }
+
+  listResourceTemplates(): ResourceTemplate[] {
+    return RESOURCE_TEMPLATES;
+  }
+
+  /**
+   * Read one resource
+   * @param caller - Authenticated caller of the session, if any; other tenants' analyses are not found
+   * @throws McpError - With the spec's resource-not-found code for unknown URIs
+   */
+  async readResource(uri: string, caller?: ToolCaller): Promise<ReadResourceResult> {
+    const content = await this.resolve(uri, caller);
+    if (content === null) {
+      throw new McpError(SERVER_CONSTANTS.RESOURCES.NOT_FOUND_ERROR_CODE, `Resource not found: ${uri}`, { uri });
+    }
+
+    return {
+      contents: [{ uri, mimeType: 'application/json', text: JSON.stringify(content, null, 2) }]
+    };
+  }
+
+  /**
+   * Whether a URI names a resource this server can serve (used to validate subscriptions)
+   */
+  isKnownUri(uri: string): boolean {
+    return uri === CALENDAR_URI || /^(analysis|sage):\/\/[^/]+$/.test(uri) || this.parseNewsCategory(uri) !== null;
+  }
+
+  /**
+   * Listen for resource updates and list changes
+   * The calendar is only checked for changes while someone is listening
+   * @returns Function removing the listener
+   */
+  onChange(listener: ResourceChangeListener): () => void {
+    this.events.on('change', listener);
+    this.startCalendarWatch();
+
+    return () => {
+      this.events.off('change', listener);
+      if (this.events.listenerCount('change') === 0) {
+        this.stopCalendarWatch();
+      }
+    };
+  }
+
+  private async resolve(uri: string, caller?: ToolCaller): Promise<unknown | null> {
+    if (uri === CALENDAR_URI) {
+      return { events: await temporalContextService.getUpcomingEvents() };
+    }
+
+    const newsCategory = this.parseNewsCategory(uri);
+    if (newsCategory !== null) {
+      return this.readLatestNews(newsCategory);
+    }
+
+    const match = /^(analysis|sage):\/\/([^/]+)$/.exec(uri);
+    if (!match) return null;
+
+    const [, scheme, key] = match;
+    if (scheme === 'sage') {
+      return analystManager.getAnalystInfo(key!);
+    }
+
+    const analysis = await mongoService.getAnalysisResult(key!, caller?.apiKey.tenant);
+    return analysis && {
+      id: analysis.id,
+      query: analysis.query,
+      analysisType: analysis.analysisType,
+      timestamp: analysis.metadata.timestamp.toISOString(),
+      result: analysis.result
+    };
+  }
+
+  /**
+   * Serve the cache; fetch once when nothing has been cached for the category yet
+   */
+  private async readLatestNews(category: string): Promise<unknown> {
+    let latest = newsFetcherService.getLatestCached(category);
+    if (!latest) {
+      await newsFetcherService.fetchNews(category);
+      latest = newsFetcherService.getLatestCached(category);
+    }
+
+    return {
+      category,
+      fetchedAt: latest?.timestamp.toISOString() ?? null,
+      items: latest?.data ?? []
+    };
+  }
+
+  private parseNewsCategory(uri: string): string | null {
+    const category = /^news:\/\/([^/]+)\/latest$/.exec(uri)?.[1];
+    const categories: readonly string[] = Object.values(SERVER_CONSTANTS.NEWS_CATEGORIES);
+    return category !== undefined && categories.includes(category) ? category : null;
+  }
+
+  private emitChange(change: ResourceChange): void {
+    this.events.emit('change', change);
+  }
+
+  private startCalendarWatch(): void {
+    if (this.calendarTimer) return;
+
+    this.calendarTimer = setInterval(() => {
+      this.checkCalendar().catch(error => {
+        secureLogger.warn('Economic calendar check failed', { error: error instanceof Error ? error.message : String(error) });
+      });
+    }, SERVER_CONSTANTS.RESOURCES.CALENDAR_REFRESH_MS);
+    this.calendarTimer.unref();
+  }
+
+  private stopCalendarWatch(): void {
+    if (this.calendarTimer) {
+      clearInterval(this.calendarTimer);
+      this.calendarTimer = null;
+    }
+  }
+
+  private async checkCalendar(): Promise<void> {
+    const snapshot = JSON.stringify(await temporalContextService.getUpcomingEvents());
+    if (this.calendarSnapshot && snapshot !== this.calendarSnapshot) {
+      this.emitChange({ type: 'updated', uri: CALENDAR_URI });
+    }
+    this.calendarSnapshot = snapshot;
+  }
+}
+
+// Export singleton instance
+export const mcpResourceService = new McpResourceService();
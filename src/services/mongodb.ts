@@ -1,6 +1,10 @@
+import { EventEmitter } from 'events';
 import mongoose, { Schema, Document } from 'mongoose';
 import { config } from '../config.js';
+import { SERVER_CONSTANTS } from '../constants/server-constants.js';
 import { secureLogger as logger } from '../utils/logger.js';
+import { roundCost } from '../utils/token-usage.js';
+import { NewsItem, SpendCaps, SpendTotals, TokenUsage } from '../types/index.js';
 
 /**
  * MongoDB Database Integration Service
@@ -19,6 +23,11 @@ export interface IAnalysisResult extends Document {
     provider: string;
     cached: boolean;
   };
+  /** API key and tenant that ran the analysis; absent for analyses run without an API key */
+  apiKeyId?: string;
+  tenant?: string;
+  /** Options the result depends on besides the query (e.g. depth and analysts), part of the cache lookup */
+  variant?: string;
   expiresAt: Date;
 }
 
@@ -33,6 +42,9 @@ const AnalysisResultSchema = new Schema<IAnalysisResult>({
     provider: { type: String, required: true },
     cached: { type: Boolean, default: false }
   },
+  apiKeyId: { type: String },
+  tenant: { type: String, index: true },
+  variant: { type: String },
   expiresAt: { 
     type: Date, 
     default: () => new Date(Date.now() + 12 * 60 * 60 * 1000), // 12 hours
@@ -45,12 +57,16 @@ export interface IUserSession extends Document {
   sessionId: string;
   ipAddress: string;
   userAgent?: string;
+  apiKeyId?: string;
+  tenant?: string;
   requests: Array<{
     timestamp: Date;
     endpoint: string;
     query?: string;
     processingTime: number;
     success: boolean;
+    tokensUsed?: number;
+    costUsd?: number;
   }>;
   totalRequests: number;
   lastActivity: Date;
@@ -61,19 +77,32 @@ const UserSessionSchema = new Schema<IUserSession>({
   sessionId: { type: String, required: true, unique: true },
   ipAddress: { type: String, required: true, index: true },
   userAgent: { type: String },
+  apiKeyId: { type: String, index: true },
+  tenant: { type: String, index: true },
   requests: [{
     timestamp: { type: Date, default: Date.now },
     endpoint: { type: String, required: true },
     query: { type: String },
     processingTime: { type: Number, required: true },
-    success: { type: Boolean, required: true }
+    success: { type: Boolean, required: true },
+    tokensUsed: { type: Number },
+    costUsd: { type: Number }
   }],
   totalRequests: { type: Number, default: 0 },
   lastActivity: { type: Date, default: Date.now, index: true },
   createdAt: { type: Date, default: Date.now }
 });
 
-// System Metrics Schema
+// System Metrics Schema - hourly documents; AI provider usage is added to them as calls complete
+export interface AIProviderStats {
+  requests: number;
+  errors: number;
+  promptTokens: number;
+  completionTokens: number;
+  tokens: number;
+  costUsd: number;
+}
+
 export interface ISystemMetrics extends Document {
   timestamp: Date;
   metrics: {
@@ -83,7 +112,9 @@ export interface ISystemMetrics extends Document {
     averageProcessingTime: number;
     uniqueUsers: number;
     tokensUsed: number;
-    aiProviderStats: Record<string, { requests: number; tokens: number; errors: number }>;
+    costUsd: number;
+    aiProviderStats: Record<string, AIProviderStats>;
+    tenantStats: Record<string, { requests: number; tokens: number; costUsd: number; errors: number; apiKeys: number }>;
   };
   period: 'hour' | 'day' | 'week' | 'month';
 }
@@ -97,15 +128,137 @@ const SystemMetricsSchema = new Schema<ISystemMetrics>({
     averageProcessingTime: { type: Number, default: 0 },
     uniqueUsers: { type: Number, default: 0 },
     tokensUsed: { type: Number, default: 0 },
-    aiProviderStats: { type: Schema.Types.Mixed, default: {} }
+    costUsd: { type: Number, default: 0 },
+    aiProviderStats: { type: Schema.Types.Mixed, default: {} },
+    tenantStats: { type: Schema.Types.Mixed, default: {} }
   },
   period: { type: String, required: true, enum: ['hour', 'day', 'week', 'month'] }
 });
+SystemMetricsSchema.index({ period: 1, timestamp: 1 });
+
+// API Key Schema - only the SHA-256 hash of a key is stored
+export interface IApiKey extends Document {
+  keyHash: string;
+  keyPrefix: string;
+  name: string;
+  tenant: string;
+  rateLimit: {
+    windowMs: number;
+    maxRequests: number;
+  };
+  dailyTokenBudget: number;
+  spendCaps?: SpendCaps;
+  active: boolean;
+  lastUsedAt?: Date;
+  createdAt: Date;
+}
+
+const ApiKeySchema = new Schema<IApiKey>({
+  keyHash: { type: String, required: true, unique: true },
+  keyPrefix: { type: String, required: true },
+  name: { type: String, required: true },
+  tenant: { type: String, required: true, index: true },
+  rateLimit: {
+    windowMs: { type: Number, required: true },
+    maxRequests: { type: Number, required: true }
+  },
+  dailyTokenBudget: { type: Number, required: true },
+  spendCaps: {
+    dailyUsd: { type: Number },
+    monthlyUsd: { type: Number }
+  },
+  active: { type: Boolean, default: true },
+  lastUsedAt: { type: Date },
+  createdAt: { type: Date, default: Date.now }
+});
+
+// Tenant Usage Schema - AI tokens, spend and tool calls per tenant per UTC day
+export interface ITenantUsage extends Document {
+  tenant: string;
+  date: string;
+  tokensUsed: number;
+  costUsd: number;
+  toolCalls: number;
+  expiresAt: Date;
+}
+
+const TenantUsageSchema = new Schema<ITenantUsage>({
+  tenant: { type: String, required: true },
+  date: { type: String, required: true },
+  tokensUsed: { type: Number, default: 0 },
+  costUsd: { type: Number, default: 0 },
+  toolCalls: { type: Number, default: 0 },
+  expiresAt: { type: Date, required: true, expires: 0 }
+});
+TenantUsageSchema.index({ tenant: 1, date: 1 }, { unique: true });
+
+// News Article Schema - the ingestion worker's article store
+export interface INewsArticle extends Document {
+  // Canonical url (tracking parameters removed) - one document per article
+  key: string;
+  newsId: string;
+  title: string;
+  content: string;
+  source: string;
+  sourceId?: string;
+  url: string;
+  publishedAt: Date;
+  category: string;
+  relevanceScore: number;
+  credibility?: number;
+  language?: string;
+  region?: string;
+  firstSeenAt: Date;
+  lastSeenAt: Date;
+  expiresAt: Date;
+}
+
+const NewsArticleSchema = new Schema<INewsArticle>({
+  key: { type: String, required: true, unique: true },
+  newsId: { type: String, required: true },
+  title: { type: String, required: true },
+  content: { type: String, default: '' },
+  source: { type: String, required: true },
+  sourceId: { type: String },
+  url: { type: String, required: true },
+  publishedAt: { type: Date, required: true },
+  category: { type: String, required: true },
+  relevanceScore: { type: Number, default: 0 },
+  credibility: { type: Number },
+  language: { type: String },
+  region: { type: String },
+  firstSeenAt: { type: Date, default: Date.now },
+  lastSeenAt: { type: Date, default: Date.now },
+  expiresAt: { type: Date, required: true, expires: 0 }
+});
+NewsArticleSchema.index({ category: 1, publishedAt: -1 });
+NewsArticleSchema.index({ publishedAt: -1 });
 
 // Model exports
 export const AnalysisResult = mongoose.model<IAnalysisResult>('AnalysisResult', AnalysisResultSchema);
 export const UserSession = mongoose.model<IUserSession>('UserSession', UserSessionSchema);
 export const SystemMetrics = mongoose.model<ISystemMetrics>('SystemMetrics', SystemMetricsSchema);
+export const ApiKey = mongoose.model<IApiKey>('ApiKey', ApiKeySchema);
+export const TenantUsage = mongoose.model<ITenantUsage>('TenantUsage', TenantUsageSchema);
+export const NewsArticle = mongoose.model<INewsArticle>('NewsArticle', NewsArticleSchema);
+
+/**
+ * API key and AI usage a request is attributed to
+ */
+export interface UsageAttribution {
+  apiKeyId: string;
+  tenant: string;
+  tokensUsed: number;
+  costUsd: number;
+}
+
+/**
+ * API key that ran a stored analysis; only its tenant can list and read the analysis
+ */
+export interface AnalysisOwner {
+  apiKeyId: string;
+  tenant: string;
+}
 
 /**
  * MongoDB Database Manager
@@ -115,6 +268,7 @@ export class MongoDBService {
   private connected = false;
   private connectionRetries = 0;
   private maxRetries = 5;
+  private readonly events = new EventEmitter();
 
   private constructor() {}
 
@@ -213,7 +367,9 @@ export class MongoDBService {
       processingTime: number;
       tokensUsed?: number;
       provider: string;
-    }
+    },
+    owner?: AnalysisOwner,
+    variant?: string
   ): Promise<string | null> {
     if (!this.isConnected()) {
       logger.warn('MongoDB not connected, skipping analysis storage');
@@ -229,7 +385,9 @@ export class MongoDBService {
           ...metadata,
           timestamp: new Date(),
           cached: false
-        }
+        },
+        ...(owner && { apiKeyId: owner.apiKeyId, tenant: owner.tenant }),
+        ...(variant && { variant })
       });
 
       await analysisResult.save();
@@ -239,7 +397,9 @@ export class MongoDBService {
         queryLength: query.length
       });
 
-      return String(analysisResult._id);
+      const id = String(analysisResult._id);
+      this.events.emit('analysisStored', id);
+      return id;
     } catch (error) {
       logger.error('Failed to store analysis result in MongoDB:', error);
       return null;
@@ -248,8 +408,10 @@ export class MongoDBService {
 
   /**
    * Retrieve cached analysis result
+   * @param variant - Options the result depends on besides the query; without one, only results stored without one match
+   * @param tenant - Tenant of the caller; without one, only analyses run without an API key are found
    */
-  public async getCachedAnalysis(query: string, analysisType: string): Promise<any | null> {
+  public async getCachedAnalysis(query: string, analysisType: string, variant?: string, tenant?: string): Promise<any | null> {
     if (!this.isConnected()) {
       return null;
     }
@@ -258,6 +420,8 @@ export class MongoDBService {
       const cached = await AnalysisResult.findOne({
         query,
         analysisType,
+        variant: variant ?? null,
+        tenant: tenant ?? null,
         expiresAt: { $gt: new Date() }
       }).sort({ 'metadata.timestamp': -1 });
 
@@ -277,8 +441,55 @@ export class MongoDBService {
     }
   }
 
+  /**
+   * Retrieve a stored analysis by id, or null when it does not exist, has expired or belongs to another tenant
+   * @param tenant - Tenant of the caller; without one, only analyses run without an API key are found
+   */
+  public async getAnalysisResult(id: string, tenant?: string): Promise<IAnalysisResult | null> {
+    if (!this.isConnected() || !mongoose.isValidObjectId(id)) {
+      return null;
+    }
+
+    try {
+      return await AnalysisResult.findOne({ _id: id, tenant: tenant ?? null, expiresAt: { $gt: new Date() } });
+    } catch (error) {
+      logger.error('Failed to retrieve analysis result from MongoDB:', error);
+      return null;
+    }
+  }
+
+  /**
+   * Most recent stored analyses of a tenant that have not expired, newest first, without their results
+   * @param tenant - Tenant of the caller; without one, the analyses run without an API key
+   */
+  public async listRecentAnalyses(limit: number, tenant?: string): Promise<Array<Pick<IAnalysisResult, 'id' | 'query' | 'analysisType' | 'metadata'>>> {
+    if (!this.isConnected()) {
+      return [];
+    }
+
+    try {
+      return await AnalysisResult.find({ tenant: tenant ?? null, expiresAt: { $gt: new Date() } })
+        .select('query analysisType metadata')
+        .sort({ 'metadata.timestamp': -1 })
+        .limit(limit);
+    } catch (error) {
+      logger.error('Failed to list analysis results from MongoDB:', error);
+      return [];
+    }
+  }
+
+  /**
+   * Listen for newly stored analyses
+   * @returns Function removing the listener
+   */
+  public onAnalysisStored(listener: (id: string) => void): () => void {
+    this.events.on('analysisStored', listener);
+    return () => this.events.off('analysisStored', listener);
+  }
+
   /**
    * Track user session and API usage
+   * @param attribution - API key the request was made with and the AI tokens and cost it spent
    */
   public async trackUserSession(
     sessionId: string,
@@ -287,7 +498,8 @@ export class MongoDBService {
     endpoint: string,
     query: string | undefined,
     processingTime: number,
-    success: boolean
+    success: boolean,
+    attribution?: UsageAttribution
   ): Promise<void> {
     if (!this.isConnected()) {
       return;
@@ -299,7 +511,8 @@ export class MongoDBService {
         endpoint,
         query,
         processingTime,
-        success
+        success,
+        ...(attribution && { tokensUsed: attribution.tokensUsed, costUsd: attribution.costUsd })
       };
 
       await UserSession.findOneAndUpdate(
@@ -308,7 +521,8 @@ export class MongoDBService {
           $set: {
             ipAddress,
             userAgent,
-            lastActivity: new Date()
+            lastActivity: new Date(),
+            ...(attribution && { apiKeyId: attribution.apiKeyId, tenant: attribution.tenant })
           },
           $push: { requests: request },
           $inc: { totalRequests: 1 },
@@ -323,6 +537,247 @@ export class MongoDBService {
     }
   }
 
+  /**
+   * Find an active API key by the SHA-256 hash of its value
+   * Throws when the database is unreachable, so callers can tell "unknown key" from "cannot check"
+   */
+  public async findActiveApiKey(keyHash: string): Promise<IApiKey | null> {
+    if (!this.isConnected()) {
+      throw new Error('MongoDB not connected');
+    }
+
+    return await ApiKey.findOneAndUpdate(
+      { keyHash, active: true },
+      { $set: { lastUsedAt: new Date() } },
+      { new: true }
+    );
+  }
+
+  /**
+   * Store a new API key (the caller hashes it; the plaintext never reaches the database)
+   */
+  public async createApiKey(data: Pick<IApiKey, 'keyHash' | 'keyPrefix' | 'name' | 'tenant' | 'rateLimit' | 'dailyTokenBudget' | 'spendCaps'>): Promise<IApiKey> {
+    if (!this.isConnected()) {
+      throw new Error('MongoDB not connected');
+    }
+
+    const apiKey = await new ApiKey(data).save();
+    logger.info('API key created', { id: apiKey.id, tenant: data.tenant, prefix: data.keyPrefix });
+    return apiKey;
+  }
+
+  /**
+   * Add to a tenant's usage for a UTC day
+   */
+  public async recordTenantUsage(tenant: string, date: string, tokensUsed: number, costUsd: number): Promise<void> {
+    if (!this.isConnected()) {
+      return;
+    }
+
+    try {
+      await TenantUsage.updateOne(
+        { tenant, date },
+        {
+          $inc: { tokensUsed, costUsd, toolCalls: 1 },
+          $setOnInsert: {
+            expiresAt: new Date(Date.parse(date) + SERVER_CONSTANTS.API_KEYS.USAGE_RETENTION_DAYS * 24 * 60 * 60 * 1000)
+          }
+        },
+        { upsert: true }
+      );
+    } catch (error) {
+      logger.error('Failed to record tenant usage in MongoDB:', error);
+    }
+  }
+
+  /**
+   * AI tokens a tenant has spent on a UTC day, and its USD spend that day and month
+   */
+  public async getTenantUsage(tenant: string, date: string): Promise<SpendTotals & { tokensUsed: number }> {
+    if (!this.isConnected()) {
+      throw new Error('MongoDB not connected');
+    }
+
+    // Dates are YYYY-MM-DD strings, so the month's documents sort between its first day and today
+    const days = await TenantUsage.find({ tenant, date: { $gte: `${date.slice(0, 7)}-01`, $lte: date } })
+      .select('date tokensUsed costUsd')
+      .lean();
+    const today = days.find(day => day.date === date);
+
+    return {
+      tokensUsed: today?.tokensUsed ?? 0,
+      dailyUsd: today?.costUsd ?? 0,
+      monthlyUsd: roundCost(days.reduce((sum, day) => sum + (day.costUsd ?? 0), 0))
+    };
+  }
+
+  /**
+   * USD spend per tenant for a UTC day and its month
+   */
+  public async getTenantSpend(date: string): Promise<Record<string, SpendTotals>> {
+    if (!this.isConnected()) {
+      throw new Error('MongoDB not connected');
+    }
+
+    const totals = await TenantUsage.aggregate([
+      { $match: { date: { $gte: `${date.slice(0, 7)}-01`, $lte: date } } },
+      {
+        $group: {
+          _id: '$tenant',
+          dailyUsd: { $sum: { $cond: [{ $eq: ['$date', date] }, '$costUsd', 0] } },
+          monthlyUsd: { $sum: '$costUsd' }
+        }
+      }
+    ]);
+
+    return Object.fromEntries(totals.map(total => [total._id, { dailyUsd: roundCost(total.dailyUsd), monthlyUsd: roundCost(total.monthlyUsd) }]));
+  }
+
+  /**
+   * USD spend per AI provider for the UTC day and month containing `now`, from the hourly SystemMetrics documents
+   */
+  public async getProviderSpend(now = new Date()): Promise<Record<string, SpendTotals>> {
+    if (!this.isConnected()) {
+      throw new Error('MongoDB not connected');
+    }
+
+    const dayStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+    const totals = await SystemMetrics.aggregate([
+      { $match: { period: 'hour', timestamp: { $gte: monthStart } } },
+      { $project: { timestamp: 1, providers: { $objectToArray: '$metrics.aiProviderStats' } } },
+      { $unwind: '$providers' },
+      {
+        $group: {
+          _id: '$providers.k',
+          dailyUsd: { $sum: { $cond: [{ $gte: ['$timestamp', dayStart] }, '$providers.v.costUsd', 0] } },
+          monthlyUsd: { $sum: '$providers.v.costUsd' }
+        }
+      }
+    ]);
+
+    return Object.fromEntries(totals.map(total => [total._id, { dailyUsd: roundCost(total.dailyUsd), monthlyUsd: roundCost(total.monthlyUsd) }]));
+  }
+
+  /**
+   * Store ingested news; an article already stored under the same key only has its lastSeenAt moved
+   * Articles older than the retention period are skipped, the rest expire retentionDays after publication
+   * @returns Number of articles not stored before
+   */
+  public async storeNewsArticles(articles: Array<{ key: string; item: NewsItem }>): Promise<number> {
+    if (!this.isConnected()) {
+      throw new Error('MongoDB not connected');
+    }
+
+    const retentionMs = config.news.ingestion.retentionDays * 24 * 60 * 60 * 1000;
+    const now = new Date();
+    const operations = articles
+      .filter(({ item }) => item.publishedAt.getTime() + retentionMs > now.getTime())
+      .map(({ key, item }) => ({
+        updateOne: {
+          filter: { key },
+          update: {
+            $set: { lastSeenAt: now },
+            $setOnInsert: {
+              newsId: item.id,
+              title: item.title,
+              content: item.content,
+              source: item.source,
+              url: item.url,
+              publishedAt: item.publishedAt,
+              category: item.category,
+              relevanceScore: item.relevanceScore,
+              ...(item.sourceId && { sourceId: item.sourceId }),
+              ...(item.credibility !== undefined && { credibility: item.credibility }),
+              ...(item.language && { language: item.language }),
+              ...(item.region && { region: item.region }),
+              firstSeenAt: now,
+              expiresAt: new Date(item.publishedAt.getTime() + retentionMs)
+            }
+          },
+          upsert: true
+        }
+      }));
+
+    if (operations.length === 0) {
+      return 0;
+    }
+
+    const result = await NewsArticle.bulkWrite(operations, { ordered: false });
+    return result.upsertedCount;
+  }
+
+  /**
+   * Stored news published since a time, newest first
+   * @param categories - Article categories to include; all when omitted
+   */
+  public async findNewsArticles(query: { since: Date; limit: number; categories?: string[] }): Promise<NewsItem[]> {
+    if (!this.isConnected()) {
+      throw new Error('MongoDB not connected');
+    }
+
+    const articles = await NewsArticle.find({
+      publishedAt: { $gte: query.since },
+      ...(query.categories && { category: { $in: query.categories } })
+    })
+      .sort({ publishedAt: -1 })
+      .limit(query.limit)
+      .lean();
+
+    return articles.map(article => ({
+      id: article.newsId,
+      title: article.title,
+      content: article.content,
+      source: article.source,
+      url: article.url,
+      publishedAt: article.publishedAt,
+      category: article.category,
+      relevanceScore: article.relevanceScore,
+      ...(article.sourceId && { sourceId: article.sourceId }),
+      ...(article.credibility !== undefined && article.credibility !== null && { credibility: article.credibility }),
+      ...(article.language && { language: article.language }),
+      ...(article.region && { region: article.region })
+    }));
+  }
+
+  /**
+   * Add one AI provider call to the SystemMetrics document of the current hour
+   * @param usage - The call's tokens and cost; null when it failed before spending any
+   * @param failed - Whether the call failed
+   */
+  public async recordProviderUsage(provider: string, usage: TokenUsage | null, failed = usage === null): Promise<void> {
+    if (!this.isConnected()) {
+      return;
+    }
+
+    const hour = new Date();
+    hour.setUTCMinutes(0, 0, 0);
+    const stats = `metrics.aiProviderStats.${provider}`;
+
+    try {
+      // Defaults stay off: inserting an empty aiProviderStats would conflict with the $inc below
+      await SystemMetrics.updateOne(
+        { period: 'hour', timestamp: hour },
+        {
+          $inc: {
+            [`${stats}.requests`]: 1,
+            [`${stats}.errors`]: failed ? 1 : 0,
+            [`${stats}.promptTokens`]: usage?.promptTokens ?? 0,
+            [`${stats}.completionTokens`]: usage?.completionTokens ?? 0,
+            [`${stats}.tokens`]: usage?.totalTokens ?? 0,
+            [`${stats}.costUsd`]: usage?.costUsd ?? 0,
+            'metrics.tokensUsed': usage?.totalTokens ?? 0,
+            'metrics.costUsd': usage?.costUsd ?? 0
+          }
+        },
+        { upsert: true, setDefaultsOnInsert: false }
+      );
+    } catch (error) {
+      logger.error('Failed to record AI provider usage in MongoDB:', error);
+    }
+  }
+
   /**
    * Get system analytics and metrics
    */
@@ -388,27 +843,77 @@ export class MongoDBService {
         }
       ]);
 
-      // Get analysis metrics
-      const analysisMetrics = await AnalysisResult.aggregate([
-        { $match: { 'metadata.timestamp': { $gte: startDate } } },
+      // AI provider usage, from the hourly documents that cover the period
+      const firstHour = new Date(startDate);
+      firstHour.setUTCMinutes(0, 0, 0);
+      const providerMetrics = await SystemMetrics.aggregate([
+        { $match: { period: 'hour', timestamp: { $gte: firstHour } } },
+        { $project: { providers: { $objectToArray: '$metrics.aiProviderStats' } } },
+        { $unwind: '$providers' },
         {
           $group: {
-            _id: '$metadata.provider',
+            _id: '$providers.k',
+            requests: { $sum: '$providers.v.requests' },
+            errors: { $sum: '$providers.v.errors' },
+            promptTokens: { $sum: '$providers.v.promptTokens' },
+            completionTokens: { $sum: '$providers.v.completionTokens' },
+            tokens: { $sum: '$providers.v.tokens' },
+            costUsd: { $sum: '$providers.v.costUsd' }
+          }
+        }
+      ]);
+
+      // Usage per tenant, from sessions made with an API key
+      const tenantMetrics = await UserSession.aggregate([
+        { $match: { lastActivity: { $gte: startDate }, tenant: { $exists: true } } },
+        {
+          $project: {
+            tenant: 1,
+            apiKeyId: 1,
+            requests: {
+              $filter: {
+                input: '$requests',
+                cond: { $gte: ['$$this.timestamp', startDate] }
+              }
+            }
+          }
+        },
+        { $unwind: '$requests' },
+        {
+          $group: {
+            _id: '$tenant',
             requests: { $sum: 1 },
-            tokens: { $sum: '$metadata.tokensUsed' },
-            errors: { $sum: { $cond: [{ $eq: ['$result.isError', true] }, 1, 0] } }
+            tokens: { $sum: { $ifNull: ['$requests.tokensUsed', 0] } },
+            costUsd: { $sum: { $ifNull: ['$requests.costUsd', 0] } },
+            errors: { $sum: { $cond: ['$requests.success', 0, 1] } },
+            apiKeys: { $addToSet: '$apiKeyId' }
           }
         }
       ]);
 
-      const aiProviderStats: Record<string, any> = {};
-      analysisMetrics.forEach(stat => {
+      const tenantStats: Record<string, any> = {};
+      tenantMetrics.forEach(stat => {
+        tenantStats[stat._id] = {
+          requests: stat.requests,
+          tokens: stat.tokens,
+          costUsd: roundCost(stat.costUsd),
+          errors: stat.errors,
+          apiKeys: stat.apiKeys.length
+        };
+      });
+
+      const aiProviderStats: Record<string, AIProviderStats> = {};
+      providerMetrics.forEach(stat => {
         aiProviderStats[stat._id] = {
           requests: stat.requests,
-          tokens: stat.tokens || 0,
-          errors: stat.errors
+          errors: stat.errors,
+          promptTokens: stat.promptTokens,
+          completionTokens: stat.completionTokens,
+          tokens: stat.tokens,
+          costUsd: roundCost(stat.costUsd)
         };
       });
+      const providerTotals = Object.values(aiProviderStats);
 
       return {
         period,
@@ -419,8 +924,10 @@ export class MongoDBService {
           failedRequests: sessionMetrics?.failedRequests || 0,
           averageProcessingTime: sessionMetrics?.averageProcessingTime || 0,
           uniqueUsers: sessionMetrics?.uniqueUsers || 0,
-          tokensUsed: Object.values(aiProviderStats).reduce((sum: number, stat: any) => sum + stat.tokens, 0),
-          aiProviderStats
+          tokensUsed: providerTotals.reduce((sum, stat) => sum + stat.tokens, 0),
+          costUsd: roundCost(providerTotals.reduce((sum, stat) => sum + stat.costUsd, 0)),
+          aiProviderStats,
+          tenantStats
         }
       };
     } catch (error) {
@@ -438,7 +945,7 @@ export class MongoDBService {
     }
 
     try {
-      // MongoDB TTL index handles AnalysisResult cleanup automatically
+      // MongoDB TTL indexes handle AnalysisResult and NewsArticle cleanup automatically
       
       // Clean up old user sessions (older than 30 days)
       const thirtyDaysAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
@@ -0,0 +1,20 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+
+process.env.OPENAI_API_KEY ??= 'test';
+const { generateNewsId } = await import('./news-adapters.js');
+
+describe('generateNewsId', () => {
+  it('gives links on the same host different ids', () => {
+    const first = generateNewsId('https://www.cnbc.com/2024/05/01/fed-holds-rates.html');
+    const second = generateNewsId('https://www.cnbc.com/2024/05/02/oil-prices-fall.html');
+
+    assert.notEqual(first, second);
+    assert.equal(first.length, 16);
+  });
+
+  it('gives the same link the same id', () => {
+    const url = 'https://www.bbc.co.uk/news/business-68912345';
+    assert.equal(generateNewsId(url), generateNewsId(url));
+  });
+});
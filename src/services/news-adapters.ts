@@ -0,0 +1,471 @@
+import axios from 'axios';
+import { createHash } from 'crypto';
+import RSSParser from 'rss-parser';
+import { config } from '../config.js';
+import { secureLogger } from '../utils/logger.js';
+import { SERVER_CONSTANTS } from '../constants/server-constants.js';
+import { NewsSourceDefinition, NewsSourceJsonMapping } from './news-sources.js';
+import {
+  NewsItem,
+  NewsAPIResponse,
+  GNewsResponse,
+  CurrentsResponse
+} from '../types/index.js';
+
+/**
+ * News Source Adapters
+ * One adapter per way of reading news:
+ * - news APIs (NewsAPI, GNews, Currents) - keyed, quota limited, searched per news category
+ * - registry sources - RSS/Atom feeds and JSON endpoints mapped to NewsItem through field paths,
+ *   so a new JSON vendor only needs a registry entry
+ *
+ * Adapters throw when the source cannot be read; callers decide how a failure counts
+ */
+
+export interface NewsSourceAdapter {
+  /** Name used in logs and quota reports */
+  readonly name: string;
+  /**
+   * Latest items for a news category
+   * @param category - Requested news category; registry sources serve their own category whatever is asked
+   * @param maxItems - Upper bound on the items returned; registry sources return everything they read without it
+   */
+  fetchNews(category: string, maxItems?: number): Promise<NewsItem[]>;
+}
+
+export interface NewsApiQuota {
+  remaining: number;
+  resetTime: Date | null;
+}
+
+const http = axios.create({
+  timeout: 15000
+});
+
+const rssParser = new RSSParser({
+  timeout: 10000,
+  requestOptions: {
+    headers: {
+      'User-Agent': SERVER_CONSTANTS.NEWS_SOURCES.USER_AGENT
+    }
+  }
+});
+
+/**
+ * Stable id of a news item, derived from its whole url (impact analyses refer to items by it)
+ */
+export function generateNewsId(url: string): string {
+  return createHash('sha256').update(url).digest('base64url').slice(0, 16);
+}
+
+/**
+ * Relevance of a news API article - share of market keywords present
+ */
+function apiRelevanceScore(title: string, content: string): number {
+  const highValueKeywords = [
+    'market', 'stock', 'trading', 'investment', 'financial',
+    'economic', 'policy', 'rate', 'inflation', 'gdp',
+    'crypto', 'bitcoin', 'blockchain', 'forex', 'currency'
+  ];
+
+  const text = `${title} ${content}`.toLowerCase();
+  const matches = highValueKeywords.filter(keyword => text.includes(keyword));
+
+  return Math.min(1.0, matches.length / 5); // Normalize to 0-1
+}
+
+/**
+ * Relevance of a feed item - keywords score more in the title, breaking news terms count
+ */
+function feedRelevanceScore(title: string, content: string): number {
+  const highValueKeywords = [
+    'breaking', 'urgent', 'alert', 'market', 'stock', 'trading',
+    'investment', 'financial', 'economic', 'policy', 'rate',
+    'inflation', 'gdp', 'crypto', 'bitcoin', 'blockchain'
+  ];
+
+  const text = `${title} ${content}`.toLowerCase();
+  let score = 0;
+
+  highValueKeywords.forEach(keyword => {
+    if (text.includes(keyword)) {
+      score += 0.2;
+      if (title.toLowerCase().includes(keyword)) {
+        score += 0.1; // Extra weight for keywords in title
+      }
+    }
+  });
+
+  return Math.min(1.0, score);
+}
+
+function hostnameOf(url: string): string | null {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Base for keyed news APIs: skips the call when the API is not configured or its daily quota is used up
+ */
+export abstract class NewsApiAdapter implements NewsSourceAdapter {
+  private usage: { count: number; resetTime: Date } | null = null;
+
+  constructor(
+    readonly name: string,
+    private readonly settings: { key?: string | undefined; enabled: boolean },
+    private readonly dailyLimit: number
+  ) {}
+
+  isEnabled(): boolean {
+    return this.settings.enabled && !!this.settings.key;
+  }
+
+  async fetchNews(category: string, maxItems: number = 10): Promise<NewsItem[]> {
+    const { key, enabled } = this.settings;
+    if (!enabled || !key) {
+      return [];
+    }
+
+    if (!this.hasQuota()) {
+      secureLogger.warn(`${this.name} quota exhausted`);
+      return [];
+    }
+
+    const items = await this.request(key, category, maxItems);
+    this.countRequest();
+    return items;
+  }
+
+  getQuotaStatus(): NewsApiQuota {
+    return {
+      remaining: this.dailyLimit - (this.currentUsage()?.count ?? 0),
+      resetTime: this.currentUsage()?.resetTime ?? null
+    };
+  }
+
+  protected abstract request(key: string, category: string, maxItems: number): Promise<NewsItem[]>;
+
+  protected toNewsItem(
+    article: { title: string; description?: string | null; url: string; publishedAt: string; source: string },
+    category: string
+  ): NewsItem {
+    return {
+      id: generateNewsId(article.url),
+      title: article.title,
+      content: article.description || '',
+      source: article.source,
+      url: article.url,
+      publishedAt: new Date(article.publishedAt),
+      category,
+      relevanceScore: apiRelevanceScore(article.title, article.description || '')
+    };
+  }
+
+  private hasQuota(): boolean {
+    const usage = this.currentUsage();
+    return !usage || usage.count < this.dailyLimit;
+  }
+
+  /**
+   * Today's usage; null before the first call and after the quota resets
+   */
+  private currentUsage(): { count: number; resetTime: Date } | null {
+    if (this.usage && new Date() > this.usage.resetTime) {
+      this.usage = null;
+    }
+    return this.usage;
+  }
+
+  private countRequest(): void {
+    const usage = this.currentUsage();
+    if (usage) {
+      usage.count++;
+      return;
+    }
+
+    // Quota resets at the next midnight
+    const resetTime = new Date();
+    resetTime.setDate(resetTime.getDate() + 1);
+    resetTime.setHours(0, 0, 0, 0);
+    this.usage = { count: 1, resetTime };
+  }
+}
+
+/**
+ * NewsAPI.org top headlines
+ */
+export class NewsAPIAdapter extends NewsApiAdapter {
+  constructor() {
+    super('newsapi', config.newsApis.newsapi, SERVER_CONSTANTS.NEWS_SOURCES.API_DAILY_QUOTAS.newsapi);
+  }
+
+  protected async request(key: string, category: string, maxItems: number): Promise<NewsItem[]> {
+    const categoryMap: Record<string, string> = {
+      'all': 'general',
+      'stocks': 'business',
+      'crypto': 'technology',
+      'forex': 'business',
+      'commodities': 'business',
+      'politics': 'politics',
+      'economics': 'business'
+    };
+
+    const response = await http.get<NewsAPIResponse>('https://newsapi.org/v2/top-headlines', {
+      params: {
+        apiKey: key,
+        category: categoryMap[category] || 'business',
+        language: 'en',
+        pageSize: Math.min(maxItems, 20)
+      }
+    });
+
+    return response.data.articles.map(article => this.toNewsItem({
+      ...article,
+      description: article.description || article.content,
+      source: article.source.name
+    }, category));
+  }
+}
+
+/**
+ * GNews.io keyword search
+ */
+export class GNewsAdapter extends NewsApiAdapter {
+  constructor() {
+    super('gnews', config.newsApis.gnews, SERVER_CONSTANTS.NEWS_SOURCES.API_DAILY_QUOTAS.gnews);
+  }
+
+  protected async request(key: string, category: string, maxItems: number): Promise<NewsItem[]> {
+    const categoryKeywords: Record<string, string> = {
+      'all': 'financial OR economic OR market',
+      'stocks': 'stock market OR equity OR shares',
+      'crypto': 'cryptocurrency OR bitcoin OR blockchain',
+      'forex': 'forex OR currency OR exchange rate',
+      'commodities': 'commodity OR oil OR gold',
+      'politics': 'politics OR government OR policy',
+      'economics': 'economy OR GDP OR inflation'
+    };
+
+    const response = await http.get<GNewsResponse>('https://gnews.io/api/v4/search', {
+      params: {
+        token: key,
+        q: categoryKeywords[category] || categoryKeywords.all,
+        lang: 'en',
+        max: Math.min(maxItems, 10),
+        sortby: 'publishedAt'
+      }
+    });
+
+    return response.data.articles.map(article => this.toNewsItem({
+      ...article,
+      source: article.source.name
+    }, category));
+  }
+}
+
+/**
+ * Currents API search - a Currents category where one fits, keywords otherwise
+ */
+export class CurrentsAdapter extends NewsApiAdapter {
+  constructor() {
+    super('currents', config.newsApis.currents, SERVER_CONSTANTS.NEWS_SOURCES.API_DAILY_QUOTAS.currents);
+  }
+
+  protected async request(key: string, category: string, maxItems: number): Promise<NewsItem[]> {
+    const categoryParams: Record<string, { category?: string; keywords?: string }> = {
+      'all': { category: 'finance' },
+      'stocks': { category: 'finance', keywords: 'stocks' },
+      'crypto': { keywords: 'cryptocurrency' },
+      'forex': { keywords: 'forex' },
+      'commodities': { keywords: 'commodities' },
+      'politics': { category: 'politics' },
+      'economics': { category: 'business', keywords: 'economy' }
+    };
+
+    const response = await http.get<CurrentsResponse>('https://api.currentsapi.services/v1/search', {
+      params: {
+        apiKey: key,
+        language: 'en',
+        page_size: Math.min(maxItems, 20),
+        ...(categoryParams[category] ?? categoryParams.all)
+      }
+    });
+
+    // Currents names no publisher; the article's host stands in for it
+    return response.data.news.map(article => this.toNewsItem({
+      ...article,
+      publishedAt: article.published,
+      source: hostnameOf(article.url) ?? 'Currents'
+    }, category));
+  }
+}
+
+/**
+ * An item of a registry source, carrying the source's metadata
+ */
+function sourceItem(
+  source: NewsSourceDefinition,
+  article: { title: string; content: string; url: string; publishedAt: Date; publisher?: string | undefined }
+): NewsItem {
+  return {
+    id: generateNewsId(article.url),
+    title: article.title,
+    content: article.content,
+    source: article.publisher ?? source.name,
+    url: article.url,
+    publishedAt: article.publishedAt,
+    category: source.category,
+    relevanceScore: feedRelevanceScore(article.title, article.content),
+    sourceId: source.id,
+    credibility: source.credibility,
+    language: source.language,
+    region: source.region
+  };
+}
+
+/**
+ * A registry source's RSS or Atom feed
+ */
+export class RssNewsAdapter implements NewsSourceAdapter {
+  constructor(private readonly source: NewsSourceDefinition) {}
+
+  get name(): string {
+    return this.source.name;
+  }
+
+  async fetchNews(_category: string, maxItems?: number): Promise<NewsItem[]> {
+    const parsedFeed = await rssParser.parseURL(this.source.url);
+
+    return parsedFeed.items.slice(0, maxItems).map(item => sourceItem(this.source, {
+      title: item.title || 'No Title',
+      content: item.contentSnippet || item.content || item.summary || '',
+      url: item.link || '',
+      publishedAt: new Date(item.pubDate || Date.now())
+    }));
+  }
+}
+
+/**
+ * Value at a dot-separated path (array indexes allowed); the value itself for an empty path
+ */
+function readPath(value: unknown, path: string): unknown {
+  if (!path) return value;
+
+  let current = value;
+  for (const segment of path.split('.')) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+function readText(value: unknown, path: string | undefined): string | undefined {
+  if (!path) return undefined;
+
+  const field = readPath(value, path);
+  if (typeof field === 'string') return field.trim() || undefined;
+  if (typeof field === 'number') return String(field);
+  return undefined;
+}
+
+/**
+ * Publication time from a date string or a Unix timestamp (seconds or milliseconds); now when unreadable
+ */
+function readDate(value: unknown, path: string | undefined): Date {
+  let field = path ? readPath(value, path) : undefined;
+  if (typeof field === 'string' && /^\d+$/.test(field.trim())) {
+    field = Number(field);
+  }
+
+  let date: Date | null = null;
+  if (typeof field === 'number') {
+    date = new Date(field < 1e12 ? field * 1000 : field);
+  } else if (typeof field === 'string' && field.trim()) {
+    date = new Date(field);
+  }
+
+  return date && !isNaN(date.getTime()) ? date : new Date();
+}
+
+/**
+ * Replace ${VAR} with the environment variable, so credentials stay out of the sources file
+ * @throws Error when a referenced variable is not set
+ */
+function interpolateEnv(text: string): string {
+  return text.replace(/\$\{([A-Za-z_][A-Za-z0-9_]*)\}/g, (_match, name: string) => {
+    const value = process.env[name];
+    if (value === undefined) {
+      throw new Error(`Environment variable ${name} is not set`);
+    }
+    return value;
+  });
+}
+
+/**
+ * A registry source's JSON endpoint, read through its field mapping
+ * Articles without a title or url are skipped
+ */
+export class JsonNewsAdapter implements NewsSourceAdapter {
+  constructor(
+    private readonly source: NewsSourceDefinition,
+    private readonly mapping: NewsSourceJsonMapping
+  ) {}
+
+  get name(): string {
+    return this.source.name;
+  }
+
+  async fetchNews(_category: string, maxItems?: number): Promise<NewsItem[]> {
+    const headers = Object.fromEntries(
+      Object.entries(this.mapping.headers).map(([name, value]) => [name, interpolateEnv(value)])
+    );
+    const response = await http.get<unknown>(interpolateEnv(this.source.url), { headers });
+
+    const articles = readPath(response.data, this.mapping.items_path);
+    if (!Array.isArray(articles)) {
+      throw new Error(`No article array at '${this.mapping.items_path || '(response body)'}'`);
+    }
+
+    const { fields } = this.mapping;
+    const items: NewsItem[] = [];
+    for (const article of articles) {
+      const title = readText(article, fields.title);
+      const url = readText(article, fields.url);
+      if (!title || !url) continue;
+
+      items.push(sourceItem(this.source, {
+        title,
+        url,
+        content: readText(article, fields.content) ?? '',
+        publishedAt: readDate(article, fields.published_at),
+        publisher: readText(article, fields.source)
+      }));
+    }
+
+    if (articles.length > 0 && items.length === 0) {
+      secureLogger.warn(`JSON news source ${this.source.name} returned articles but none had a title and url at the mapped paths`, {
+        sourceId: this.source.id
+      });
+    }
+
+    return items.slice(0, maxItems);
+  }
+}
+
+/**
+ * Adapter reading a registry source
+ */
+export function createSourceAdapter(source: NewsSourceDefinition): NewsSourceAdapter {
+  if (source.type === 'json') {
+    if (!source.json) {
+      throw new Error(`News source '${source.id}' has no json field mapping`);
+    }
+    return new JsonNewsAdapter(source, source.json);
+  }
+  return new RssNewsAdapter(source);
+}
@@ -0,0 +1,261 @@
+import { config } from '../config.js';
+import { secureLogger } from '../utils/logger.js';
+import { SERVER_CONSTANTS } from '../constants/server-constants.js';
+import { NewsItem } from '../types/index.js';
+import { mongoService } from './mongodb.js';
+import { redisService } from './redis.js';
+import { newsSourceRegistry } from './news-sources.js';
+import { newsFetcherService } from './news-fetcher.js';
+
+/**
+ * News Ingestion Worker
+ * Polls every enabled registry source on its poll interval and the news APIs every
+ * NEWS_API_POLL_INTERVAL_MINUTES, normalizes the items and stores each article once (by canonical url)
+ * in MongoDB, where they expire NEWS_RETENTION_DAYS after publication. After the first round the news fetcher
+ * answers from the store instead of the network
+ *
+ * With Redis, replicas claim each poll so a source is fetched by one replica per interval; without it
+ * every replica polls and the store's url key absorbs the repeats. Reports of one story from different
+ * sources are all kept; the fetcher groups them into stories when it reads the store
+ */
+
+export interface NewsIngestionStatus {
+  running: boolean;
+  rounds: number;
+  lastRoundAt: string | null;
+  /** Articles new to the store in the last round */
+  lastRoundStored: number;
+  totalStored: number;
+  lastError: string | null;
+}
+
+// Query parameters that only track campaigns; the same article shared twice differs in them alone
+const TRACKING_PARAMS = /^(utm_\w+|fbclid|gclid|mc_cid|mc_eid|ocid|cmpid)$/i;
+
+function canonicalUrl(url: string): string | null {
+  try {
+    const parsed = new URL(url.trim());
+    if (parsed.protocol !== 'http:' && parsed.protocol !== 'https:') {
+      return null;
+    }
+    parsed.hash = '';
+    for (const param of Array.from(parsed.searchParams.keys())) {
+      if (TRACKING_PARAMS.test(param)) {
+        parsed.searchParams.delete(param);
+      }
+    }
+    return parsed.toString();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Plain text: markup removed, common entities decoded, whitespace collapsed
+ */
+function cleanText(text: string, maxChars?: number): string {
+  const plain = text
+    .replace(/<[^>]*>/g, ' ')
+    .replace(/&nbsp;/g, ' ')
+    .replace(/&amp;/g, '&')
+    .replace(/&quot;/g, '"')
+    .replace(/&#39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return maxChars && plain.length > maxChars ? `${plain.slice(0, maxChars - 1)}…` : plain;
+}
+
+/**
+ * An item ready to store, or null when it has no usable title or url
+ * Publication times in the future (clock skew, bad feeds) are taken as now
+ */
+export function normalizeNewsItem(item: NewsItem, now = Date.now()): NewsItem | null {
+  const title = cleanText(item.title);
+  const url = canonicalUrl(item.url);
+  if (!title || !url) {
+    return null;
+  }
+
+  const published = item.publishedAt.getTime();
+  return {
+    ...item,
+    title,
+    url,
+    content: cleanText(item.content, SERVER_CONSTANTS.NEWS_INGESTION.MAX_CONTENT_CHARS),
+    source: cleanText(item.source) || 'Unknown',
+    publishedAt: new Date(isNaN(published) || published > now ? now : published)
+  };
+}
+
+export class NewsIngestionWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private round: Promise<void> | null = null;
+  /** When each source (`source:<id>`) and news API (`api:<name>`) was last polled or claimed elsewhere */
+  private readonly lastPolls = new Map<string, number>();
+  private status: NewsIngestionStatus = {
+    running: false,
+    rounds: 0,
+    lastRoundAt: null,
+    lastRoundStored: 0,
+    totalStored: 0,
+    lastError: null
+  };
+
+  /**
+   * Start polling; does nothing when ingestion is disabled or MongoDB is not connected
+   */
+  start(): void {
+    if (this.timer) return;
+
+    if (!config.news.ingestion.enabled) {
+      secureLogger.info('News ingestion disabled - news is fetched per request');
+      return;
+    }
+    if (!mongoService.isConnected()) {
+      secureLogger.info('News ingestion needs MongoDB - news is fetched per request');
+      return;
+    }
+
+    this.status.running = true;
+    this.runOnce().catch(() => undefined);
+    this.timer = setInterval(() => {
+      this.runOnce().catch(() => undefined);
+    }, SERVER_CONSTANTS.NEWS_INGESTION.TICK_MS);
+    this.timer.unref();
+
+    secureLogger.info('News ingestion started', {
+      sources: newsSourceRegistry.list().filter(source => source.enabled).length,
+      apiPollIntervalMinutes: config.news.ingestion.apiPollIntervalMinutes,
+      retentionDays: config.news.ingestion.retentionDays
+    });
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+    this.status.running = false;
+  }
+
+  /**
+   * Poll whatever is due and store it; joins the round in progress if there is one
+   */
+  runOnce(): Promise<void> {
+    if (!this.round) {
+      this.round = this.ingestDue().finally(() => {
+        this.round = null;
+      });
+    }
+    return this.round;
+  }
+
+  getStatus(): NewsIngestionStatus {
+    return { ...this.status };
+  }
+
+  private async ingestDue(): Promise<void> {
+    const apiIntervalMs = config.news.ingestion.apiPollIntervalMinutes * 60 * 1000;
+
+    try {
+      const batches = await Promise.all([
+        ...newsSourceRegistry.list()
+          .filter(source => source.enabled)
+          .map(source => this.pollIfDue(`source:${source.id}`, source.poll_interval_minutes * 60 * 1000, () =>
+            newsFetcherService.pollSource(source)
+          )),
+        ...newsFetcherService.getNewsApis()
+          .filter(api => api.isEnabled())
+          .map(api => this.pollIfDue(`api:${api.name}`, apiIntervalMs, async () => {
+            try {
+              return await api.fetchNews('all', SERVER_CONSTANTS.NEWS_INGESTION.API_PAGE_SIZE);
+            } catch (error: any) {
+              secureLogger.warn(`${api.name} poll failed`, { error: error.message });
+              return [];
+            }
+          }))
+      ]);
+
+      const stored = await this.store(batches.flat());
+      this.status = {
+        ...this.status,
+        rounds: this.status.rounds + 1,
+        lastRoundAt: new Date().toISOString(),
+        lastRoundStored: stored,
+        totalStored: this.status.totalStored + stored,
+        lastError: null
+      };
+
+      // The store now holds at least what this round could get
+      newsFetcherService.useArticleStore();
+    } catch (error) {
+      this.status.lastError = error instanceof Error ? error.message : String(error);
+      secureLogger.warn('News ingestion round failed', { error: this.status.lastError });
+      throw error;
+    }
+  }
+
+  /**
+   * Items of a source once its interval has passed and this replica holds the poll; empty otherwise
+   */
+  private async pollIfDue(key: string, intervalMs: number, poll: () => Promise<NewsItem[]>): Promise<NewsItem[]> {
+    const lastPoll = this.lastPolls.get(key);
+    if (lastPoll !== undefined && Date.now() - lastPoll < intervalMs) {
+      return [];
+    }
+
+    let claimed = true;
+    try {
+      claimed = await redisService.claimSlot(`news-poll:${key}`, intervalMs);
+    } catch {
+      // Without Redis each replica polls on its own schedule
+    }
+
+    if (!claimed) {
+      // Another replica polls it this interval
+      this.lastPolls.set(key, Date.now());
+      return [];
+    }
+
+    const items = await poll();
+    this.lastPolls.set(key, Date.now());
+    return items;
+  }
+
+  /**
+   * Normalize, drop repeats within the batch and store
+   * @returns Number of articles new to the store
+   */
+  private async store(items: NewsItem[]): Promise<number> {
+    const now = Date.now();
+    const batch = new Map<string, NewsItem>();
+    for (const item of items) {
+      const normalized = normalizeNewsItem(item, now);
+      if (!normalized) continue;
+
+      if (!batch.has(normalized.url)) {
+        batch.set(normalized.url, normalized);
+      }
+    }
+
+    if (batch.size === 0) {
+      return 0;
+    }
+
+    const stored = await mongoService.storeNewsArticles(
+      Array.from(batch.entries()).map(([key, item]) => ({ key, item }))
+    );
+
+    if (stored > 0) {
+      secureLogger.info('News ingested', { polled: items.length, unique: batch.size, stored });
+      newsFetcherService.notifyIngested(new Set(Array.from(batch.values()).map(item => item.category)));
+    }
+
+    return stored;
+  }
+}
+
+// Export singleton instance
+export const newsIngestionWorker = new NewsIngestionWorker();
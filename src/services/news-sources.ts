@@ -0,0 +1,325 @@
+import fs from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { parse as parseYaml } from 'yaml';
+import { config } from '../config.js';
+import { secureLogger } from '../utils/logger.js';
+import { SERVER_CONSTANTS } from '../constants/server-constants.js';
+
+/**
+ * News Source Registry
+ * The feeds the news fetcher polls, loaded from a YAML/JSON file at startup (built-in defaults otherwise)
+ * and editable at runtime through the admin API. Runtime changes last until restart
+ *
+ * Each source is polled at most once per poll interval; its health (successes, errors, latency)
+ * is tracked from the polls. Sources are RSS/Atom feeds or JSON endpoints read through a field mapping
+ */
+
+const SOURCE_CATEGORIES = ['business', 'stocks', 'crypto', 'forex', 'commodities', 'politics', 'economics'] as const;
+
+// Where a JSON source's article fields sit in its response. Paths are dot-separated and may index
+// arrays (e.g. media.0.url)
+const jsonMappingSchema = z.object({
+  // Path to the array of articles; empty when the response body is the array
+  items_path: z.string().default(''),
+  fields: z.object({
+    title: z.string().min(1),
+    url: z.string().min(1),
+    content: z.string().min(1).optional(),
+    published_at: z.string().min(1).optional(),
+    // Publisher name; the source's name when absent
+    source: z.string().min(1).optional()
+  }).strict(),
+  // Request headers; ${VAR} in a value or in the url is read from the environment
+  headers: z.record(z.string()).default({})
+}).strict();
+
+const newsSourceFields = z.object({
+  id: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, 'Id must be lowercase letters, digits, "-" or "_" (e.g. ecb-press)'),
+  name: z.string().min(1).max(100),
+  type: z.enum(['rss', 'json']).default('rss'),
+  url: z.string().url(),
+  category: z.enum(SOURCE_CATEGORIES),
+  // ISO 639-1 code of the articles' language
+  language: z.string().regex(/^[a-z]{2}$/, 'Language must be an ISO 639-1 code (e.g. en)').default('en'),
+  // Free-form market region, e.g. global, us, gulf, asia
+  region: z.string().min(1).max(40).transform(region => region.toLowerCase()).default('global'),
+  // 0-1; weighs the source's items when news is ranked
+  credibility: z.number().min(0).max(1).default(SERVER_CONSTANTS.NEWS_SOURCES.DEFAULT_CREDIBILITY),
+  poll_interval_minutes: z.number().int().min(1).max(24 * 60).default(SERVER_CONSTANTS.NEWS_SOURCES.DEFAULT_POLL_INTERVAL_MINUTES),
+  enabled: z.boolean().default(true),
+  json: jsonMappingSchema.optional()
+});
+
+const newsSourceSchema = newsSourceFields.superRefine((source, ctx) => {
+  if (source.type === 'json' && !source.json) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['json'], message: 'JSON sources need a json field mapping' });
+  }
+});
+
+const newsSourceFileSchema = z.object({
+  sources: z.array(newsSourceSchema).min(1)
+}).superRefine((file, ctx) => {
+  const seen = new Set<string>();
+  file.sources.forEach((source, idx) => {
+    if (seen.has(source.id)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['sources', idx, 'id'],
+        message: `Source '${source.id}' is already defined`
+      });
+    }
+    seen.add(source.id);
+  });
+});
+
+// Fields an update may change; the id is fixed
+const newsSourceUpdateSchema = newsSourceFields.omit({ id: true }).partial().strict();
+
+export type NewsSourceDefinition = z.infer<typeof newsSourceSchema>;
+export type NewsSourceJsonMapping = z.infer<typeof jsonMappingSchema>;
+export type NewsSourceCategory = NewsSourceDefinition['category'];
+
+export interface NewsSourceHealth {
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  successCount: number;
+  errorCount: number;
+  consecutiveErrors: number;
+  /** Moving average latency of successful polls */
+  averageLatencyMs: number | null;
+  lastItemCount: number | null;
+}
+
+export interface NewsSourceStatus extends NewsSourceDefinition {
+  health: NewsSourceHealth;
+}
+
+/**
+ * Source categories polled for each requested news category; unknown categories read business sources
+ */
+const CATEGORY_SOURCES: Record<string, readonly NewsSourceCategory[]> = {
+  all: SOURCE_CATEGORIES,
+  stocks: ['stocks', 'business'],
+  forex: ['forex', 'business'],
+  commodities: ['commodities', 'business'],
+  crypto: ['crypto'],
+  politics: ['politics'],
+  economics: ['economics']
+};
+
+const DEFAULT_SOURCES: z.input<typeof newsSourceSchema>[] = [
+  { id: 'bbc-business', name: 'BBC Business', url: 'https://feeds.bbci.co.uk/news/business/rss.xml', category: 'business', region: 'uk', credibility: 0.85 },
+  { id: 'cnbc', name: 'CNBC', url: 'https://www.cnbc.com/id/100003114/device/rss/rss.html', category: 'business', region: 'us', credibility: 0.8 },
+  { id: 'marketwatch', name: 'MarketWatch', url: 'https://feeds.marketwatch.com/marketwatch/realtimeheadlines/', category: 'stocks', region: 'us', credibility: 0.75 },
+  { id: 'cointelegraph', name: 'CoinTelegraph', url: 'https://cointelegraph.com/rss', category: 'crypto', credibility: 0.6 },
+  { id: 'coindesk', name: 'CoinDesk', url: 'https://coindesk.com/arc/outboundfeeds/rss/', category: 'crypto', credibility: 0.7 },
+  { id: 'cryptonews', name: 'CryptoNews', url: 'https://cryptonews.com/news/feed/', category: 'crypto', credibility: 0.55 },
+  { id: 'bbc-politics', name: 'BBC Politics', url: 'https://feeds.bbci.co.uk/news/politics/rss.xml', category: 'politics', region: 'uk', credibility: 0.85 },
+  { id: 'ft-economics', name: 'Financial Times', url: 'https://www.ft.com/economics?format=rss', category: 'economics', credibility: 0.9 },
+  { id: 'fed-press', name: 'Federal Reserve Press Releases', url: 'https://www.federalreserve.gov/feeds/press_all.xml', category: 'economics', region: 'us', credibility: 1, poll_interval_minutes: 30 },
+  { id: 'ecb-press', name: 'ECB Press Releases', url: 'https://www.ecb.europa.eu/rss/press.html', category: 'economics', region: 'eu', credibility: 1, poll_interval_minutes: 30 }
+];
+
+function emptyHealth(): NewsSourceHealth {
+  return {
+    lastSuccessAt: null,
+    lastFailureAt: null,
+    lastError: null,
+    successCount: 0,
+    errorCount: 0,
+    consecutiveErrors: 0,
+    averageLatencyMs: null,
+    lastItemCount: null
+  };
+}
+
+function describeIssues(error: z.ZodError): string {
+  return error.errors.map(err => `${err.path.join('.') || 'root'}: ${err.message}`).join('; ');
+}
+
+/**
+ * Thrown for invalid, duplicate or unknown sources in runtime changes
+ */
+export class NewsSourceError extends Error {
+  constructor(message: string, public statusCode: number) {
+    super(message);
+    this.name = 'NewsSourceError';
+  }
+}
+
+export class NewsSourceRegistry {
+  private readonly sources = new Map<string, NewsSourceDefinition>();
+  private readonly health = new Map<string, NewsSourceHealth>();
+
+  constructor(filePath: string | undefined = config.news.sourcesFile) {
+    const definitions = filePath ? this.loadFile(filePath) : DEFAULT_SOURCES.map(source => newsSourceSchema.parse(source));
+    for (const definition of definitions) {
+      this.sources.set(definition.id, definition);
+    }
+  }
+
+  list(): NewsSourceDefinition[] {
+    return Array.from(this.sources.values());
+  }
+
+  get(id: string): NewsSourceDefinition | undefined {
+    return this.sources.get(id);
+  }
+
+  /**
+   * Source categories that serve a news category
+   */
+  getSourceCategories(category: string): readonly NewsSourceCategory[] {
+    return CATEGORY_SOURCES[category] ?? ['business'];
+  }
+
+  /**
+   * Enabled sources to poll for a news category
+   */
+  getSourcesForCategory(category: string): NewsSourceDefinition[] {
+    const categories = this.getSourceCategories(category);
+    return this.list().filter(source => source.enabled && categories.includes(source.category));
+  }
+
+  /**
+   * Register a source at runtime
+   * @throws NewsSourceError - 400 when invalid, 409 when the id is taken
+   */
+  add(input: unknown): NewsSourceDefinition {
+    const result = newsSourceSchema.safeParse(input);
+    if (!result.success) {
+      throw new NewsSourceError(`Invalid news source: ${describeIssues(result.error)}`, SERVER_CONSTANTS.HTTP_STATUS.BAD_REQUEST);
+    }
+    if (this.sources.has(result.data.id)) {
+      throw new NewsSourceError(`News source '${result.data.id}' already exists`, SERVER_CONSTANTS.HTTP_STATUS.CONFLICT);
+    }
+
+    this.sources.set(result.data.id, result.data);
+    secureLogger.info('News source added', { id: result.data.id, url: result.data.url, category: result.data.category });
+    return result.data;
+  }
+
+  /**
+   * Change some fields of a source; its health history is kept
+   * @throws NewsSourceError - 400 when invalid, 404 when unknown
+   */
+  update(id: string, changes: unknown): NewsSourceDefinition {
+    const existing = this.requireSource(id);
+    const result = newsSourceUpdateSchema.safeParse(changes);
+    if (!result.success) {
+      throw new NewsSourceError(`Invalid news source update: ${describeIssues(result.error)}`, SERVER_CONSTANTS.HTTP_STATUS.BAD_REQUEST);
+    }
+
+    const merged: NewsSourceDefinition = { ...existing };
+    for (const [field, value] of Object.entries(result.data)) {
+      if (value !== undefined) {
+        Object.assign(merged, { [field]: value });
+      }
+    }
+    // Checks rules spanning fields, e.g. a source switched to json without a mapping
+    const updated = newsSourceSchema.safeParse(merged);
+    if (!updated.success) {
+      throw new NewsSourceError(`Invalid news source update: ${describeIssues(updated.error)}`, SERVER_CONSTANTS.HTTP_STATUS.BAD_REQUEST);
+    }
+
+    this.sources.set(id, updated.data);
+    secureLogger.info('News source updated', { id, fields: Object.keys(result.data) });
+    return updated.data;
+  }
+
+  /**
+   * @throws NewsSourceError - 404 when unknown
+   */
+  remove(id: string): void {
+    this.requireSource(id);
+    this.sources.delete(id);
+    this.health.delete(id);
+    secureLogger.info('News source removed', { id });
+  }
+
+  recordSuccess(id: string, latencyMs: number, itemCount: number): void {
+    const health = this.getHealth(id);
+    const smoothing = SERVER_CONSTANTS.NEWS_SOURCES.LATENCY_SMOOTHING;
+    this.health.set(id, {
+      ...health,
+      lastSuccessAt: new Date().toISOString(),
+      successCount: health.successCount + 1,
+      consecutiveErrors: 0,
+      averageLatencyMs: health.averageLatencyMs === null
+        ? latencyMs
+        : Math.round(smoothing * latencyMs + (1 - smoothing) * health.averageLatencyMs),
+      lastItemCount: itemCount
+    });
+  }
+
+  recordFailure(id: string, error: unknown): void {
+    const health = this.getHealth(id);
+    this.health.set(id, {
+      ...health,
+      lastFailureAt: new Date().toISOString(),
+      lastError: error instanceof Error ? error.message : String(error),
+      errorCount: health.errorCount + 1,
+      consecutiveErrors: health.consecutiveErrors + 1
+    });
+  }
+
+  getHealth(id: string): NewsSourceHealth {
+    return this.health.get(id) ?? emptyHealth();
+  }
+
+  /**
+   * Every source with its health; JSON request header values are masked as they may hold credentials
+   */
+  getStatus(): NewsSourceStatus[] {
+    return this.list().map(source => ({
+      ...source,
+      ...(source.json && {
+        json: {
+          ...source.json,
+          headers: Object.fromEntries(Object.keys(source.json.headers).map(name => [name, '[redacted]']))
+        }
+      }),
+      health: this.getHealth(source.id)
+    }));
+  }
+
+  private requireSource(id: string): NewsSourceDefinition {
+    const source = this.sources.get(id);
+    if (!source) {
+      throw new NewsSourceError(`News source '${id}' not found`, SERVER_CONSTANTS.HTTP_STATUS.NOT_FOUND);
+    }
+    return source;
+  }
+
+  /**
+   * Read and validate the sources file - any problem aborts startup
+   */
+  private loadFile(filePath: string): NewsSourceDefinition[] {
+    const resolvedPath = path.resolve(process.cwd(), filePath);
+
+    let raw: unknown;
+    try {
+      const content = fs.readFileSync(resolvedPath, 'utf8');
+      raw = resolvedPath.endsWith('.json') ? JSON.parse(content) : parseYaml(content);
+    } catch (error) {
+      throw new Error(`Failed to read news sources file ${resolvedPath}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+
+    const result = newsSourceFileSchema.safeParse(raw);
+    if (!result.success) {
+      throw new Error(`Invalid news sources file ${resolvedPath}: ${describeIssues(result.error)}`);
+    }
+
+    secureLogger.info('News sources loaded', {
+      file: resolvedPath,
+      sources: result.data.sources.map(source => source.id)
+    });
+
+    return result.data.sources;
+  }
+}
+
+// Export singleton instance - constructed at import so an invalid file fails startup
+export const newsSourceRegistry = new NewsSourceRegistry();
@@ -81,34 +81,12 @@ export class OutputSanitizerService {
     const originalLength = content.length;
 
     try {
-      // PHASE 1: Remove fabricated numerical data
-      for (const pattern of this.FABRICATED_NUMBER_PATTERNS) {
-        const matches = sanitizedContent.match(pattern);
-        if (matches) {
-          numericDataBlocked += matches.length;
-          sanitizedContent = sanitizedContent.replace(pattern, '[SPECIFIC DATA REMOVED - Use official sources]');
-          flagsRemoved.push(`Removed ${matches.length} fabricated number(s): ${pattern.source.substring(0, 50)}...`);
-        }
-      }
-
-      // PHASE 2: Remove unreliable confidence scores
-      for (const pattern of this.CONFIDENCE_SCORE_PATTERNS) {
-        const matches = sanitizedContent.match(pattern);
-        if (matches) {
-          confidenceScoresFiltered += matches.length;
-          sanitizedContent = sanitizedContent.replace(pattern, '[CONFIDENCE ASSESSMENT REMOVED]');
-          flagsRemoved.push(`Removed ${matches.length} confidence score(s)`);
-        }
-      }
-
-      // PHASE 3: Remove specific fabricated dates
-      for (const pattern of this.SPECIFIC_DATE_PATTERNS) {
-        const matches = sanitizedContent.match(pattern);
-        if (matches) {
-          sanitizedContent = sanitizedContent.replace(pattern, '[SPECIFIC DATE REMOVED - Check official sources]');
-          flagsRemoved.push(`Removed ${matches.length} specific date reference(s)`);
-        }
-      }
+      // PHASES 1-3: Remove fabricated numbers, unreliable confidence scores and specific dates
+      const removal = this.removeFabrications(content);
+      sanitizedContent = removal.content;
+      flagsRemoved.push(...removal.flagsRemoved);
+      numericDataBlocked = removal.numericDataBlocked;
+      confidenceScoresFiltered = removal.confidenceScoresFiltered;
 
       // PHASE 4: Add safety disclaimers if content was modified
       if (flagsRemoved.length > 0) {
@@ -156,6 +134,81 @@ export class OutputSanitizerService {
     }
   }
 
+  /**
+   * Sanitize every string in a structured tool payload (structuredContent and the JSON output format)
+   * Same removals as sanitizeOutput, without the disclaimer; numbers, dates and other non-string values
+   * are typed fields of the payload and kept as they are
+   * @param payload - Tool output object
+   * @returns Copy of the payload with sanitized strings
+   */
+  public sanitizeStructured<T>(payload: T): T {
+    let numericDataBlocked = 0;
+    let confidenceScoresFiltered = 0;
+
+    const visit = (value: unknown): unknown => {
+      if (typeof value === 'string') {
+        const removal = this.removeFabrications(value);
+        numericDataBlocked += removal.numericDataBlocked;
+        confidenceScoresFiltered += removal.confidenceScoresFiltered;
+        return removal.content;
+      }
+      if (Array.isArray(value)) {
+        return value.map(visit);
+      }
+      if (value && typeof value === 'object' && [Object.prototype, null].includes(Object.getPrototypeOf(value))) {
+        return Object.fromEntries(Object.entries(value).map(([key, entry]) => [key, visit(entry)]));
+      }
+      return value;
+    };
+
+    const sanitized = visit(payload) as T;
+    if (numericDataBlocked > 0 || confidenceScoresFiltered > 0) {
+      secureLogger.warn('Structured AI output sanitized', { numericDataBlocked, confidenceScoresFiltered });
+    }
+    return sanitized;
+  }
+
+  /**
+   * Replace fabricated numbers, confidence scores and specific dates
+   */
+  private removeFabrications(content: string): Pick<SanitizationResult, 'flagsRemoved' | 'numericDataBlocked' | 'confidenceScoresFiltered'> & { content: string } {
+    let sanitizedContent = content;
+    const flagsRemoved: string[] = [];
+    let numericDataBlocked = 0;
+    let confidenceScoresFiltered = 0;
+
+    // PHASE 1: Remove fabricated numerical data
+    for (const pattern of this.FABRICATED_NUMBER_PATTERNS) {
+      const matches = sanitizedContent.match(pattern);
+      if (matches) {
+        numericDataBlocked += matches.length;
+        sanitizedContent = sanitizedContent.replace(pattern, '[SPECIFIC DATA REMOVED - Use official sources]');
+        flagsRemoved.push(`Removed ${matches.length} fabricated number(s): ${pattern.source.substring(0, 50)}...`);
+      }
+    }
+
+    // PHASE 2: Remove unreliable confidence scores
+    for (const pattern of this.CONFIDENCE_SCORE_PATTERNS) {
+      const matches = sanitizedContent.match(pattern);
+      if (matches) {
+        confidenceScoresFiltered += matches.length;
+        sanitizedContent = sanitizedContent.replace(pattern, '[CONFIDENCE ASSESSMENT REMOVED]');
+        flagsRemoved.push(`Removed ${matches.length} confidence score(s)`);
+      }
+    }
+
+    // PHASE 3: Remove specific fabricated dates
+    for (const pattern of this.SPECIFIC_DATE_PATTERNS) {
+      const matches = sanitizedContent.match(pattern);
+      if (matches) {
+        sanitizedContent = sanitizedContent.replace(pattern, '[SPECIFIC DATE REMOVED - Check official sources]');
+        flagsRemoved.push(`Removed ${matches.length} specific date reference(s)`);
+      }
+    }
+
+    return { content: sanitizedContent, flagsRemoved, numericDataBlocked, confidenceScoresFiltered };
+  }
+
   /**
    * Add safety disclaimer to sanitized content
    */
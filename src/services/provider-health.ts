@@ -0,0 +1,262 @@
+import { SERVER_CONSTANTS } from '../constants/server-constants.js';
+import { AIProviderError } from '../types/index.js';
+import { secureLogger } from '../utils/logger.js';
+
+/**
+ * AI Provider Health
+ * One circuit breaker per provider, fed by the outcome of real calls and by background probes:
+ * - closed: calls go through; FAILURE_THRESHOLD consecutive faults open the circuit
+ * - open: calls skip the provider until the cooldown has passed
+ * - half_open: a single trial (real call or probe) decides between closed and open again
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface ProviderHealth {
+  state: CircuitState;
+  consecutiveFailures: number;
+  totalCalls: number;
+  totalFailures: number;
+  /** Moving average latency of successful calls and probes */
+  averageLatencyMs: number | null;
+  lastSuccessAt: string | null;
+  lastFailureAt: string | null;
+  lastError: string | null;
+  lastProbeAt: string | null;
+  /** When an open circuit allows its next trial */
+  retryAt: string | null;
+}
+
+/**
+ * Whether an error means the provider cannot serve requests, as opposed to a problem with one request
+ * (those still prove the provider is up)
+ */
+export function isProviderFault(error: unknown): boolean {
+  const statusCode = error instanceof AIProviderError ? error.statusCode : undefined;
+  return statusCode === undefined || statusCode >= 500 || SERVER_CONSTANTS.PROVIDER_HEALTH.FAULT_STATUS_CODES.includes(statusCode);
+}
+
+class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private cooldownMs: number = SERVER_CONSTANTS.PROVIDER_HEALTH.OPEN_COOLDOWN_MS;
+  private retryAt = 0;
+  private trialInFlight = false;
+  private totalCalls = 0;
+  private totalFailures = 0;
+  private averageLatencyMs: number | null = null;
+  private lastActivityAt = 0;
+  private lastSuccessAt: Date | null = null;
+  private lastFailureAt: Date | null = null;
+  private lastError: string | null = null;
+  private lastProbeAt: Date | null = null;
+
+  constructor(private readonly provider: string) {}
+
+  /**
+   * Claim permission for one call; in half-open only the first caller gets the trial
+   */
+  tryAcquire(): boolean {
+    if (this.state === 'open' && Date.now() >= this.retryAt) {
+      this.transition('half_open');
+    }
+    if (this.state === 'closed') return true;
+    if (this.state === 'half_open' && !this.trialInFlight) {
+      this.trialInFlight = true;
+      return true;
+    }
+    return false;
+  }
+
+  recordSuccess(latencyMs: number): void {
+    this.totalCalls++;
+    this.consecutiveFailures = 0;
+    this.lastActivityAt = Date.now();
+    this.lastSuccessAt = new Date();
+    const smoothing = SERVER_CONSTANTS.PROVIDER_HEALTH.LATENCY_SMOOTHING;
+    this.averageLatencyMs = this.averageLatencyMs === null
+      ? latencyMs
+      : Math.round(smoothing * latencyMs + (1 - smoothing) * this.averageLatencyMs);
+
+    if (this.state !== 'closed') {
+      this.cooldownMs = SERVER_CONSTANTS.PROVIDER_HEALTH.OPEN_COOLDOWN_MS;
+      this.transition('closed');
+    }
+    this.trialInFlight = false;
+  }
+
+  recordFailure(error: unknown): void {
+    this.totalCalls++;
+    this.totalFailures++;
+    this.consecutiveFailures++;
+    this.lastActivityAt = Date.now();
+    this.lastFailureAt = new Date();
+    this.lastError = error instanceof Error ? error.message : String(error);
+
+    if (this.state === 'half_open') {
+      // The trial failed: back off longer before the next one
+      this.cooldownMs = Math.min(this.cooldownMs * 2, SERVER_CONSTANTS.PROVIDER_HEALTH.MAX_OPEN_COOLDOWN_MS);
+      this.open();
+    } else if (this.state === 'closed' && this.consecutiveFailures >= SERVER_CONSTANTS.PROVIDER_HEALTH.FAILURE_THRESHOLD) {
+      this.open();
+    }
+    this.trialInFlight = false;
+  }
+
+  /**
+   * Give back a permission whose call ended without telling anything about the provider (e.g. cancelled)
+   */
+  release(): void {
+    this.trialInFlight = false;
+  }
+
+  markProbed(): void {
+    this.lastProbeAt = new Date();
+  }
+
+  /**
+   * Probe when the circuit is due a trial, or when no call has reported on the provider for a while
+   */
+  needsProbe(): boolean {
+    if (this.state === 'open') return Date.now() >= this.retryAt;
+    if (this.state === 'half_open') return !this.trialInFlight;
+    return Date.now() - this.lastActivityAt >= SERVER_CONSTANTS.PROVIDER_HEALTH.PROBE_INTERVAL_MS;
+  }
+
+  isOpen(): boolean {
+    return this.state === 'open' && Date.now() < this.retryAt;
+  }
+
+  snapshot(): ProviderHealth {
+    return {
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      totalCalls: this.totalCalls,
+      totalFailures: this.totalFailures,
+      averageLatencyMs: this.averageLatencyMs,
+      lastSuccessAt: this.lastSuccessAt?.toISOString() ?? null,
+      lastFailureAt: this.lastFailureAt?.toISOString() ?? null,
+      lastError: this.lastError,
+      lastProbeAt: this.lastProbeAt?.toISOString() ?? null,
+      retryAt: this.state === 'open' ? new Date(this.retryAt).toISOString() : null
+    };
+  }
+
+  private open(): void {
+    this.retryAt = Date.now() + this.cooldownMs;
+    this.transition('open');
+  }
+
+  private transition(state: CircuitState): void {
+    if (state === this.state) return;
+    const log = state === 'open' ? secureLogger.warn : secureLogger.info;
+    log(`AI provider circuit ${state}: ${this.provider}`, {
+      from: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      ...(state === 'open' && { retryInMs: this.cooldownMs, lastError: this.lastError })
+    });
+    this.state = state;
+  }
+}
+
+export type ProviderProbe = (provider: string, signal: AbortSignal) => Promise<void>;
+
+export class ProviderHealthMonitor {
+  private readonly breakers = new Map<string, CircuitBreaker>();
+  private readonly probing = new Set<string>();
+  private timer: NodeJS.Timeout | null = null;
+
+  /**
+   * @param probe - Cheap request proving a provider is reachable and accepts our credentials
+   */
+  constructor(private readonly probe: ProviderProbe) {}
+
+  /**
+   * Track a provider (circuits start closed) and make sure the background probes run
+   */
+  register(provider: string): void {
+    if (!this.breakers.has(provider)) {
+      this.breakers.set(provider, new CircuitBreaker(provider));
+    }
+    this.start();
+  }
+
+  /**
+   * Whether a call may go to the provider now; every true must be followed by
+   * recordSuccess, recordFailure or release
+   */
+  tryAcquire(provider: string): boolean {
+    return this.breakers.get(provider)?.tryAcquire() ?? false;
+  }
+
+  recordSuccess(provider: string, latencyMs: number): void {
+    this.breakers.get(provider)?.recordSuccess(latencyMs);
+  }
+
+  /**
+   * Record a failed call; request problems (see isProviderFault) count as the provider answering
+   */
+  recordFailure(provider: string, error: unknown, latencyMs: number): void {
+    if (isProviderFault(error)) {
+      this.breakers.get(provider)?.recordFailure(error);
+    } else {
+      this.breakers.get(provider)?.recordSuccess(latencyMs);
+    }
+  }
+
+  release(provider: string): void {
+    this.breakers.get(provider)?.release();
+  }
+
+  isOpen(provider: string): boolean {
+    return this.breakers.get(provider)?.isOpen() ?? true;
+  }
+
+  getHealth(provider: string): ProviderHealth | null {
+    return this.breakers.get(provider)?.snapshot() ?? null;
+  }
+
+  /**
+   * Probe every provider that is due, without waiting for the interval
+   */
+  async probeDue(): Promise<void> {
+    await Promise.all(Array.from(this.breakers.keys()).map(provider => this.probeProvider(provider)));
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private start(): void {
+    if (this.timer) return;
+
+    // Checked more often than the probe interval so open circuits get their trial soon after the cooldown
+    this.timer = setInterval(() => {
+      this.probeDue().catch(error => secureLogger.debug('Provider probe round failed', { error }));
+    }, SERVER_CONSTANTS.PROVIDER_HEALTH.OPEN_COOLDOWN_MS / 2);
+    this.timer.unref();
+  }
+
+  private async probeProvider(provider: string): Promise<void> {
+    const breaker = this.breakers.get(provider);
+    if (!breaker || this.probing.has(provider) || !breaker.needsProbe() || !breaker.tryAcquire()) {
+      return;
+    }
+
+    this.probing.add(provider);
+    breaker.markProbed();
+    const startTime = Date.now();
+    try {
+      await this.probe(provider, AbortSignal.timeout(SERVER_CONSTANTS.PROVIDER_HEALTH.PROBE_TIMEOUT_MS));
+      breaker.recordSuccess(Date.now() - startTime);
+    } catch (error) {
+      secureLogger.debug(`AI provider probe failed: ${provider}`, { error: error instanceof Error ? error.message : String(error) });
+      breaker.recordFailure(error);
+    } finally {
+      this.probing.delete(provider);
+    }
+  }
+}
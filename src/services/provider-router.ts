@@ -0,0 +1,224 @@
+import { config } from '../config.js';
+import { SERVER_CONSTANTS } from '../constants/server-constants.js';
+import { AIProvider, AIRequestOptions, RoutingPolicy, SpendCaps, SpendTotals } from '../types/index.js';
+import { estimateTokens } from '../utils/token-usage.js';
+import { ProviderHealthMonitor } from './provider-health.js';
+import { usageAccountingService } from './usage-accounting.js';
+
+/**
+ * Provider Routing
+ * Orders the providers for one call under the configured policy and picks the model each would use.
+ * Spend caps apply on top of every policy:
+ * - a provider whose daily or monthly cap is reached is left out
+ * - once the provider's or the tenant's spend passes the degrade threshold of a cap, the call
+ *   switches to the provider's cheapest priced model
+ */
+
+export interface RoutingCandidate {
+  provider: string;
+  model: string;
+  /** Cost of the call at the model's price, assuming the full completion budget is used */
+  estimatedCostUsd: number;
+  /** True when a spend cap moved the call to a cheaper model */
+  degraded: boolean;
+  reason: string;
+}
+
+export interface RoutingPlan {
+  policy: RoutingPolicy;
+  candidates: RoutingCandidate[];
+  excluded: Array<{ provider: string; reason: string }>;
+}
+
+export interface RoutingRequest {
+  prompt: string;
+  /** Provider order before the policy applies (preferred provider, then the fallback chain) */
+  providers: string[];
+  /** Keeps the first provider first whatever the policy */
+  pinFirst: boolean;
+  model?: string;
+  options?: AIRequestOptions;
+}
+
+interface CapLoad {
+  /** Spend as a share of the tightest cap (0 without caps) */
+  share: number;
+  label: string;
+}
+
+/**
+ * How close spend is to its caps
+ */
+function capLoad(spend: SpendTotals, caps: SpendCaps | undefined): CapLoad {
+  const loads: CapLoad[] = [];
+  if (caps?.dailyUsd) {
+    loads.push({ share: spend.dailyUsd / caps.dailyUsd, label: `daily spend $${spend.dailyUsd.toFixed(2)} of $${caps.dailyUsd.toFixed(2)}` });
+  }
+  if (caps?.monthlyUsd) {
+    loads.push({ share: spend.monthlyUsd / caps.monthlyUsd, label: `monthly spend $${spend.monthlyUsd.toFixed(2)} of $${caps.monthlyUsd.toFixed(2)}` });
+  }
+  return loads.reduce((tightest, load) => load.share > tightest.share ? load : tightest, { share: 0, label: 'no spend cap' });
+}
+
+export class ProviderRouter {
+  constructor(
+    private readonly providers: Map<string, AIProvider>,
+    private readonly health: ProviderHealthMonitor
+  ) {}
+
+  getPolicy(): RoutingPolicy {
+    return config.routing.policy;
+  }
+
+  /**
+   * Spend caps configured for a provider, if any
+   */
+  getProviderCaps(provider: string): SpendCaps | undefined {
+    const caps = config.routing.providerSpendCaps[provider];
+    return caps && {
+      ...(caps.dailyUsd && { dailyUsd: caps.dailyUsd }),
+      ...(caps.monthlyUsd && { monthlyUsd: caps.monthlyUsd })
+    };
+  }
+
+  /**
+   * Order the providers for a call and choose each one's model
+   */
+  plan(request: RoutingRequest): RoutingPlan {
+    const policy = this.getPolicy();
+    const { options } = request;
+    const tenant = options?.billedTo;
+    const tenantLoad = tenant
+      ? capLoad(usageAccountingService.getTenantSpend(tenant.tenant), tenant.spendCaps)
+      : undefined;
+    const promptTokens = estimateTokens(request.prompt);
+    const completionTokens = options?.maxTokens ?? SERVER_CONSTANTS.ROUTING.DEFAULT_COMPLETION_TOKENS;
+
+    const candidates: RoutingCandidate[] = [];
+    const excluded: RoutingPlan['excluded'] = [];
+
+    for (const name of request.providers) {
+      const provider = this.providers.get(name);
+      if (!provider) continue;
+
+      const providerLoad = capLoad(usageAccountingService.getProviderSpend(name), this.getProviderCaps(name));
+      if (providerLoad.share >= 1) {
+        excluded.push({ provider: name, reason: `provider cap reached: ${providerLoad.label}` });
+        continue;
+      }
+
+      let model = request.model ?? this.resolveTierModel(name, options?.modelTier) ?? provider.getDefaultModel();
+      let degraded = false;
+      let degradeReason = '';
+
+      // The tighter of the provider's and the tenant's caps decides whether to degrade
+      const load = tenantLoad && tenantLoad.share > providerLoad.share
+        ? { ...tenantLoad, label: `tenant ${tenant!.tenant} ${tenantLoad.label}` }
+        : { ...providerLoad, label: `provider ${providerLoad.label}` };
+      if (load.share >= config.routing.degradeThreshold) {
+        const cheapest = this.cheapestModel(provider);
+        if (cheapest && cheapest !== model && this.blendedPrice(cheapest) < this.blendedPrice(model)) {
+          degradeReason = `, degraded from ${model} (${load.label})`;
+          model = cheapest;
+          degraded = true;
+        }
+      }
+
+      candidates.push({
+        provider: name,
+        model,
+        estimatedCostUsd: usageAccountingService.estimateCost(name, model, promptTokens, completionTokens),
+        degraded,
+        reason: degradeReason
+      });
+    }
+
+    const [pinned, ...rest] = candidates;
+    const ordered = request.pinFirst && pinned ? [pinned, ...this.sort(rest, policy)] : this.sort(candidates, policy);
+
+    return {
+      policy,
+      candidates: ordered.map((candidate, index) => ({
+        ...candidate,
+        reason: this.describe(candidate, policy, index === 0 && request.pinFirst) + candidate.reason
+      })),
+      excluded
+    };
+  }
+
+  /**
+   * Order candidates by the policy; ties (and primary_first) keep the incoming order
+   */
+  private sort(candidates: RoutingCandidate[], policy: RoutingPolicy): RoutingCandidate[] {
+    const sorted = [...candidates];
+    switch (policy) {
+      case 'cheapest_first':
+        return sorted.sort((a, b) => a.estimatedCostUsd - b.estimatedCostUsd);
+      case 'fastest_first':
+        // Providers without a measured latency go after the measured ones
+        return sorted.sort((a, b) => (this.latency(a.provider) ?? Infinity) - (this.latency(b.provider) ?? Infinity));
+      case 'quality_first':
+        return sorted.sort((a, b) => this.quality(b.model) - this.quality(a.model));
+      default:
+        return sorted;
+    }
+  }
+
+  private describe(candidate: RoutingCandidate, policy: RoutingPolicy, pinned: boolean): string {
+    if (pinned) return 'preferred provider';
+
+    switch (policy) {
+      case 'cheapest_first':
+        return `cheapest_first: est. $${candidate.estimatedCostUsd.toFixed(SERVER_CONSTANTS.USAGE.COST_DECIMALS)} for this call`;
+      case 'fastest_first': {
+        const latency = this.latency(candidate.provider);
+        return `fastest_first: ${latency === null ? 'no latency measured yet' : `${latency}ms average latency`}`;
+      }
+      case 'quality_first':
+        return `quality_first: ${candidate.model} ranks ${this.quality(candidate.model)}`;
+      default:
+        return 'primary_first: fallback chain order';
+    }
+  }
+
+  /**
+   * Model for a provider at the given tier; undefined when the tier has none for it
+   */
+  private resolveTierModel(providerName: string, tier?: AIRequestOptions['modelTier']): string | undefined {
+    if (!tier) return undefined;
+    const tierModels: Partial<Record<string, string>> = SERVER_CONSTANTS.MODEL_TIERS[tier];
+    return tierModels[providerName];
+  }
+
+  /**
+   * Cheapest priced model the provider offers; null when none of them has a price
+   */
+  private cheapestModel(provider: AIProvider): string | null {
+    const fastModel: string | undefined = (SERVER_CONSTANTS.MODEL_TIERS.fast as Partial<Record<string, string>>)[provider.name];
+    const models = new Set([provider.getDefaultModel(), ...provider.getModels(), ...(fastModel ? [fastModel] : [])]);
+
+    let cheapest: string | null = null;
+    for (const model of models) {
+      if (usageAccountingService.getPrice(model) && (!cheapest || this.blendedPrice(model) < this.blendedPrice(cheapest))) {
+        cheapest = model;
+      }
+    }
+    return cheapest;
+  }
+
+  /**
+   * Input plus output price per million tokens; unpriced models count as free
+   */
+  private blendedPrice(model: string): number {
+    const price = usageAccountingService.getPrice(model);
+    return price ? price.inputPerMillion + price.outputPerMillion : 0;
+  }
+
+  private latency(provider: string): number | null {
+    return this.health.getHealth(provider)?.averageLatencyMs ?? null;
+  }
+
+  private quality(model: string): number {
+    return SERVER_CONSTANTS.ROUTING.MODEL_QUALITY[model] ?? 0;
+  }
+}
@@ -0,0 +1,74 @@
+import { config } from '../config.js';
+import { SERVER_CONSTANTS, ERROR_MESSAGES } from '../constants/server-constants.js';
+import { RateLimitError } from '../types/index.js';
+import { secureLogger } from '../utils/logger.js';
+import { databaseManager } from './database-manager.js';
+
+/**
+ * Rate Limiting
+ * Sliding windows kept in Redis, so every replica behind a load balancer counts against the same limit;
+ * while Redis is down each process falls back to its own in-memory window
+ *
+ * Buckets:
+ * - general: every anonymous HTTP request, WebSocket upgrade and WebSocket JSON-RPC request
+ * - cheap_tools / expensive_tools: tool calls on any network transport, on top of the request limit
+ */
+
+export type RateLimitBucket = 'general' | 'cheap_tools' | 'expensive_tools';
+
+export interface RateLimitStatus {
+  limit: number;
+  remaining: number;
+  /** Epoch seconds at which the next request slot frees up */
+  resetTime: number;
+}
+
+export class RateLimiterService {
+  /**
+   * Bucket a tool call counts against
+   */
+  getToolBucket(toolName: string): RateLimitBucket {
+    return SERVER_CONSTANTS.RATE_LIMITS.CHEAP_TOOLS.includes(toolName) ? 'cheap_tools' : 'expensive_tools';
+  }
+
+  /**
+   * Count one request from a client against a bucket
+   * @param bucket - Which limit applies
+   * @param clientId - Who is counted, e.g. `ip:203.0.113.7` or `tenant:acme`
+   * @returns Remaining allowance, for rate limit headers
+   * @throws RateLimitError - When the bucket is full, with the seconds until a slot frees up
+   */
+  async consume(bucket: RateLimitBucket, clientId: string): Promise<RateLimitStatus> {
+    const limit = this.getLimit(bucket);
+    const result = await databaseManager.checkRateLimit(`${bucket}:${clientId}`, limit, Math.ceil(config.security.rateLimitWindowMs / 1000));
+
+    if (!result.allowed) {
+      secureLogger.warn('Rate limit exceeded', { bucket, clientId, count: result.count, limit });
+      throw new RateLimitError(
+        bucket === 'general' ? ERROR_MESSAGES.RATE_LIMIT_EXCEEDED : ERROR_MESSAGES.TOOL_RATE_LIMIT_EXCEEDED(bucket),
+        bucket,
+        Math.max(1, result.resetTime - Math.floor(Date.now() / 1000))
+      );
+    }
+
+    return {
+      limit,
+      remaining: Math.max(0, limit - result.count - 1),
+      resetTime: result.resetTime
+    };
+  }
+
+  private getLimit(bucket: RateLimitBucket): number {
+    switch (bucket) {
+      case 'cheap_tools':
+        return config.security.cheapToolMaxRequests;
+      case 'expensive_tools':
+        return config.security.expensiveToolMaxRequests;
+      default:
+        return config.security.rateLimitMaxRequests;
+    }
+  }
+}
+
+// Export singleton instance
+export const rateLimiterService = new RateLimiterService();
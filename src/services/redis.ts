@@ -1,4 +1,5 @@
 import * as Redis from 'ioredis';
+import { createHash } from 'crypto';
 import { config } from '../config.js';
 import { secureLogger as logger } from '../utils/logger.js';
 
@@ -27,6 +28,33 @@ export interface SessionData {
   createdAt: number;
 }
 
+/**
+ * Sliding-window check and insert, run atomically so concurrent requests cannot all see a free slot
+ * Only allowed requests are added, so rejected retries do not keep the window full
+ * KEYS[1] window key; ARGV now (ms), window (ms), limit, member
+ * Returns allowed (0/1), requests in the window before this one, and the timestamp of the entry whose
+ * expiry frees the next slot
+ */
+const RATE_LIMIT_SCRIPT = `
+local now = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], '-inf', now - window)
+local count = redis.call('ZCARD', KEYS[1])
+local allowed = 0
+if count < limit then
+  redis.call('ZADD', KEYS[1], now, ARGV[4])
+  redis.call('PEXPIRE', KEYS[1], window)
+  allowed = 1
+end
+local index = 0
+if allowed == 0 then
+  index = count - limit
+end
+local entry = redis.call('ZRANGE', KEYS[1], index, index, 'WITHSCORES')
+return { allowed, count, entry[2] or tostring(now) }
+`;
+
 /**
  * Redis Cache Manager
  */
@@ -144,13 +172,17 @@ export class RedisService {
   /**
    * Generate cache key for analysis results
    */
-  private generateCacheKey(query: string, analysisType: string): string {
-    const hash = Buffer.from(query).toString('base64').slice(0, 32);
-    return `analysis:${analysisType}:${hash}`;
+  private generateCacheKey(query: string, analysisType: string, variant?: string, tenant?: string): string {
+    // Hashes the whole query and variant, so long queries sharing a prefix do not collide
+    const hash = createHash('sha256').update(variant ? `${query}\n${variant}` : query).digest('base64url');
+    // Results are private to the tenant that ran them; calls without an API key share the untenanted space
+    return tenant ? `analysis:${analysisType}:tenant:${tenant}:${hash}` : `analysis:${analysisType}:${hash}`;
   }
 
   /**
    * Store analysis result in Redis cache
+   * @param variant - Options the result depends on besides the query, if any
+   * @param tenant - Tenant that ran the analysis; only its own lookups find the entry
    */
   public async cacheAnalysisResult(
     query: string,
@@ -161,6 +193,8 @@ export class RedisService {
       tokensUsed?: number;
       provider: string;
     },
+    variant?: string,
+    tenant?: string,
     ttl?: number
   ): Promise<boolean> {
     if (!this.isConnected() || !this.client) {
@@ -169,7 +203,7 @@ export class RedisService {
     }
 
     try {
-      const cacheKey = this.generateCacheKey(query, analysisType);
+      const cacheKey = this.generateCacheKey(query, analysisType, variant, tenant);
       const cacheEntry: CacheEntry = {
         data: result,
         metadata: {
@@ -198,14 +232,16 @@ export class RedisService {
 
   /**
    * Retrieve cached analysis result from Redis
+   * @param variant - Options the result depends on besides the query, as given when it was cached
+   * @param tenant - Tenant of the caller; without one, only results cached without a tenant are found
    */
-  public async getCachedAnalysis(query: string, analysisType: string): Promise<any | null> {
+  public async getCachedAnalysis(query: string, analysisType: string, variant?: string, tenant?: string): Promise<any | null> {
     if (!this.isConnected() || !this.client) {
       return null;
     }
 
     try {
-      const cacheKey = this.generateCacheKey(query, analysisType);
+      const cacheKey = this.generateCacheKey(query, analysisType, variant, tenant);
       const cached = await this.client.get(cacheKey);
 
       if (!cached) {
@@ -332,42 +368,46 @@ export class RedisService {
   }
 
   /**
-   * Rate limiting support
+   * Sliding-window rate limiting shared by every replica
+   * The window is a sorted set of the allowed requests' timestamps (ms); a rejected request is not added.
+   * The reset time is when the oldest entry expires, or for a rejected request when enough entries have
+   * expired to free a slot
+   * @returns Whether the request is allowed, requests in the window before it, and the reset time in epoch seconds
+   * @throws Error - When Redis is unavailable or the script fails, so callers can fall back
    */
   public async checkRateLimit(identifier: string, limit: number, windowSeconds: number): Promise<{ allowed: boolean; count: number; resetTime: number }> {
     if (!this.isConnected() || !this.client) {
-      return { allowed: true, count: 0, resetTime: 0 };
+      throw new Error('Redis not connected');
     }
 
-    try {
-      const rateLimitKey = `rate_limit:${identifier}`;
-      const now = Math.floor(Date.now() / 1000);
-      const windowStart = now - windowSeconds;
-
-      // Use Redis pipeline for atomic operations
-      const pipeline = this.client.pipeline();
-      pipeline.zremrangebyscore(rateLimitKey, '-inf', windowStart);
-      pipeline.zcard(rateLimitKey);
-      pipeline.zadd(rateLimitKey, now, `${now}-${Math.random()}`);
-      pipeline.expire(rateLimitKey, windowSeconds);
-      
-      const results = await pipeline.exec();
-      
-      if (!results || results.some(([err]: any) => err)) {
-        throw new Error('Redis pipeline operation failed');
-      }
+    const rateLimitKey = `rate_limit:${identifier}`;
+    const now = Date.now();
+    const windowMs = windowSeconds * 1000;
 
-      const count = (results[1] && results[1][1]) as number || 0;
-      const allowed = count < limit;
-      const resetTime = now + windowSeconds;
+    const [allowedFlag, count, freedBy] = await this.client.eval(
+      RATE_LIMIT_SCRIPT, 1, rateLimitKey, now, windowMs, limit, `${now}-${Math.random()}`
+    ) as [number, number, string];
 
-      logger.debug('Rate limit check', { identifier, count, limit, allowed });
+    const allowed = allowedFlag === 1;
+    const resetTime = Math.ceil((Number(freedBy) + windowMs) / 1000);
 
-      return { allowed, count, resetTime };
-    } catch (error) {
-      logger.error('Failed to check rate limit in Redis:', error);
-      return { allowed: true, count: 0, resetTime: 0 };
+    logger.debug('Rate limit check', { identifier, count, limit, allowed });
+
+    return { allowed, count, resetTime };
+  }
+
+  /**
+   * Claim a slot shared by every replica for ttlMs; only the first claimant until it expires succeeds
+   * @returns Whether this process got the slot
+   * @throws Error - When Redis is unavailable, so callers can fall back
+   */
+  public async claimSlot(key: string, ttlMs: number): Promise<boolean> {
+    if (!this.isConnected() || !this.client) {
+      throw new Error('Redis not connected');
     }
+
+    const result = await this.client.set(`slot:${key}`, String(process.pid), 'PX', ttlMs, 'NX');
+    return result === 'OK';
   }
 
   /**
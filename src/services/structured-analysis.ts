@@ -0,0 +1,131 @@
+import { z } from 'zod';
+import { aiProviderManager } from './ai-provider.js';
+import { secureLogger } from '../utils/logger.js';
+import { SERVER_CONSTANTS } from '../constants/server-constants.js';
+import { AIRequestOptions, AnalysisResult, TokenUsage } from '../types/index.js';
+import { addTokenUsage, emptyTokenUsage } from '../utils/token-usage.js';
+
+/**
+ * Result of a schema-constrained model request
+ */
+export interface StructuredAnalysisResult<T> {
+  /** Validated payload, absent when every attempt violated the schema */
+  data?: T;
+  /** Raw provider result of the last attempt (used by regex fallbacks) */
+  raw: AnalysisResult;
+  attempts: number;
+  violations: string[];
+  /** Tokens and cost across all attempts */
+  usage: TokenUsage;
+}
+
+/**
+ * Structured Analysis Service
+ * Asks the model for a JSON response matching a zod schema and re-prompts on schema violations
+ */
+export class StructuredAnalysisService {
+  constructor(private readonly maxRetries: number = SERVER_CONSTANTS.STRUCTURED_RESPONSE.MAX_RETRIES) {}
+
+  /**
+   * Build the output instructions appended to a prompt
+   * @param responseShape - Example JSON object describing every expected field
+   */
+  buildInstructions(responseShape: Record<string, string>): string {
+    return `RESPONSE FORMAT:
+Respond with a single JSON object and nothing else - no markdown fences, no commentary.
+The object must contain exactly these fields:
+${JSON.stringify(responseShape, null, 2)}`;
+  }
+
+  /**
+   * Request a schema-constrained response, retrying when the output does not validate
+   * Provider failures are not retried here - AIProviderManager already walks the fallback chain
+   */
+  async request<T>(
+    prompt: string,
+    schema: z.ZodType<T, z.ZodTypeDef, unknown>,
+    options: Omit<AIRequestOptions, 'responseFormat'> = {}
+  ): Promise<StructuredAnalysisResult<T>> {
+    const violations: string[] = [];
+    let currentPrompt = prompt;
+    let raw: AnalysisResult | null = null;
+    let attempts = 0;
+    let usage = emptyTokenUsage();
+
+    while (attempts <= this.maxRetries) {
+      // A cancelled or timed-out request must not start another (paid) attempt
+      options.signal?.throwIfAborted();
+      if (attempts > 0) {
+        options.onRestart?.('schema_retry');
+      }
+      attempts++;
+      raw = await aiProviderManager.analyze(currentPrompt, undefined, undefined, { ...options, responseFormat: 'json' });
+      usage = addTokenUsage(usage, raw.metadata?.usage ?? emptyTokenUsage());
+
+      const parsed = this.parse(raw.content, schema);
+      if (parsed.success) {
+        return { data: parsed.data, raw, attempts, violations, usage };
+      }
+
+      violations.push(parsed.error);
+      secureLogger.warn('Structured response violated schema', {
+        attempt: attempts,
+        maxAttempts: this.maxRetries + 1,
+        violation: parsed.error
+      });
+
+      currentPrompt = `${prompt}
+
+YOUR PREVIOUS RESPONSE WAS REJECTED: ${parsed.error}
+Return ONLY the corrected JSON object.`;
+    }
+
+    // Loop always runs at least once, so raw is set
+    return { raw: raw as AnalysisResult, attempts, violations, usage };
+  }
+
+  /**
+   * Parse and validate model output against a schema
+   */
+  parse<T>(content: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): { success: true; data: T } | { success: false; error: string } {
+    const json = this.extractJson(content);
+    if (json === null) {
+      return { success: false, error: 'Response did not contain a JSON object' };
+    }
+
+    let value: unknown;
+    try {
+      value = JSON.parse(json);
+    } catch (error) {
+      return { success: false, error: `Invalid JSON: ${error instanceof Error ? error.message : String(error)}` };
+    }
+
+    const result = schema.safeParse(value);
+    if (!result.success) {
+      return {
+        success: false,
+        error: result.error.errors.map(err => `${err.path.join('.') || 'root'}: ${err.message}`).join('; ')
+      };
+    }
+
+    return { success: true, data: result.data };
+  }
+
+  /**
+   * Extract the outermost JSON object, tolerating markdown fences and surrounding prose
+   */
+  private extractJson(content: string): string | null {
+    const unfenced = content.replace(/```(?:json)?/gi, '');
+    const start = unfenced.indexOf('{');
+    const end = unfenced.lastIndexOf('}');
+
+    if (start === -1 || end <= start) {
+      return null;
+    }
+
+    return unfenced.slice(start, end + 1);
+  }
+}
+
+// Export singleton instance
+export const structuredAnalysisService = new StructuredAnalysisService();
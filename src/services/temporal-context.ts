@@ -513,6 +513,16 @@ Your analysis request:`;
     return firstFriday;
   }
 
+  /**
+   * Scheduled economic events that have not been released yet, soonest first
+   */
+  public async getUpcomingEvents(): Promise<EconomicEvent[]> {
+    const events = await this.fetchUpcomingEvents();
+    return events
+      .filter(event => !event.isReleased)
+      .sort((a, b) => a.scheduledTime.getTime() - b.scheduledTime.getTime());
+  }
+
   /**
    * Check if a specific event has been released
    */
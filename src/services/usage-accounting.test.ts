@@ -0,0 +1,44 @@
+import { afterEach, describe, it, mock } from 'node:test';
+import assert from 'node:assert/strict';
+
+process.env.OPENAI_API_KEY ??= 'test';
+const { UsageAccountingService } = await import('./usage-accounting.js');
+const { mongoService } = await import('./mongodb.js');
+
+const usage = (costUsd: number) => ({ promptTokens: 100, completionTokens: 50, totalTokens: 150, costUsd, estimated: false });
+
+describe('UsageAccountingService.refreshSpend', () => {
+  afterEach(() => mock.restoreAll());
+
+  it('keeps spend added while the persisted totals are being read', async () => {
+    let resolveProviders!: (totals: Record<string, { dailyUsd: number; monthlyUsd: number }>) => void;
+    mock.method(mongoService, 'isConnected', () => true);
+    mock.method(mongoService, 'recordProviderUsage', async () => {});
+    mock.method(mongoService, 'getTenantSpend', async () => ({ acme: { dailyUsd: 2, monthlyUsd: 4 } }));
+    mock.method(mongoService, 'getProviderSpend', () => new Promise(resolve => { resolveProviders = resolve; }));
+
+    const service = new UsageAccountingService();
+    const refresh = service.refreshSpend();
+    service.recordProviderCall('openai', usage(0.5), 'acme');
+    resolveProviders({ openai: { dailyUsd: 1, monthlyUsd: 3 } });
+    await refresh;
+
+    assert.deepEqual(service.getProviderSpend('openai'), { dailyUsd: 1.5, monthlyUsd: 3.5 });
+    assert.deepEqual(service.getTenantSpend('acme'), { dailyUsd: 2.5, monthlyUsd: 4.5 });
+    service.stop();
+  });
+
+  it('replaces local totals with the persisted ones when nothing was added meanwhile', async () => {
+    mock.method(mongoService, 'isConnected', () => true);
+    mock.method(mongoService, 'recordProviderUsage', async () => {});
+    mock.method(mongoService, 'getTenantSpend', async () => ({}));
+    mock.method(mongoService, 'getProviderSpend', async () => ({ openai: { dailyUsd: 4, monthlyUsd: 9 } }));
+
+    const service = new UsageAccountingService();
+    service.recordProviderCall('openai', usage(0.5));
+    await service.refreshSpend();
+
+    assert.deepEqual(service.getProviderSpend('openai'), { dailyUsd: 4, monthlyUsd: 9 });
+    service.stop();
+  });
+});
@@ -0,0 +1,229 @@
+import { config } from '../config.js';
+import { SERVER_CONSTANTS } from '../constants/server-constants.js';
+import { ProviderUsage, SpendTotals, TokenUsage } from '../types/index.js';
+import { secureLogger } from '../utils/logger.js';
+import { addTokenUsage, emptyTokenUsage, estimateTokens, roundCost } from '../utils/token-usage.js';
+import { mongoService } from './mongodb.js';
+
+/**
+ * Usage Accounting
+ * Prices every model call from the token counts the provider reports, keeps today's totals per
+ * provider in memory and adds each call to the hourly SystemMetrics document in MongoDB
+ *
+ * Spend per provider and tenant (for the routing caps) is reloaded from MongoDB every SPEND_REFRESH_MS,
+ * so replicas see each other's spend, and grows locally with each call in between. Tenant costs reach
+ * MongoDB when the tool call finishes, so a refresh during a long call briefly undercounts that call
+ */
+
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+}
+
+/**
+ * Token counts as reported by a provider; absent when the response carried none
+ */
+export interface ReportedTokens {
+  promptTokens: number;
+  completionTokens: number;
+}
+
+interface SpendWindow extends SpendTotals {
+  date: string;
+}
+
+function utcDate(now = new Date()): string {
+  return now.toISOString().slice(0, 10);
+}
+
+export class UsageAccountingService {
+  private readonly daily = new Map<string, ProviderUsage>();
+  private readonly unpricedModels = new Set<string>();
+  /** Keyed `provider:<name>` and `tenant:<name>` */
+  private readonly spend = new Map<string, SpendWindow>();
+  /** Spend added locally while a refresh is reading MongoDB, one map per refresh in flight */
+  private readonly spendDuringRefresh = new Set<Map<string, number>>();
+  private refreshTimer: NodeJS.Timeout | null = null;
+
+  /**
+   * Configured price of a model, or null when it has none
+   */
+  getPrice(model: string): ModelPrice | null {
+    return config.modelPricing[model] ?? SERVER_CONSTANTS.MODEL_PRICING[model] ?? null;
+  }
+
+  /**
+   * Usage of one model call, estimated from the prompt and response text when the provider reported nothing
+   * @param provider - Provider name; local models cost nothing unless priced explicitly
+   * @param model - Model the call ran on
+   * @param prompt - Everything sent to the model, for the estimate
+   * @param completion - The model's output, for the estimate
+   * @param reported - Token counts from the provider response
+   */
+  measure(provider: string, model: string, prompt: string, completion: string, reported?: ReportedTokens): TokenUsage {
+    const promptTokens = reported?.promptTokens ?? estimateTokens(prompt);
+    const completionTokens = reported?.completionTokens ?? estimateTokens(completion);
+
+    return {
+      promptTokens,
+      completionTokens,
+      totalTokens: promptTokens + completionTokens,
+      costUsd: this.estimateCost(provider, model, promptTokens, completionTokens),
+      estimated: !reported
+    };
+  }
+
+  /**
+   * Price a number of prompt and completion tokens on a model, in USD
+   */
+  estimateCost(provider: string, model: string, promptTokens: number, completionTokens: number): number {
+    const price = this.getPrice(model);
+    if (!price) {
+      if (provider !== 'local' && !this.unpricedModels.has(model)) {
+        this.unpricedModels.add(model);
+        secureLogger.warn(`No price configured for model ${model} - its calls are costed at $0`, { provider });
+      }
+      return 0;
+    }
+
+    return roundCost((promptTokens * price.inputPerMillion + completionTokens * price.outputPerMillion) / 1_000_000);
+  }
+
+  /**
+   * Count a provider call in today's totals, the spend totals and the persisted metrics
+   * @param usage - The call's usage; null when it failed before spending any tokens
+   * @param tenant - Tenant the call is billed to, if any
+   * @param failed - Whether the call failed; a call that failed mid-stream is billed its partial usage
+   */
+  recordProviderCall(provider: string, usage: TokenUsage | null, tenant?: string, failed = usage === null): void {
+    const today = this.getProviderUsage(provider);
+    this.daily.set(provider, {
+      ...today,
+      ...addTokenUsage(today, usage ?? emptyTokenUsage()),
+      requests: today.requests + 1,
+      errors: today.errors + (failed ? 1 : 0)
+    });
+
+    if (usage?.costUsd) {
+      this.addSpend(`provider:${provider}`, usage.costUsd);
+      if (tenant) {
+        this.addSpend(`tenant:${tenant}`, usage.costUsd);
+      }
+    }
+
+    mongoService.recordProviderUsage(provider, usage, failed).catch(error =>
+      secureLogger.debug('Failed to persist AI provider usage', { provider, error })
+    );
+  }
+
+  /**
+   * Calls, tokens and spend of a provider so far today (UTC), in this process
+   */
+  getProviderUsage(provider: string): ProviderUsage {
+    const date = utcDate();
+    const usage = this.daily.get(provider);
+    return usage && usage.date === date
+      ? usage
+      : { date, requests: 0, errors: 0, ...emptyTokenUsage() };
+  }
+
+  /**
+   * USD a provider has cost this UTC day and month, across replicas
+   */
+  getProviderSpend(provider: string): SpendTotals {
+    return this.readSpend(`provider:${provider}`);
+  }
+
+  /**
+   * USD a tenant has spent this UTC day and month, across replicas
+   */
+  getTenantSpend(tenant: string): SpendTotals {
+    return this.readSpend(`tenant:${tenant}`);
+  }
+
+  /**
+   * Reload provider and tenant spend from MongoDB; keeps the local totals while it is unreachable
+   * Spend added while the read is in flight may not be persisted yet, so it is added on top of the snapshot
+   * (should it already be in there, it is counted twice until the next refresh - caps err on the safe side)
+   */
+  async refreshSpend(): Promise<void> {
+    if (!mongoService.isConnected()) {
+      return;
+    }
+
+    const date = utcDate();
+    const addedSince = new Map<string, number>();
+    this.spendDuringRefresh.add(addedSince);
+    let providers: Record<string, SpendTotals>;
+    let tenants: Record<string, SpendTotals>;
+    try {
+      [providers, tenants] = await Promise.all([mongoService.getProviderSpend(), mongoService.getTenantSpend(date)]);
+    } finally {
+      this.spendDuringRefresh.delete(addedSince);
+    }
+
+    this.spend.clear();
+    for (const [provider, totals] of Object.entries(providers)) {
+      this.spend.set(`provider:${provider}`, { date, ...totals });
+    }
+    for (const [tenant, totals] of Object.entries(tenants)) {
+      this.spend.set(`tenant:${tenant}`, { date, ...totals });
+    }
+    for (const [key, costUsd] of addedSince) {
+      this.applySpend(key, costUsd);
+    }
+  }
+
+  stop(): void {
+    if (this.refreshTimer) {
+      clearInterval(this.refreshTimer);
+      this.refreshTimer = null;
+    }
+  }
+
+  private readSpend(key: string): SpendTotals {
+    this.startSpendRefresh();
+    const { dailyUsd, monthlyUsd } = this.currentWindow(key);
+    return { dailyUsd, monthlyUsd };
+  }
+
+  private addSpend(key: string, costUsd: number): void {
+    for (const addedSince of this.spendDuringRefresh) {
+      addedSince.set(key, (addedSince.get(key) ?? 0) + costUsd);
+    }
+    this.applySpend(key, costUsd);
+  }
+
+  private applySpend(key: string, costUsd: number): void {
+    const window = this.currentWindow(key);
+    this.spend.set(key, {
+      date: window.date,
+      dailyUsd: roundCost(window.dailyUsd + costUsd),
+      monthlyUsd: roundCost(window.monthlyUsd + costUsd)
+    });
+  }
+
+  /**
+   * The key's totals, rolled over when the UTC day or month has changed since they were written
+   */
+  private currentWindow(key: string): SpendWindow {
+    const date = utcDate();
+    const window = this.spend.get(key);
+    if (!window) return { date, dailyUsd: 0, monthlyUsd: 0 };
+    if (window.date === date) return window;
+    return { date, dailyUsd: 0, monthlyUsd: window.date.slice(0, 7) === date.slice(0, 7) ? window.monthlyUsd : 0 };
+  }
+
+  private startSpendRefresh(): void {
+    if (this.refreshTimer) return;
+
+    this.refreshSpend().catch(error => secureLogger.debug('Spend refresh failed', { error }));
+    this.refreshTimer = setInterval(() => {
+      this.refreshSpend().catch(error => secureLogger.debug('Spend refresh failed', { error }));
+    }, SERVER_CONSTANTS.ROUTING.SPEND_REFRESH_MS);
+    this.refreshTimer.unref();
+  }
+}
+
+// Export singleton instance
+export const usageAccountingService = new UsageAccountingService();
@@ -0,0 +1,126 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  CallToolRequestSchema,
+  ListToolsRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema
+} from "@modelcontextprotocol/sdk/types.js";
+
+import { secureLogger } from "../utils/logger.js";
+import { StandardErrorHandler } from "../utils/error-handler.js";
+import { SERVER_CONSTANTS } from "../constants/server-constants.js";
+import { ToolCaller, ToolResponse } from "../types/index.js";
+import { TOOL_DEFINITIONS } from "./tool-definitions.js";
+import { UniversalToolExecutor } from "./tool-executor.js";
+import { createToolNotifier } from "./stream-notifications.js";
+import { registerResourceHandlers, RESOURCE_CAPABILITIES } from "./resource-handlers.js";
+import { PROMPT_DEFINITIONS, getPrompt } from "./prompt-definitions.js";
+
+/**
+ * MCP server factory - one handler set for every transport (STDIO, WebSocket, Streamable HTTP),
+ * so a request behaves the same whichever way it arrives
+ */
+
+export interface McpServerOptions {
+  /** Transport name used in log lines */
+  transport: 'STDIO' | 'WebSocket' | 'HTTP';
+  /** Stream every analysis event during tools/call, not just progress */
+  streamToolOutput: boolean;
+  /** Aborts in-flight tool calls and ends resource subscriptions when the connection or session ends */
+  signal?: AbortSignal;
+  /** Authenticated caller of every tool call on this connection */
+  caller?: ToolCaller;
+  /** Client IP, for rate limiting tool calls when there is no authenticated caller */
+  clientAddress?: string;
+}
+
+/**
+ * Create an MCP server with tools, resources and prompts registered
+ * @param options - Transport name, streaming switch, connection signal, caller and client address
+ * @returns Server ready to connect to a transport
+ */
+export function createMcpServer(options: McpServerOptions): Server {
+  const server = new Server(
+    {
+      name: SERVER_CONSTANTS.NAME,
+      version: SERVER_CONSTANTS.VERSION
+    },
+    {
+      capabilities: {
+        tools: {},
+        resources: RESOURCE_CAPABILITIES,
+        prompts: {}
+      }
+    }
+  );
+
+  // List available tools
+  server.setRequestHandler(ListToolsRequestSchema, async () => {
+    return { tools: TOOL_DEFINITIONS };
+  });
+
+  // Handle tool execution
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
+    const { name, arguments: args } = request.params;
+    const startTime = Date.now();
+
+    try {
+      secureLogger.info(`Executing tool: ${name}`, { transport: options.transport, args });
+
+      // Report progress when the client asked for it; extra.signal aborts on notifications/cancelled
+      const progressToken = request.params._meta?.progressToken;
+      const onEvent = createToolNotifier(notification => extra.sendNotification(notification), {
+        requestId: extra.requestId,
+        ...(progressToken !== undefined && { progressToken }),
+        stream: options.streamToolOutput
+      });
+      const result: ToolResponse = await UniversalToolExecutor.execute(name, args, {
+        signal: options.signal ? AbortSignal.any([extra.signal, options.signal]) : extra.signal,
+        ...(onEvent && { onEvent }),
+        ...(options.caller && { caller: options.caller }),
+        ...(options.clientAddress && { clientAddress: options.clientAddress })
+      });
+
+      const duration = Date.now() - startTime;
+      secureLogger.toolExecution(name, args, duration, true);
+
+      return {
+        content: result.content,
+        ...(result.structuredContent && { structuredContent: result.structuredContent }),
+        isError: result.isError
+      };
+
+    } catch (error) {
+      const duration = Date.now() - startTime;
+      secureLogger.toolExecution(name, args, duration, false);
+      secureLogger.error(`Tool execution error: ${name}`, {
+        transport: options.transport,
+        error: StandardErrorHandler.getErrorMessage(error)
+      });
+
+      return {
+        content: [{
+          type: "text",
+          text: `❌ **Error executing ${name}**: ${StandardErrorHandler.getErrorMessage(error)}`
+        }],
+        isError: true
+      };
+    }
+  });
+
+  // Reusable analysis framings
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: PROMPT_DEFINITIONS };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+    return getPrompt(request.params.name, request.params.arguments);
+  });
+
+  // Past analyses, news, personas and the calendar as resources; subscriptions end with the connection
+  const disposeResources = registerResourceHandlers(server, options.caller);
+  options.signal?.addEventListener('abort', disposeResources, { once: true });
+  server.onclose = disposeResources;
+
+  return server;
+}
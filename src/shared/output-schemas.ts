@@ -0,0 +1,346 @@
+import { SERVER_CONSTANTS } from "../constants/server-constants.js";
+
+/**
+ * JSON Schemas for the structured output of every tool
+ * Published as `outputSchema` in TOOL_DEFINITIONS so MCP clients can validate `structuredContent`
+ */
+
+const RISK_LEVELS = ['LOW', 'MEDIUM', 'HIGH', 'CRITICAL'];
+
+const STANCES = ['bullish', 'bearish', 'neutral'];
+
+const EXTRACTION_METHODS = ['structured', 'regex_fallback', 'blocked', 'failed', 'cancelled'];
+
+const ANALYSIS_DEPTH_SCHEMA = {
+  type: "string",
+  enum: Object.values(SERVER_CONSTANTS.ANALYSIS_DEPTHS)
+};
+
+const ANALYST_OPINION_SCHEMA = {
+  type: "object",
+  properties: {
+    analyst: { type: "string" },
+    opinion: { type: "string" },
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+    reasoning: { type: "string" },
+    supporting_evidence: { type: "array", items: { type: "string" } },
+    stance: { type: "string", enum: STANCES },
+    risk_level: { type: "string", enum: RISK_LEVELS },
+    timeframe: { type: "string" },
+    extraction_method: { type: "string", enum: EXTRACTION_METHODS }
+  },
+  required: ["analyst", "opinion", "confidence", "reasoning", "supporting_evidence", "extraction_method"]
+};
+
+const DISPERSION_COMPONENT_SCHEMA = { type: ["number", "null"], minimum: 0, maximum: 1 };
+
+const DISPERSION_SCHEMA = {
+  type: "object",
+  properties: {
+    score: { type: "number", minimum: 0, maximum: 1 },
+    stance: DISPERSION_COMPONENT_SCHEMA,
+    riskLevel: DISPERSION_COMPONENT_SCHEMA,
+    timeframe: DISPERSION_COMPONENT_SCHEMA
+  },
+  required: ["score", "stance", "riskLevel", "timeframe"]
+};
+
+const POSITION_SCHEMA = {
+  type: "object",
+  properties: {
+    stance: { type: "string", enum: STANCES },
+    risk_level: { type: "string", enum: RISK_LEVELS }
+  }
+};
+
+const DEBATE_SCHEMA = {
+  type: "object",
+  properties: {
+    roundsCompleted: { type: "number" },
+    transcript: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          round: { type: "number" },
+          analyst: { type: "string" },
+          stance: { type: "string", enum: STANCES },
+          risk_level: { type: "string", enum: RISK_LEVELS },
+          confidence: { type: "number", minimum: 0, maximum: 1 },
+          opinion: { type: "string" },
+          reasoning: { type: "string" }
+        },
+        required: ["round", "analyst", "confidence", "opinion", "reasoning"]
+      }
+    },
+    positionChanges: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          analyst: { type: "string" },
+          round: { type: "number" },
+          from: POSITION_SCHEMA,
+          to: POSITION_SCHEMA
+        },
+        required: ["analyst", "round", "from", "to"]
+      }
+    },
+    dispersionByRound: { type: "array", items: { type: "number", minimum: 0, maximum: 1 } },
+    converged: { type: "boolean" }
+  },
+  required: ["roundsCompleted", "transcript", "positionChanges", "dispersionByRound", "converged"]
+};
+
+const ROUTING_SCHEMA = {
+  type: "object",
+  properties: {
+    depth: ANALYSIS_DEPTH_SCHEMA,
+    selected: { type: "array", items: { type: "string" } },
+    candidates: {
+      type: "array",
+      items: {
+        type: "object",
+        properties: {
+          analyst: { type: "string" },
+          score: { type: "number" },
+          matchedKeywords: { type: "array", items: { type: "string" } },
+          selected: { type: "boolean" },
+          reason: { type: "string" }
+        },
+        required: ["analyst", "score", "matchedKeywords", "selected", "reason"]
+      }
+    },
+    explanation: { type: "string" }
+  },
+  required: ["depth", "selected", "candidates", "explanation"]
+};
+
+const DEPTH_PROFILE_SCHEMA = {
+  type: "object",
+  properties: {
+    depth: ANALYSIS_DEPTH_SCHEMA,
+    analystWordLimit: { type: "number" },
+    consensusWordLimit: { type: "number" },
+    maxEvidencePoints: { type: "number" },
+    modelTier: { type: "string", enum: ["fast", "balanced", "premium"] },
+    minAnalysts: { type: "number" },
+    maxAnalysts: { type: ["number", "null"] },
+    debateRounds: { type: "number" },
+    verificationPasses: { type: "number" },
+    maxTokensPerCall: { type: "number" },
+    tokenBudget: { type: "number" },
+    timeoutMs: { type: "number" },
+    tokensUsed: { type: "number" },
+    budgetExhausted: { type: "boolean" }
+  },
+  required: [
+    "depth", "analystWordLimit", "consensusWordLimit", "maxEvidencePoints", "modelTier", "minAnalysts", "maxAnalysts",
+    "debateRounds", "verificationPasses", "maxTokensPerCall", "tokenBudget", "timeoutMs", "tokensUsed", "budgetExhausted"
+  ]
+};
+
+const TOKEN_USAGE_SCHEMA = {
+  type: "object",
+  properties: {
+    promptTokens: { type: "number" },
+    completionTokens: { type: "number" },
+    totalTokens: { type: "number" },
+    costUsd: { type: "number", minimum: 0 },
+    estimated: { type: "boolean" }
+  },
+  required: ["promptTokens", "completionTokens", "totalTokens", "costUsd", "estimated"]
+};
+
+const ANALYSIS_USAGE_SCHEMA = {
+  type: "object",
+  properties: {
+    total: TOKEN_USAGE_SCHEMA,
+    analysts: { type: "object", additionalProperties: TOKEN_USAGE_SCHEMA },
+    consensus: TOKEN_USAGE_SCHEMA
+  },
+  required: ["total", "analysts", "consensus"]
+};
+
+const PARTIAL_RESULT_SCHEMA = {
+  type: "object",
+  properties: {
+    reason: { type: "string", enum: ["timeout", "cancelled"] },
+    stage: { type: "string", enum: ["analysis", "debate", "consensus"] },
+    unfinishedAnalysts: { type: "array", items: { type: "string" } }
+  },
+  required: ["reason", "stage", "unfinishedAnalysts"]
+};
+
+const CONSENSUS_ANALYSIS_SCHEMA = {
+  type: "object",
+  properties: {
+    summary: { type: "string" },
+    consensus: { type: "string" },
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+    disagreements: { type: "array", items: { type: "string" } },
+    dispersion: DISPERSION_SCHEMA,
+    aggregation: {
+      type: "object",
+      properties: {
+        strategy: { type: "string", enum: Object.values(SERVER_CONSTANTS.CONSENSUS_STRATEGIES) },
+        weights: { type: "object", additionalProperties: { type: "number", minimum: 0, maximum: 1 } }
+      },
+      required: ["strategy", "weights"]
+    },
+    depthProfile: DEPTH_PROFILE_SCHEMA,
+    usage: ANALYSIS_USAGE_SCHEMA,
+    routing: ROUTING_SCHEMA,
+    debate: DEBATE_SCHEMA,
+    partial: PARTIAL_RESULT_SCHEMA,
+    analystOpinions: { type: "array", items: ANALYST_OPINION_SCHEMA },
+    recommendations: { type: "array", items: { type: "string" } },
+    riskLevel: { type: "string", enum: RISK_LEVELS },
+    timeframe: { type: "string" },
+    lastUpdated: { type: "string", format: "date-time" },
+    extractionMethod: { type: "string", enum: EXTRACTION_METHODS }
+  },
+  required: [
+    "summary", "consensus", "confidence", "disagreements", "dispersion", "aggregation", "depthProfile", "usage", "analystOpinions",
+    "recommendations", "riskLevel", "timeframe", "lastUpdated"
+  ]
+};
+
+const VERIFICATION_SCHEMA = {
+  type: "object",
+  properties: {
+    verified: { type: "boolean" },
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+    issues: { type: "array", items: { type: "string" } }
+  },
+  required: ["verified", "confidence", "issues"]
+};
+
+const NEWS_ITEM_SCHEMA = {
+  type: "object",
+  properties: {
+    id: { type: "string" },
+    title: { type: "string" },
+    content: { type: "string" },
+    source: { type: "string" },
+    url: { type: "string" },
+    publishedAt: { type: "string", format: "date-time" },
+    category: { type: "string" },
+    relevanceScore: { type: "number" },
+    sentiment: { type: "number" },
+    sourceId: { type: "string" },
+    credibility: { type: "number", minimum: 0, maximum: 1 },
+    language: { type: "string" },
+    region: { type: "string" },
+    story: {
+      type: "object",
+      properties: {
+        headline: { type: "string" },
+        sources: { type: "array", items: { type: "string" } },
+        earliestPublishedAt: { type: "string", format: "date-time" },
+        articles: {
+          type: "array",
+          items: {
+            type: "object",
+            properties: {
+              source: { type: "string" },
+              title: { type: "string" },
+              url: { type: "string" },
+              publishedAt: { type: "string", format: "date-time" }
+            },
+            required: ["source", "title", "url", "publishedAt"]
+          }
+        }
+      },
+      required: ["headline", "sources", "earliestPublishedAt", "articles"]
+    }
+  },
+  required: ["id", "title", "content", "source", "url", "publishedAt", "category", "relevanceScore"]
+};
+
+const NEWS_IMPACT_SCHEMA = {
+  type: "object",
+  properties: {
+    newsId: { type: "string" },
+    title: { type: "string" },
+    analyst: { type: "string" },
+    impact: { type: "string" },
+    confidence: { type: "number", minimum: 0, maximum: 1 },
+    severity: { type: "string", enum: [...RISK_LEVELS, 'UNKNOWN'] },
+    affectedSectors: { type: "array", items: { type: "string" } }
+  },
+  required: ["newsId", "title", "analyst", "impact", "confidence", "severity", "affectedSectors"]
+};
+
+export const CONSENSUS_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    tool: { type: "string", const: SERVER_CONSTANTS.TOOLS.MULTI_ANALYST },
+    status: { type: "string", enum: ["completed", "blocked"] },
+    analysis_depth: ANALYSIS_DEPTH_SCHEMA,
+    processing_time_ms: { type: "number" },
+    analysis: CONSENSUS_ANALYSIS_SCHEMA,
+    verification: VERIFICATION_SCHEMA,
+    usage: ANALYSIS_USAGE_SCHEMA,
+    blocked: {
+      type: "object",
+      properties: {
+        reason: { type: "string" },
+        response: { type: "string" },
+        disclaimer: { type: "string" }
+      },
+      required: ["reason", "response", "disclaimer"]
+    }
+  },
+  required: ["tool", "status", "analysis_depth", "processing_time_ms"]
+};
+
+export const BREAKING_NEWS_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    tool: { type: "string", const: SERVER_CONSTANTS.TOOLS.BREAKING_NEWS },
+    category: { type: "string" },
+    time_range: { type: "string" },
+    processing_time_ms: { type: "number" },
+    items: { type: "array", items: NEWS_ITEM_SCHEMA },
+    impact_analyses: { type: "array", items: NEWS_IMPACT_SCHEMA },
+    source_status: { type: "object" },
+    usage: ANALYSIS_USAGE_SCHEMA
+  },
+  required: ["tool", "category", "time_range", "processing_time_ms", "items", "impact_analyses"]
+};
+
+const componentSchema = (resultSchema: Record<string, unknown>) => ({
+  type: "object",
+  properties: {
+    status: { type: "string", enum: ["success", "error", "not_requested"] },
+    error: { type: "string" },
+    result: resultSchema
+  },
+  required: ["status"]
+});
+
+export const COMPLETE_ANALYSIS_OUTPUT_SCHEMA = {
+  type: "object" as const,
+  properties: {
+    tool: { type: "string", const: SERVER_CONSTANTS.TOOLS.COMPLETE_ANALYSIS },
+    query: { type: "string" },
+    analysis_depth: ANALYSIS_DEPTH_SCHEMA,
+    timestamp: { type: "string", format: "date-time" },
+    processing_time_ms: { type: "number" },
+    unified_insights: { type: "string" },
+    consensus: componentSchema(CONSENSUS_OUTPUT_SCHEMA),
+    breaking_news: componentSchema(BREAKING_NEWS_OUTPUT_SCHEMA),
+    usage: ANALYSIS_USAGE_SCHEMA
+  },
+  required: ["tool", "query", "analysis_depth", "timestamp", "processing_time_ms", "unified_insights", "consensus", "breaking_news"]
+};
+
+/**
+ * Input schema fragment shared by every tool for selecting the response format
+ */
+export const OUTPUT_FORMAT_PROPERTY = {
+  type: "string",
+  enum: Object.values(SERVER_CONSTANTS.OUTPUT_FORMATS),
+  description: "Response format: 'markdown' (default) for a human-readable report, 'json' for the full typed payload as text. structuredContent is always returned"
+};
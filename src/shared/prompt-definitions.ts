@@ -0,0 +1,108 @@
+import { ErrorCode, GetPromptResult, McpError, Prompt } from "@modelcontextprotocol/sdk/types.js";
+import { SERVER_CONSTANTS } from "../constants/server-constants.js";
+import { CompleteAnalysisArgs } from "../tools/complete-financial-intelligence-analysis.js";
+
+/**
+ * Reusable analysis framings exposed as MCP prompts
+ * Each prompt expands into a pre-filled complete_financial_intelligence_analysis call,
+ * so the framing, news categories, depth and panel are the same every time
+ */
+
+interface PromptTemplate extends Prompt {
+  /** Tool arguments for the given prompt arguments (required ones are checked beforehand) */
+  buildToolArgs: (args: Record<string, string>) => CompleteAnalysisArgs;
+}
+
+const PROMPT_TEMPLATES: PromptTemplate[] = [
+  {
+    name: 'pre_fomc_briefing',
+    title: 'Pre-FOMC briefing',
+    description: 'Rate decision expectations, guidance and market positioning ahead of a Federal Reserve meeting',
+    arguments: [
+      { name: 'meeting_date', description: "Date of the FOMC meeting, e.g. '2026-12-16' (default: the next meeting)", required: false },
+      { name: 'focus', description: "Extra angle to cover, e.g. 'balance sheet runoff'", required: false }
+    ],
+    buildToolArgs: args => ({
+      query: `Pre-FOMC briefing ahead of ${args.meeting_date ? `the ${args.meeting_date}` : 'the next'} Federal Reserve meeting: ` +
+        'rate decision expectations, forward guidance and dot plot risks, and how rates, FX and equities are positioned' +
+        (args.focus ? `, with particular attention to ${args.focus}` : ''),
+      analysis_depth: 'deep',
+      news_categories: ['economics', 'forex', 'stocks'],
+      time_range: '24h',
+      sage_perspectives: ['economic_analyst', 'financial_analyst', 'behavioral_analyst', 'political_analyst']
+    })
+  },
+  {
+    name: 'earnings_week_risk_scan',
+    title: 'Earnings-week risk scan',
+    description: 'Downside and upside risks for the companies reporting this week',
+    arguments: [
+      { name: 'tickers', description: "Comma-separated tickers reporting this week, e.g. 'AAPL, MSFT, NVDA'", required: true },
+      { name: 'sector', description: "Sector the scan should keep in view, e.g. 'semiconductors'", required: false }
+    ],
+    buildToolArgs: args => ({
+      query: `Earnings-week risk scan for ${args.tickers}${args.sector ? ` (${args.sector})` : ''}: ` +
+        'consensus expectations, guidance risks, positioning and likely market reaction to beats or misses',
+      analysis_depth: 'standard',
+      news_categories: ['stocks'],
+      time_range: '24h',
+      sage_perspectives: ['financial_analyst', 'tech_analyst', 'behavioral_analyst']
+    })
+  },
+  {
+    name: 'weekend_geopolitical_wrap',
+    title: 'Weekend geopolitical wrap',
+    description: "The week's geopolitical developments and what they mean for Monday's open",
+    arguments: [
+      { name: 'regions', description: "Regions to concentrate on, e.g. 'Middle East, Taiwan Strait'", required: false }
+    ],
+    buildToolArgs: args => ({
+      query: `Weekend geopolitical wrap${args.regions ? ` focused on ${args.regions}` : ''}: ` +
+        "key conflicts, sanctions and policy moves of the week and their implications for commodities, currencies and Monday's open",
+      analysis_depth: 'standard',
+      news_categories: ['politics', 'commodities', 'forex'],
+      time_range: '24h',
+      sage_perspectives: ['geopolitical_analyst', 'political_analyst', 'economic_analyst']
+    })
+  }
+];
+
+/**
+ * Prompt definitions for prompts/list
+ */
+export const PROMPT_DEFINITIONS: Prompt[] = PROMPT_TEMPLATES.map(({ buildToolArgs: _buildToolArgs, ...prompt }) => prompt);
+
+/**
+ * Expand a prompt for prompts/get
+ * @param name - Prompt name
+ * @param args - Prompt arguments supplied by the client
+ * @returns A user message asking for the pre-filled tool call
+ * @throws McpError - InvalidParams for unknown prompts or missing required arguments
+ */
+export function getPrompt(name: string, args: Record<string, string> = {}): GetPromptResult {
+  const template = PROMPT_TEMPLATES.find(prompt => prompt.name === name);
+  if (!template) {
+    throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+
+  const missing = (template.arguments ?? []).filter(arg => arg.required && !args[arg.name]?.trim());
+  if (missing.length > 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Missing required argument(s) for ${name}: ${missing.map(arg => arg.name).join(', ')}`);
+  }
+
+  const toolArgs = template.buildToolArgs(args);
+
+  return {
+    description: template.description,
+    messages: [
+      {
+        role: 'user',
+        content: {
+          type: 'text',
+          text: `${template.title}: call the \`${SERVER_CONSTANTS.TOOLS.COMPLETE_ANALYSIS}\` tool with these arguments and summarize the result.\n\n` +
+            '```json\n' + JSON.stringify(toolArgs, null, 2) + '\n```'
+        }
+      }
+    ]
+  };
+}
@@ -0,0 +1,70 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+  ErrorCode,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  McpError,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema
+} from "@modelcontextprotocol/sdk/types.js";
+
+import { mcpResourceService } from "../services/mcp-resources.js";
+import { secureLogger } from "../utils/logger.js";
+import { ToolCaller } from "../types/index.js";
+
+/**
+ * MCP resource handlers - shared by every transport that keeps a session open (STDIO, WebSocket)
+ */
+
+export const RESOURCE_CAPABILITIES = { subscribe: true, listChanged: true } as const;
+
+/**
+ * Register resources/list, resources/templates/list, resources/read and (un)subscribe on a server
+ * Subscriptions belong to this server's session; call the returned function when it closes
+ * @param server - MCP server created with the resources capability
+ * @param caller - Authenticated caller of the session; stored analyses are limited to its tenant
+ * @returns Function that stops update notifications for this session
+ */
+export function registerResourceHandlers(server: Server, caller?: ToolCaller): () => void {
+  const subscriptions = new Set<string>();
+
+  server.setRequestHandler(ListResourcesRequestSchema, async () => {
+    return { resources: await mcpResourceService.listResources(caller) };
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates: mcpResourceService.listResourceTemplates() };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+    return await mcpResourceService.readResource(request.params.uri, caller);
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+    const { uri } = request.params;
+    if (!mcpResourceService.isKnownUri(uri)) {
+      throw new McpError(ErrorCode.InvalidParams, `Cannot subscribe to unknown resource: ${uri}`);
+    }
+    subscriptions.add(uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  return mcpResourceService.onChange(change => {
+    const notification = change.type === 'list_changed'
+      ? server.sendResourceListChanged()
+      : subscriptions.has(change.uri) ? server.sendResourceUpdated({ uri: change.uri }) : null;
+
+    notification?.catch(error => {
+      secureLogger.debug('Resource notification dropped', {
+        change: change.type,
+        error: error instanceof Error ? error.message : String(error)
+      });
+    });
+  });
+}
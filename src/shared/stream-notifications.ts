@@ -0,0 +1,123 @@
+import { Notification, ProgressToken, RequestId } from "@modelcontextprotocol/sdk/types.js";
+
+import { SERVER_CONSTANTS } from "../constants/server-constants.js";
+import { AnalysisEventListener, AnalysisStreamEvent } from "../types/index.js";
+import { secureLogger } from "../utils/logger.js";
+
+/**
+ * Tool notifications - turns live analysis events into MCP notifications
+ * Streaming is offered on WebSocket and HTTP SSE; progress on every transport that can push messages
+ */
+
+export type NotificationSender = (notification: Notification) => Promise<void>;
+
+export interface ToolNotifierOptions {
+  /** JSON-RPC id of the tools/call request, so clients can tell concurrent calls apart */
+  requestId: RequestId;
+  /** Token from the request's `_meta.progressToken`; progress is only reported when present */
+  progressToken?: ProgressToken;
+  /** Also stream every analysis event, including analyst text as it is written */
+  stream: boolean;
+}
+
+/**
+ * Build the event listener a transport hands to a tool call
+ * @param send - Sends one notification on the caller's transport
+ * @param options - Request correlation, progress token and streaming switch
+ * @returns Listener for ToolExecutionContext.onEvent, or undefined when nothing would be sent
+ */
+export function createToolNotifier(send: NotificationSender, options: ToolNotifierOptions): AnalysisEventListener | undefined {
+  return combineListeners(
+    options.stream ? createStreamNotifier(send, options.requestId) : undefined,
+    options.progressToken !== undefined ? createProgressNotifier(send, options.progressToken) : undefined
+  );
+}
+
+/**
+ * Send without awaiting - a dropped notification must never fail the tool call
+ */
+function deliver(send: NotificationSender, notification: Notification): void {
+  send(notification).catch(error => {
+    secureLogger.debug('Notification dropped', {
+      method: notification.method,
+      error: error instanceof Error ? error.message : String(error)
+    });
+  });
+}
+
+/**
+ * Forward every analysis event as a `notifications/analysis/stream` notification
+ */
+function createStreamNotifier(send: NotificationSender, requestId: RequestId): AnalysisEventListener {
+  return (event: AnalysisStreamEvent) => {
+    deliver(send, {
+      method: SERVER_CONSTANTS.STREAMING.NOTIFICATION_METHOD,
+      params: { requestId, event }
+    });
+  };
+}
+
+/**
+ * Human-readable progress message for the events that mark a step of a tool run,
+ * or null for events that are not progress steps (tokens, debate rounds)
+ */
+function describeProgressStep(event: AnalysisStreamEvent): string | null {
+  switch (event.type) {
+    case 'validation_completed':
+      return event.allowed ? 'Input validated' : 'Input blocked by validation';
+    case 'analyst_started':
+      return event.round === 0 ? `${event.analyst} started` : null;
+    case 'analyst_completed':
+      return event.round === 0 ? `${event.analyst} finished` : null;
+    case 'consensus_started':
+      return 'Building consensus';
+    case 'consensus_completed':
+      return 'Consensus built';
+    case 'verification_started':
+      return `Triple verification pass ${event.pass} started`;
+    case 'verification_completed':
+      return `Triple verification pass ${event.pass} ${event.verified ? 'passed' : 'flagged'}`;
+    case 'news_fetched':
+      return `${event.items} ${event.category} news item(s) fetched`;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Send MCP `notifications/progress` for every step of a tool run
+ * The total grows as work becomes known: choosing a panel of n analysts adds their
+ * start and finish plus the two consensus steps, other steps count themselves
+ */
+function createProgressNotifier(send: NotificationSender, progressToken: ProgressToken): AnalysisEventListener {
+  let progress = 0;
+  let total = 0;
+
+  return (event: AnalysisStreamEvent) => {
+    if (event.type === 'analysis_started') {
+      total += event.analysts.length * 2 + 2;
+      return;
+    }
+
+    const message = describeProgressStep(event);
+    if (message === null) return;
+
+    progress++;
+    const planned = event.type === 'validation_completed' || event.type.startsWith('verification_') || event.type === 'news_fetched';
+    if (planned) total++;
+
+    deliver(send, {
+      method: 'notifications/progress',
+      params: { progressToken, progress, total: Math.max(total, progress), message }
+    });
+  };
+}
+
+/**
+ * Combine listeners into one, skipping the ones that are not set
+ */
+function combineListeners(...listeners: Array<AnalysisEventListener | undefined>): AnalysisEventListener | undefined {
+  const active = listeners.filter((listener): listener is AnalysisEventListener => listener !== undefined);
+  if (active.length <= 1) return active[0];
+  return event => active.forEach(listener => listener(event));
+}
@@ -1,5 +1,12 @@
 import { Tool } from "@modelcontextprotocol/sdk/types.js";
 import { SERVER_CONSTANTS, TOOL_DESCRIPTIONS } from "../constants/server-constants.js";
+import {
+  COMPLETE_ANALYSIS_OUTPUT_SCHEMA,
+  CONSENSUS_OUTPUT_SCHEMA,
+  BREAKING_NEWS_OUTPUT_SCHEMA,
+  OUTPUT_FORMAT_PROPERTY
+} from "./output-schemas.js";
+import { customAnalystRegistry } from "../services/custom-analysts.js";
 
 /**
  * Centralized tool definitions to eliminate code duplication across server implementations
@@ -19,7 +26,7 @@ export const TOOL_DEFINITIONS: Tool[] = [
         analysis_depth: {
           type: "string",
           enum: [SERVER_CONSTANTS.ANALYSIS_DEPTHS.QUICK, SERVER_CONSTANTS.ANALYSIS_DEPTHS.STANDARD, SERVER_CONSTANTS.ANALYSIS_DEPTHS.DEEP],
-          description: "Depth of analysis: 'quick' (30s), 'standard' (60s), 'deep' (120s)"
+          description: "Depth profile: 'quick' (fast models, 1-2 analysts, ~30s), 'standard' (default models, 3-4 analysts, ~60s), 'deep' (premium models, all analysts, debate and re-verification, ~120s)"
         },
         include_news: {
           type: "boolean",
@@ -42,19 +49,26 @@ export const TOOL_DEFINITIONS: Tool[] = [
         time_range: {
           type: "string",
           enum: Object.values(SERVER_CONSTANTS.TIME_RANGES),
-          description: "Time range for news analysis (default: '6h')"
+          description: "Time range for news analysis (default: '6h'); '3d' and '7d' draw on the stored article history"
         },
         sage_perspectives: {
           type: "array",
           items: {
             type: "string",
-            enum: SERVER_CONSTANTS.ANALYST_TYPES
+            enum: customAnalystRegistry.getAnalystTypes()
           },
-          description: "Optional: Specify which analysts to include (default: all 7)"
-        }
+          description: "Optional: Specify which analysts to include. When omitted, the most relevant analysts are selected automatically (quick: up to 2, standard: up to 4, deep: all)"
+        },
+        consensus_strategy: {
+          type: "string",
+          enum: Object.values(SERVER_CONSTANTS.CONSENSUS_STRATEGIES),
+          description: "How analyst opinions are weighted: 'simple_mean' (default, equal weights), 'confidence_weighted', 'specialty_weighted' (analysts matching the topic count more), or 'calibrated' (historical hit rates)"
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
       },
       required: ["query"]
-    }
+    },
+    outputSchema: COMPLETE_ANALYSIS_OUTPUT_SCHEMA
   },
   {
     name: SERVER_CONSTANTS.TOOLS.MULTI_ANALYST,
@@ -69,19 +83,37 @@ export const TOOL_DEFINITIONS: Tool[] = [
         analysis_depth: {
           type: "string",
           enum: [SERVER_CONSTANTS.ANALYSIS_DEPTHS.QUICK, SERVER_CONSTANTS.ANALYSIS_DEPTHS.STANDARD, SERVER_CONSTANTS.ANALYSIS_DEPTHS.DEEP],
-          description: "Depth of analysis: 'quick' (30s), 'standard' (60s), 'deep' (120s)"
+          description: "Depth profile: 'quick' (fast models, 1-2 analysts, ~30s), 'standard' (default models, 3-4 analysts, ~60s), 'deep' (premium models, all analysts, debate and re-verification, ~120s)"
         },
         sage_perspectives: {
           type: "array",
           items: {
             type: "string",
-            enum: SERVER_CONSTANTS.ANALYST_TYPES
+            enum: customAnalystRegistry.getAnalystTypes()
           },
-          description: "Optional: Specify which analysts to include (default: all 7)"
-        }
+          description: "Optional: Specify which analysts to include. When omitted, the most relevant analysts are selected automatically (quick: up to 2, standard: up to 4, deep: all)"
+        },
+        consensus_strategy: {
+          type: "string",
+          enum: Object.values(SERVER_CONSTANTS.CONSENSUS_STRATEGIES),
+          description: "How analyst opinions are weighted: 'simple_mean' (default, equal weights), 'confidence_weighted', 'specialty_weighted' (analysts matching the topic count more), or 'calibrated' (historical hit rates)"
+        },
+        analysis_mode: {
+          type: "string",
+          enum: Object.values(SERVER_CONSTANTS.ANALYSIS_MODES),
+          description: "'independent': each analyst answers once in isolation. 'debate': analysts see each other's anonymized positions and get rebuttal rounds before the consensus. Default comes from the depth profile ('deep' debates, others do not)"
+        },
+        debate_rounds: {
+          type: "number",
+          minimum: 1,
+          maximum: SERVER_CONSTANTS.DEBATE.MAX_ROUNDS,
+          description: "Rebuttal rounds in debate mode (default: the depth profile's rounds, or 2). Stops early when no analyst changes position"
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
       },
       required: ["news_item"]
-    }
+    },
+    outputSchema: CONSENSUS_OUTPUT_SCHEMA
   },
   {
     name: SERVER_CONSTANTS.TOOLS.BREAKING_NEWS,
@@ -103,13 +135,15 @@ export const TOOL_DEFINITIONS: Tool[] = [
         time_range: {
           type: "string",
           enum: Object.values(SERVER_CONSTANTS.TIME_RANGES),
-          description: "Time range for news items (default: '6h')"
+          description: "Time range for news items (default: '6h'); '3d' and '7d' draw on the stored article history"
         },
         include_analysis: {
           type: "boolean",
           description: "Whether to include impact analysis for each news item (default: true)"
-        }
+        },
+        output_format: OUTPUT_FORMAT_PROPERTY
       }
-    }
+    },
+    outputSchema: BREAKING_NEWS_OUTPUT_SCHEMA
   }
 ];
\ No newline at end of file
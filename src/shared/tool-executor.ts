@@ -1,4 +1,10 @@
-import { ToolResponse } from "../types/index.js";
+import { ToolExecutionContext, ToolResponse } from "../types/index.js";
+import { SERVER_CONSTANTS } from "../constants/server-constants.js";
+import { withDeadline } from "../utils/cancellation.js";
+import { addTokenUsage, emptyTokenUsage } from "../utils/token-usage.js";
+import { secureLogger } from "../utils/logger.js";
+import { apiKeyService } from "../services/api-keys.js";
+import { rateLimiterService } from "../services/rate-limiter.js";
 
 // Import tool implementations
 import { multiAnalystConsensus } from "../tools/multi-analyst-consensus.js";
@@ -12,21 +18,69 @@ import { completeFinancialIntelligenceAnalysis } from "../tools/complete-financi
 export class UniversalToolExecutor {
   /**
    * Execute a tool by name with the provided arguments
+   * Every call runs under the TOOL_EXECUTION deadline; tools return partial results when it hits
+   * Network calls count against the tool's cheap or expensive rate limit bucket, per tenant or client IP.
+   * Calls made with an API key are refused once the tenant's daily token budget is spent,
+   * and the tokens and cost they use are recorded against the tenant
    * @param toolName - Name of the tool to execute
    * @param args - Arguments to pass to the tool
+   * @param context - Transport cancellation signal, streaming event listener, caller and client address
    * @returns Promise<ToolResponse> - The tool execution result
    * @throws Error - If tool name is unknown or execution fails
+   * @throws RateLimitError - If the tool's rate limit bucket is full
+   * @throws ApiKeyError - If the caller's token budget is exhausted
    */
-  static async execute(toolName: string, args: any): Promise<ToolResponse> {
+  static async execute(toolName: string, args: any, context: ToolExecutionContext = {}): Promise<ToolResponse> {
+    const { caller } = context;
+    const clientId = caller ? `tenant:${caller.apiKey.tenant}` : context.clientAddress && `ip:${context.clientAddress}`;
+    if (clientId && this.hasToolName(toolName)) {
+      await rateLimiterService.consume(rateLimiterService.getToolBucket(toolName), clientId);
+    }
+    if (caller) {
+      await apiKeyService.assertWithinBudget(caller.apiKey);
+    }
+    
+    let usage = emptyTokenUsage();
+    const toolContext: ToolExecutionContext = {
+      ...context,
+      signal: withDeadline(SERVER_CONSTANTS.TIMEOUTS.TOOL_EXECUTION, context.signal),
+      onTokenUsage: analysisUsage => {
+        usage = addTokenUsage(usage, analysisUsage);
+        context.onTokenUsage?.(analysisUsage);
+      }
+    };
+    
+    const startTime = Date.now();
+    let success = false;
+    try {
+      const result = await this.dispatch(toolName, args, toolContext);
+      success = !result.isError;
+      return result;
+    } finally {
+      if (caller) {
+        const query = args?.query ?? args?.news_item;
+        apiKeyService.recordToolUsage(caller, {
+          toolName,
+          ...(typeof query === 'string' && { query: query.slice(0, 200) }),
+          processingTime: Date.now() - startTime,
+          success,
+          tokensUsed: usage.totalTokens,
+          costUsd: usage.costUsd
+        }).catch(error => secureLogger.error('Failed to record API key usage', { toolName, error }));
+      }
+    }
+  }
+
+  private static async dispatch(toolName: string, args: any, toolContext: ToolExecutionContext): Promise<ToolResponse> {
     switch (toolName) {
       case "complete_financial_intelligence_analysis":
-        return await completeFinancialIntelligenceAnalysis(args as any);
+        return await completeFinancialIntelligenceAnalysis(args as any, toolContext);
         
       case "multi_analyst_consensus":
-        return await multiAnalystConsensus(args);
+        return await multiAnalystConsensus(args, toolContext);
         
       case "fetch_breaking_news":
-        return await fetchBreakingNews(args);
+        return await fetchBreakingNews(args, toolContext);
         
       default:
         throw new Error(`Unknown tool: ${toolName}`);
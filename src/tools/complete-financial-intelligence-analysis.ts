@@ -1,10 +1,22 @@
-import { ToolResponse } from '../types/index.js';
+import { 
+  ToolResponse, 
+  OutputFormat, 
+  ConsensusStrategy,
+  AnalysisDepth,
+  ConsensusToolOutput, 
+  BreakingNewsToolOutput, 
+  CompleteAnalysisToolOutput,
+  ToolExecutionContext,
+  AnalysisUsage
+} from '../types/index.js';
 import { secureLogger } from '../utils/logger.js';
 import { StandardErrorHandler } from '../utils/error-handler.js';
 import { SERVER_CONSTANTS } from '../constants/server-constants.js';
 import { multiAnalystConsensus } from './multi-analyst-consensus.js';
 import { fetchBreakingNews } from './fetch-breaking-news.js';
 import { databaseManager } from '../services/database-manager.js';
+import { createStructuredToolResponse } from '../utils/structured-output.js';
+import { addAnalysisUsage, describeTokenUsage } from '../utils/token-usage.js';
 
 /**
  * Complete Financial Intelligence Analysis Tool
@@ -24,31 +36,40 @@ export interface CompleteAnalysisArgs {
   include_news?: boolean;
   news_categories?: string[];
   max_news_items?: number;
-  time_range?: '1h' | '6h' | '12h' | '24h';
+  time_range?: '1h' | '6h' | '12h' | '24h' | '3d' | '7d';
   sage_perspectives?: string[];
+  consensus_strategy?: ConsensusStrategy;
+  output_format?: OutputFormat;
 }
 
-export async function completeFinancialIntelligenceAnalysis(args: CompleteAnalysisArgs): Promise<ToolResponse> {
+/**
+ * Shape stored in the analysis cache: the markdown report plus its structured payload
+ */
+interface CachedCompleteAnalysis {
+  text: string;
+  structured: CompleteAnalysisToolOutput;
+}
+
+export async function completeFinancialIntelligenceAnalysis(args: CompleteAnalysisArgs, context: ToolExecutionContext = {}): Promise<ToolResponse> {
   const startTime = Date.now();
   const analysisType = 'complete_intelligence';
   
   try {
     const params = parseAnalysisParameters(args);
+    const cacheVariant = buildCacheVariant(args, params);
     
     // Check for cached results first
     if (databaseManager.isCachingAvailable()) {
-      const cachedResult = await databaseManager.getCachedAnalysis(args.query, analysisType);
-      if (cachedResult) {
+      const cachedResult = await databaseManager.getCachedAnalysis(args.query, analysisType, cacheVariant, context.caller?.apiKey.tenant);
+      // Entries cached before structured output existed are plain markdown strings - treat as a miss
+      if (isCachedCompleteAnalysis(cachedResult)) {
         secureLogger.info('Serving cached complete financial intelligence analysis', {
           query: args.query,
           cacheAge: 'from_cache'
         });
 
         return {
-          content: [{ 
-            type: "text", 
-            text: cachedResult 
-          }],
+          ...createStructuredToolResponse(cachedResult.structured, cachedResult.text, params.outputFormat),
           isError: false
         };
       }
@@ -62,36 +83,38 @@ export async function completeFinancialIntelligenceAnalysis(args: CompleteAnalys
     });
 
     const results = initializeResultsObject(args.query, params.analysisDepth);
-    const analysisResults = await executeAnalysisOperations(args, params);
+    const analysisResults = await executeAnalysisOperations(args, params, context);
     
     processAnalysisResults(analysisResults, results, args.query);
     
     results.unified_insights = generateUnifiedInsights(results);
     results.processing_time_ms = Date.now() - startTime;
 
-    const responseText = formatCompleteAnalysisResponse(results);
+    const structuredOutput = buildCompleteAnalysisOutput(results);
+    const responseText = formatCompleteAnalysisResponse(results, structuredOutput);
 
-    logSuccessfulCompletion(args.query, results);
+    logSuccessfulCompletion(args.query, results, structuredOutput);
 
-    // Store results in database for caching
-    if (databaseManager.isAvailable()) {
+    // Store results in database for caching - results cut short by a deadline are never cached
+    const partial = !!structuredOutput.consensus.result?.analysis?.partial || !!context.signal?.aborted;
+    if (databaseManager.isAvailable() && !partial) {
+      const cacheEntry: CachedCompleteAnalysis = { text: responseText, structured: structuredOutput };
       databaseManager.storeAnalysisResult(
         args.query,
         analysisType,
-        responseText,
+        cacheEntry,
         {
           processingTime: results.processing_time_ms,
           provider: 'complete_intelligence',
-          tokensUsed: extractTokenUsage(results)
-        }
+          ...(structuredOutput.usage && { tokensUsed: structuredOutput.usage.total.totalTokens })
+        },
+        context.caller && { apiKeyId: context.caller.apiKey.id, tenant: context.caller.apiKey.tenant },
+        cacheVariant
       ).catch(error => secureLogger.debug('Failed to cache analysis result:', error));
     }
 
     return {
-      content: [{ 
-        type: "text", 
-        text: responseText 
-      }],
+      ...createStructuredToolResponse(structuredOutput, responseText, params.outputFormat),
       isError: false
     };
 
@@ -107,10 +130,30 @@ function parseAnalysisParameters(args: CompleteAnalysisArgs) {
     newsCategories: args.news_categories || ['all'],
     maxNewsItems: args.max_news_items || 10,
     timeRange: args.time_range || '6h',
-    sagePersp: args.sage_perspectives
+    sagePersp: args.sage_perspectives,
+    outputFormat: args.output_format || 'markdown'
   };
 }
 
+/**
+ * Every option that changes the analysis, so a cached result is only served for the same request
+ * (output_format is left out - the cache holds both the markdown and the structured payload)
+ */
+function buildCacheVariant(args: CompleteAnalysisArgs, params: ReturnType<typeof parseAnalysisParameters>): string {
+  return JSON.stringify({
+    depth: params.analysisDepth,
+    sages: params.sagePersp ?? null,
+    strategy: args.consensus_strategy ?? null,
+    news: params.includeNews
+      ? { category: params.newsCategories[0] || 'all', maxItems: params.maxNewsItems, timeRange: params.timeRange }
+      : null
+  });
+}
+
+function isCachedCompleteAnalysis(value: unknown): value is CachedCompleteAnalysis {
+  return !!value && typeof value === 'object' && 'text' in value && 'structured' in value;
+}
+
 function initializeResultsObject(query: string, analysisDepth: string) {
   return {
     query,
@@ -124,7 +167,7 @@ function initializeResultsObject(query: string, analysisDepth: string) {
   };
 }
 
-async function executeAnalysisOperations(args: CompleteAnalysisArgs, params: any) {
+async function executeAnalysisOperations(args: CompleteAnalysisArgs, params: any, context: ToolExecutionContext) {
   const analysisPromises: Promise<any>[] = [];
 
   // 1. Multi-Analyst Consensus Analysis
@@ -132,8 +175,9 @@ async function executeAnalysisOperations(args: CompleteAnalysisArgs, params: any
     multiAnalystConsensus({
       news_item: args.query,
       analysis_depth: params.analysisDepth,
-      ...(params.sagePersp && { sage_perspectives: params.sagePersp })
-    }).then(result => ({ type: 'consensus', result }))
+      ...(params.sagePersp && { sage_perspectives: params.sagePersp }),
+      ...(args.consensus_strategy && { consensus_strategy: args.consensus_strategy })
+    }, context).then(result => ({ type: 'consensus', result }))
   );
 
   // 2. Breaking News Analysis (if requested)
@@ -144,7 +188,7 @@ async function executeAnalysisOperations(args: CompleteAnalysisArgs, params: any
         max_items: params.maxNewsItems,
         time_range: params.timeRange,
         include_analysis: true
-      }).then(result => ({ type: 'news', result }))
+      }, context).then(result => ({ type: 'news', result }))
     );
   }
 
@@ -170,20 +214,60 @@ function processAnalysisResults(analysisResults: PromiseSettledResult<any>[], re
   }
 }
 
-function createAnalysisResult(toolResult: any, defaultContent: string) {
+function createAnalysisResult(toolResult: ToolResponse, defaultContent: string) {
   return {
     status: toolResult.isError ? 'error' : 'success',
     content: toolResult.content[0]?.text || defaultContent,
+    structured: toolResult.structuredContent,
     isError: toolResult.isError
   };
 }
 
-function logSuccessfulCompletion(query: string, results: any) {
+/**
+ * Build the machine-readable payload from the combined results
+ */
+function buildCompleteAnalysisOutput(results: any): CompleteAnalysisToolOutput {
+  const consensus = buildComponentOutput<ConsensusToolOutput>(results.consensus_analysis);
+  const breakingNews = buildComponentOutput<BreakingNewsToolOutput>(results.breaking_news);
+  // Both components call the AI providers: the consensus, and the news tool's impact analyses
+  const componentUsage = [consensus.result?.usage, breakingNews.result?.usage].filter((usage): usage is AnalysisUsage => !!usage);
+  const usage = componentUsage.length > 0 ? componentUsage.reduce(addAnalysisUsage) : undefined;
+  
+  return {
+    tool: 'complete_financial_intelligence_analysis',
+    query: results.query,
+    analysis_depth: results.analysis_depth as AnalysisDepth,
+    timestamp: results.timestamp,
+    processing_time_ms: results.processing_time_ms,
+    unified_insights: results.unified_insights,
+    consensus,
+    breaking_news: breakingNews,
+    ...(usage && { usage })
+  };
+}
+
+function buildComponentOutput<T>(analysisResult: any): { status: 'success' | 'error' | 'not_requested'; error?: string; result?: T } {
+  if (!analysisResult) {
+    return { status: 'not_requested' };
+  }
+  
+  if (analysisResult.isError) {
+    return { status: 'error', error: analysisResult.content };
+  }
+  
+  return analysisResult.structured
+    ? { status: 'success', result: analysisResult.structured as T }
+    : { status: 'success' };
+}
+
+function logSuccessfulCompletion(query: string, results: any, output: CompleteAnalysisToolOutput) {
   secureLogger.info('Complete financial intelligence analysis completed', {
     query,
     processingTime: results.processing_time_ms,
     hasConsensus: !!results.consensus_analysis && !results.consensus_analysis.isError,
-    hasNews: !!results.breaking_news && !results.breaking_news.isError
+    hasNews: !!results.breaking_news && !results.breaking_news.isError,
+    tokensUsed: output.usage?.total.totalTokens ?? 0,
+    costUsd: output.usage?.total.costUsd ?? 0
   });
 }
 
@@ -235,7 +319,7 @@ function generateUnifiedInsights(results: any): string {
 /**
  * Formats the complete analysis response for optimal readability
  */
-function formatCompleteAnalysisResponse(results: any): string {
+function formatCompleteAnalysisResponse(results: any, output: CompleteAnalysisToolOutput): string {
   const sections = [];
 
   // Header
@@ -278,6 +362,9 @@ function formatCompleteAnalysisResponse(results: any): string {
   sections.push(`- **Breaking News:** ${newsStatus}`);
   sections.push(`- **Total Processing Time:** ${(results.processing_time_ms / 1000).toFixed(1)}s`);
   sections.push(`- **Analysis Depth:** ${results.analysis_depth.toUpperCase()}`);
+  if (output.usage) {
+    sections.push(`- **AI Usage:** ${describeTokenUsage(output.usage.total)}`);
+  }
   
   sections.push(`\n*🤖 Generated by Universal MCP Financial Intelligence v${SERVER_CONSTANTS.VERSION}*`);
 
@@ -298,36 +385,3 @@ function getAnalysisStatus(analysisResult: any): string {
   
   return '✅ Success';
 }
-
-/**
- * Extract token usage from analysis results for database storage
- */
-function extractTokenUsage(results: any): number {
-  let totalTokens = 0;
-  
-  // Try to extract token usage from consensus analysis
-  if (results.consensus_analysis && !results.consensus_analysis.isError) {
-    // This would need to be implemented based on how tokens are tracked
-    // For now, estimate based on analysis complexity
-    totalTokens += estimateTokenUsage(results.consensus_analysis.content);
-  }
-  
-  // Try to extract token usage from news analysis
-  if (results.breaking_news && !results.breaking_news.isError) {
-    totalTokens += estimateTokenUsage(results.breaking_news.content);
-  }
-  
-  return totalTokens;
-}
-
-/**
- * Estimate token usage based on content length (rough approximation)
- */
-function estimateTokenUsage(content: string): number {
-  if (typeof content !== 'string') {
-    return 0;
-  }
-  
-  // Rough approximation: ~4 characters per token on average
-  return Math.ceil(content.length / 4);
-}
\ No newline at end of file
@@ -1,8 +1,13 @@
 import { z } from 'zod';
 import { newsFetcherService } from '../services/news-fetcher.js';
+import { articleFetcherService } from '../services/article-fetcher.js';
 import { analystManager } from '../services/analysts.js';
+import { analystRouter } from '../services/analyst-router.js';
 import { secureLogger } from '../utils/logger.js';
-import { ToolResponse, NewsItem } from '../types/index.js';
+import { ToolResponse, NewsItem, NewsImpactAnalysis, BreakingNewsToolOutput, ToolExecutionContext, AnalysisUsage } from '../types/index.js';
+import { SERVER_CONSTANTS } from '../constants/server-constants.js';
+import { createStructuredToolResponse } from '../utils/structured-output.js';
+import { addTokenUsage, describeTokenUsage, emptyAnalysisUsage } from '../utils/token-usage.js';
 
 /**
  * Input validation schema for fetch_breaking_news tool
@@ -18,33 +23,62 @@ const fetchBreakingNewsSchema = z.object({
     .optional()
     .default(10),
   
-  time_range: z.enum(["1h", "6h", "12h", "24h"])
+  time_range: z.enum(["1h", "6h", "12h", "24h", "3d", "7d"])
     .optional()
     .default("6h"),
   
   include_analysis: z.boolean()
     .optional()
-    .default(true)
+    .default(true),
+  
+  output_format: z.enum([SERVER_CONSTANTS.OUTPUT_FORMATS.MARKDOWN, SERVER_CONSTANTS.OUTPUT_FORMATS.JSON] as const)
+    .optional()
+    .default(SERVER_CONSTANTS.OUTPUT_FORMATS.MARKDOWN)
 });
 
 /**
  * Analyze news impact using our analyst system
  */
-async function analyzeNewsImpact(newsItems: NewsItem[]): Promise<Record<string, any>[]> {
-  const analyses: Record<string, any>[] = [];
+async function analyzeNewsImpact(
+  newsItems: NewsItem[],
+  context: ToolExecutionContext
+): Promise<{ analyses: NewsImpactAnalysis[]; usage: AnalysisUsage }> {
+  const analyses: NewsImpactAnalysis[] = [];
+  // Collected from each assessment's token report, which still reaches the caller's context (billing).
+  // An assessment is one analyst's, so its synthesis call counts towards that analyst too
+  const usage = emptyAnalysisUsage();
   
-  // Analyze up to 5 most relevant news items to avoid overwhelming the system
-  const itemsToAnalyze = newsItems
+  // Analyze up to 5 most relevant news items to avoid overwhelming the system. Sorted on a copy: the
+  // caller's list keeps its story ranking (and is the news fetcher's cached array)
+  const itemsToAnalyze = [...newsItems]
     .sort((a, b) => (b.relevanceScore || 0) - (a.relevanceScore || 0))
     .slice(0, 5);
+
+  // The analysts read the article itself where its page can be fetched, the feed summary otherwise.
+  // The text goes on copies, so it stays out of the cached items and the tool output
+  const itemsWithText = itemsToAnalyze.map(item => ({ ...item }));
+  await articleFetcherService.attachFullText(itemsWithText, context.signal);
   
-  for (const item of itemsToAnalyze) {
+  for (const item of itemsWithText) {
+    // Out of time - return the impact analyses finished so far
+    if (context.signal?.aborted) {
+      secureLogger.warn('News impact analysis stopped: deadline reached', {
+        analyzedItems: analyses.length,
+        skippedItems: itemsToAnalyze.length - analyses.length
+      });
+      break;
+    }
+    
     try {
+      const articleText = item.fullText
+        ? item.fullText.slice(0, SERVER_CONSTANTS.ARTICLE_FETCH.PROMPT_CHARS)
+        : item.content;
+
       // Create a focused prompt for news impact analysis
       const impactPrompt = `Analyze the market impact of this news item:
 
 Title: ${item.title}
-Content: ${item.content}
+Content: ${articleText}
 Source: ${item.source}
 Published: ${item.publishedAt.toLocaleString()}
 
@@ -55,7 +89,12 @@ Provide a brief impact assessment (50 words max) focusing on:
 - Impact severity (LOW/MEDIUM/HIGH)`;
 
       // Get quick analysis from the most relevant analyst
-      const relevantAnalyst = determineRelevantAnalyst(item.title, item.content, item.category);
+      const [relevantAnalyst = 'financial_analyst'] = analystRouter.route(
+        `${item.title} ${articleText}`,
+        'quick',
+        analystManager.getAvailableAnalysts(),
+        { category: item.category, maxAnalysts: 1 }
+      ).selected;
       const analyst = analystManager.getAnalystInfo(relevantAnalyst);
       
       if (analyst) {
@@ -63,7 +102,16 @@ Provide a brief impact assessment (50 words max) focusing on:
         const analysisResult = await analystManager.getConsensusAnalysis(
           impactPrompt,
           'quick',
-          [relevantAnalyst]
+          [relevantAnalyst],
+          {
+            ...context,
+            onTokenUsage: callUsage => {
+              const analystUsage = usage.analysts[relevantAnalyst];
+              usage.analysts[relevantAnalyst] = analystUsage ? addTokenUsage(analystUsage, callUsage) : callUsage;
+              usage.total = addTokenUsage(usage.total, callUsage);
+              context.onTokenUsage?.(callUsage);
+            }
+          }
         );
         
         analyses.push({
@@ -104,39 +152,7 @@ Provide a brief impact assessment (50 words max) focusing on:
     }
   }
   
-  return analyses;
-}
-
-function determineRelevantAnalyst(title: string, content: string, category: string): string {
-  const text = `${title} ${content}`.toLowerCase();
-  
-  // Category-based mapping
-  if (category === 'crypto') return 'crypto_analyst';
-  if (category === 'politics') return 'political_analyst';
-  if (category === 'economics') return 'economic_analyst';
-  
-  // Keyword-based mapping
-  if (text.includes('government') || text.includes('policy') || text.includes('regulation')) {
-    return 'political_analyst';
-  }
-  if (text.includes('fed') || text.includes('interest') || text.includes('inflation') || text.includes('gdp')) {
-    return 'economic_analyst';
-  }
-  if (text.includes('war') || text.includes('conflict') || text.includes('trade') || text.includes('sanctions')) {
-    return 'geopolitical_analyst';
-  }
-  if (text.includes('crypto') || text.includes('bitcoin') || text.includes('blockchain')) {
-    return 'crypto_analyst';
-  }
-  if (text.includes('ai') || text.includes('tech') || text.includes('innovation')) {
-    return 'tech_analyst';
-  }
-  if (text.includes('sentiment') || text.includes('fear') || text.includes('panic') || text.includes('rally')) {
-    return 'behavioral_analyst';
-  }
-  
-  // Default to financial analyst
-  return 'financial_analyst';
+  return { analyses, usage };
 }
 
 function extractImpactSummary(analysis: string): string {
@@ -145,9 +161,9 @@ function extractImpactSummary(analysis: string): string {
   return sentences[0]?.trim().substring(0, 100) || 'Impact analysis pending';
 }
 
-function extractSeverity(analysis: string): string {
+function extractSeverity(analysis: string): NewsImpactAnalysis['severity'] {
   const severityMatch = analysis.match(/(?:impact|severity)[:\s]*(?:level[:\s]*)?(low|medium|high|critical)/i);
-  return severityMatch && severityMatch[1] ? severityMatch[1].toUpperCase() : 'MEDIUM';
+  return severityMatch && severityMatch[1] ? severityMatch[1].toUpperCase() as NewsImpactAnalysis['severity'] : 'MEDIUM';
 }
 
 function extractAffectedSectors(analysis: string): string[] {
@@ -184,12 +200,13 @@ function generateBasicImpact(item: NewsItem): string {
  */
 function formatNewsResponse(
   newsItems: NewsItem[],
-  analyses: Record<string, any>[],
+  analyses: NewsImpactAnalysis[],
   category: string,
   timeRange: string,
   includeAnalysis: boolean,
   duration: number,
-  sourceStatus: any
+  sourceStatus: ReturnType<typeof newsFetcherService.getSourceStatus>,
+  usage?: AnalysisUsage
 ): string {
   const categoryEmojis: Record<string, string> = {
     'all': '🌐',
@@ -205,7 +222,9 @@ function formatNewsResponse(
     '1h': '⚡',
     '6h': '⏰',
     '12h': '🕐',
-    '24h': '📅'
+    '24h': '📅',
+    '3d': '🗓️',
+    '7d': '🗓️'
   };
 
   const severityEmojis: Record<string, string> = {
@@ -224,20 +243,25 @@ ${timeEmojis[timeRange]} **Time Range**: ${timeRange}
 🔢 **Items Found**: ${newsItems.length}
 ⚡ **Processing Time**: ${duration}ms
 ${includeAnalysis ? '🧠 **Impact Analysis**: ENABLED' : '📄 **Impact Analysis**: DISABLED'}
-
+${usage ? `🪙 **AI Usage**: ${describeTokenUsage(usage.total)}\n` : ''}
 ---
 
 `;
 
-  // Add news items
+  const ago = (date: Date): string => {
+    const minutes = Math.floor((Date.now() - date.getTime()) / (1000 * 60));
+    return minutes < 60 ? `${minutes}m` : `${Math.floor(minutes / 60)}h`;
+  };
+
+  // Add news items - one per story, most widely reported first
   newsItems.forEach((item, index) => {
     const analysis = analyses.find(a => a.newsId === item.id);
-    const timeAgo = Math.floor((Date.now() - item.publishedAt.getTime()) / (1000 * 60));
+    const story = item.story && item.story.sources.length > 1 ? item.story : null;
     
     response += `## ${index + 1}. **${item.title}**
 
-📅 **Published**: ${timeAgo < 60 ? `${timeAgo}m` : `${Math.floor(timeAgo/60)}h`} ago by **${item.source}**
-🔗 **Link**: [View Article](${item.url})
+📅 **Published**: ${ago(item.publishedAt)} ago by **${item.source}**
+${story ? `📣 **Reported by**: ${story.sources.length} sources - ${story.sources.join(', ')} (first ${ago(story.earliestPublishedAt)} ago)\n` : ''}🔗 **Link**: [View Article](${item.url})
 📊 **Relevance Score**: ${((item.relevanceScore || 0) * 100).toFixed(0)}%
 
 **Summary**: ${item.content.substring(0, 200)}${item.content.length > 200 ? '...' : ''}
@@ -260,12 +284,20 @@ ${analysis.affectedSectors.length > 0 ? `🎯 **Affected Sectors**: ${analysis.a
   // Add source status
   response += `## 🔧 **Data Source Status**
 
-### 📡 **RSS Feeds**
-- **Business**: ${sourceStatus.rss_feeds.business} feeds active
-- **Crypto**: ${sourceStatus.rss_feeds.crypto} feeds active  
-- **Politics**: ${sourceStatus.rss_feeds.politics} feeds active
-- **Economics**: ${sourceStatus.rss_feeds.economics} feeds active
+### 📡 **News Sources**
+`;
+
+  Object.entries(sourceStatus.rss_feeds).forEach(([feedCategory, count]) => {
+    response += `- **${feedCategory.charAt(0).toUpperCase()}${feedCategory.slice(1)}**: ${count} sources active\n`;
+  });
+
+  // Sources whose latest poll failed
+  const failingSources = sourceStatus.sources.filter(source => source.enabled && source.health.consecutiveErrors > 0);
+  if (failingSources.length > 0) {
+    response += `- **Failing**: ${failingSources.map(source => `${source.name} (${source.health.consecutiveErrors} error(s): ${source.health.lastError})`).join(', ')}\n`;
+  }
 
+  response += `
 ### 🔑 **API Status**
 `;
 
@@ -335,7 +367,7 @@ ${analysis.affectedSectors.length > 0 ? `🎯 **Affected Sectors**: ${analysis.a
   return response;
 }
 
-function getMostActiveAnalyst(analyses: Record<string, any>[]): string {
+function getMostActiveAnalyst(analyses: NewsImpactAnalysis[]): string {
   const analystCounts = analyses.reduce((acc, a) => {
     acc[a.analyst] = (acc[a.analyst] || 0) + 1;
     return acc;
@@ -347,7 +379,7 @@ function getMostActiveAnalyst(analyses: Record<string, any>[]): string {
   return topAnalyst ? topAnalyst[0].replace('_', ' ').toUpperCase() : 'N/A';
 }
 
-function calculateOverallSentiment(analyses: Record<string, any>[]): string {
+function calculateOverallSentiment(analyses: NewsImpactAnalysis[]): string {
   const impacts = analyses.map(a => a.impact.toLowerCase());
   
   let positiveSignals = 0;
@@ -371,13 +403,13 @@ function calculateOverallSentiment(analyses: Record<string, any>[]): string {
  * Fetch Breaking News Tool Implementation  
  * Priority Tool #2 - Data foundation providing prioritized market news
  */
-export async function fetchBreakingNews(args: any): Promise<ToolResponse> {
+export async function fetchBreakingNews(args: any, context: ToolExecutionContext = {}): Promise<ToolResponse> {
   const startTime = Date.now();
   
   try {
     // Validate input parameters with strict security
     const validatedArgs = fetchBreakingNewsSchema.parse(args);
-    const { category, max_items, time_range, include_analysis } = validatedArgs;
+    const { category, max_items, time_range, include_analysis, output_format } = validatedArgs;
     
     secureLogger.info('Breaking news fetch initiated', {
       category,
@@ -393,15 +425,24 @@ export async function fetchBreakingNews(args: any): Promise<ToolResponse> {
       time_range,
       true // Use cache
     );
+    context.onEvent?.({ type: 'news_fetched', category, items: newsItems.length });
     
     if (newsItems.length === 0) {
       const duration = Date.now() - startTime;
       secureLogger.info('No news items found', { category, timeRange: time_range, duration });
       
-      return {
-        content: [{ 
-          type: "text", 
-          text: `📰 **No Breaking News Found**
+      const emptyOutput: BreakingNewsToolOutput = {
+        tool: 'fetch_breaking_news',
+        category,
+        time_range,
+        processing_time_ms: duration,
+        items: [],
+        impact_analyses: []
+      };
+      
+      return createStructuredToolResponse(
+        emptyOutput,
+        `📰 **No Breaking News Found**
 
 **Search Parameters:**
 - Category: ${category}
@@ -418,16 +459,17 @@ export async function fetchBreakingNews(args: any): Promise<ToolResponse> {
 - Use 'all' category for broader results
 - Check back in a few minutes
 
-*News sources are continuously monitored - fresh content updates every 30 minutes*` 
-        }]
-      };
+*News sources are continuously monitored - fresh content updates every 30 minutes*`,
+        output_format
+      );
     }
     
     // Perform impact analysis if requested
-    let analyses: Record<string, any>[] = [];
+    let analyses: NewsImpactAnalysis[] = [];
+    let usage: AnalysisUsage | undefined;
     if (include_analysis) {
       try {
-        analyses = await analyzeNewsImpact(newsItems);
+        ({ analyses, usage } = await analyzeNewsImpact(newsItems, context));
         secureLogger.info('News impact analysis completed', { 
           analyzedItems: analyses.length,
           totalNewsItems: newsItems.length 
@@ -449,21 +491,34 @@ export async function fetchBreakingNews(args: any): Promise<ToolResponse> {
       time_range,
       include_analysis,
       duration,
-      sourceStatus
+      sourceStatus,
+      usage
     );
     
     secureLogger.info('Breaking news fetch completed', {
       duration,
       newsItems: newsItems.length,
       analysisCount: analyses.length,
+      tokensUsed: usage?.total.totalTokens ?? 0,
+      costUsd: usage?.total.costUsd ?? 0,
       category,
       timeRange: time_range
     });
     
-    return {
-      content: [{ type: "text", text: formattedResponse }]
+    const output: BreakingNewsToolOutput = {
+      tool: 'fetch_breaking_news',
+      category,
+      time_range,
+      processing_time_ms: duration,
+      // Downloaded article text is for the analysts only
+      items: newsItems.map(({ fullText: _fullText, ...item }) => item),
+      impact_analyses: analyses,
+      source_status: sourceStatus,
+      ...(usage && { usage })
     };
     
+    return createStructuredToolResponse(output, formattedResponse, output_format);
+    
   } catch (error) {
     const duration = Date.now() - startTime;
     secureLogger.error('Breaking news fetch failed', { error, duration });
@@ -473,7 +528,7 @@ export async function fetchBreakingNews(args: any): Promise<ToolResponse> {
       return {
         content: [{ 
           type: "text", 
-          text: `❌ **Input Validation Error**: ${validationErrors}\n\nValid parameters:\n• **category**: all, stocks, crypto, forex, commodities, politics, economics\n• **max_items**: 1-50 (default: 10)\n• **time_range**: 1h, 6h, 12h, 24h (default: 6h)\n• **include_analysis**: true/false (default: true)` 
+          text: `❌ **Input Validation Error**: ${validationErrors}\n\nValid parameters:\n• **category**: all, stocks, crypto, forex, commodities, politics, economics\n• **max_items**: 1-50 (default: 10)\n• **time_range**: 1h, 6h, 12h, 24h, 3d, 7d (default: 6h)\n• **include_analysis**: true/false (default: true)\n• **output_format**: markdown, json (default: markdown)` 
         }],
         isError: true
       };
@@ -482,7 +537,7 @@ export async function fetchBreakingNews(args: any): Promise<ToolResponse> {
     return {
       content: [{ 
         type: "text", 
-        text: `❌ **Breaking News Fetch Error**: ${error instanceof Error ? error.message : String(error)}\n\nThe news fetching system encountered an issue. This could be due to:\n• RSS feed connectivity issues\n• News API rate limits reached\n• Network connectivity problems\n• Temporary service overload\n\n**Available News Sources:**\n• RSS feeds (unlimited): Reuters, BBC, CNBC, MarketWatch, CoinTelegraph\n• APIs (quota limited): NewsAPI, GNews\n\nPlease try again in a few moments.` 
+        text: `❌ **Breaking News Fetch Error**: ${error instanceof Error ? error.message : String(error)}\n\nThe news fetching system encountered an issue. This could be due to:\n• RSS feed connectivity issues\n• News API rate limits reached\n• Network connectivity problems\n• Temporary service overload\n\n**Available News Sources:**\n• RSS feeds (unlimited): Reuters, BBC, CNBC, MarketWatch, CoinTelegraph\n• APIs (quota limited): NewsAPI, GNews, Currents\n\nPlease try again in a few moments.` 
       }],
       isError: true
     };
@@ -1,12 +1,15 @@
 import { z } from 'zod';
 import { analystManager } from '../services/analysts.js';
+import { customAnalystRegistry } from '../services/custom-analysts.js';
 import { secureLogger } from '../utils/logger.js';
 import { config } from '../config.js';
-import { ToolResponse, AnalysisDepth, ConsensusAnalysis } from '../types/index.js';
+import { ToolResponse, AnalysisDepth, AnalysisUsage, ConsensusAnalysis, ConsensusOptions, ConsensusToolOutput, TripleVerificationResult, DebateResult, DepthProfileUsage, PartialResultInfo, ToolExecutionContext, AnalysisEventListener } from '../types/index.js';
 import { preventiveValidationService } from '../services/preventive-validation.js';
 import { outputSanitizer } from '../services/output-sanitizer.js';
 import { StandardErrorHandler, AnalysisErrorHandler } from '../utils/error-handler.js';
 import { SERVER_CONSTANTS } from '../constants/server-constants.js';
+import { createStructuredToolResponse } from '../utils/structured-output.js';
+import { addAnalysisUsage, describeTokenUsage } from '../utils/token-usage.js';
 
 /**
  * Input validation schema for multi_analyst_consensus tool
@@ -21,20 +24,38 @@ const multiAnalystConsensusSchema = z.object({
     .optional()
     .default(SERVER_CONSTANTS.ANALYSIS_DEPTHS.STANDARD as any),
   
-  sage_perspectives: z.array(z.enum(SERVER_CONSTANTS.ANALYST_TYPES as any))
+  sage_perspectives: z.array(z.enum(customAnalystRegistry.getAnalystTypes() as [string, ...string[]]))
     .optional()
-    .refine(arr => !arr || arr.length <= SERVER_CONSTANTS.VALIDATION.MAX_ANALYSTS, "Cannot specify more than 7 analysts")
-    .refine(arr => !arr || new Set(arr).size === arr.length, "Cannot specify duplicate analysts")
+    .refine(arr => !arr || arr.length <= customAnalystRegistry.getAnalystTypes().length, "Cannot specify more analysts than are available")
+    .refine(arr => !arr || new Set(arr).size === arr.length, "Cannot specify duplicate analysts"),
+
+  consensus_strategy: z.enum([
+    SERVER_CONSTANTS.CONSENSUS_STRATEGIES.SIMPLE_MEAN,
+    SERVER_CONSTANTS.CONSENSUS_STRATEGIES.CONFIDENCE_WEIGHTED,
+    SERVER_CONSTANTS.CONSENSUS_STRATEGIES.SPECIALTY_WEIGHTED,
+    SERVER_CONSTANTS.CONSENSUS_STRATEGIES.CALIBRATED
+  ] as const)
+    .optional()
+    .default(SERVER_CONSTANTS.DEFAULTS.CONSENSUS_STRATEGY),
+
+  analysis_mode: z.enum([SERVER_CONSTANTS.ANALYSIS_MODES.INDEPENDENT, SERVER_CONSTANTS.ANALYSIS_MODES.DEBATE] as const)
+    .optional(),
+
+  debate_rounds: z.number()
+    .int()
+    .min(1, "Debate needs at least 1 rebuttal round")
+    .max(SERVER_CONSTANTS.DEBATE.MAX_ROUNDS, `Cannot run more than ${SERVER_CONSTANTS.DEBATE.MAX_ROUNDS} debate rounds`)
+    .optional(),
+
+  output_format: z.enum([SERVER_CONSTANTS.OUTPUT_FORMATS.MARKDOWN, SERVER_CONSTANTS.OUTPUT_FORMATS.JSON] as const)
+    .optional()
+    .default(SERVER_CONSTANTS.OUTPUT_FORMATS.MARKDOWN)
 });
 
 /**
  * Triple verification system for analysis results
  */
-async function tripleVerification(analysis: ConsensusAnalysis, originalInput: string): Promise<{
-  verified: boolean;
-  confidence: number;
-  issues: string[];
-}> {
+async function tripleVerification(analysis: ConsensusAnalysis, originalInput: string): Promise<TripleVerificationResult> {
   const issues: string[] = [];
   let totalScore = 0;
   
@@ -89,6 +110,21 @@ async function tripleVerification(analysis: ConsensusAnalysis, originalInput: st
   }
 }
 
+/**
+ * Run triple verification for one analysis pass, reporting progress to the caller
+ */
+async function runVerificationPass(
+  analysis: ConsensusAnalysis,
+  originalInput: string,
+  pass: number,
+  onEvent?: AnalysisEventListener
+): Promise<TripleVerificationResult> {
+  onEvent?.({ type: 'verification_started', pass });
+  const result = await tripleVerification(analysis, originalInput);
+  onEvent?.({ type: 'verification_completed', pass, verified: result.verified });
+  return result;
+}
+
 function verifySourceCredibility(analysis: ConsensusAnalysis): number {
   // Check if analysis has proper analyst attribution
   const hasValidAnalysts = analysis.analystOpinions.length > 0;
@@ -107,11 +143,62 @@ function verifySourceCredibility(analysis: ConsensusAnalysis): number {
   return Math.min(1.0, score);
 }
 
-function verifyCrossReferenceConsistency(analysis: ConsensusAnalysis): number {
-  // Check for major disagreements vs consensus
-  const majorDisagreements = analysis.disagreements.length;
-  const analystCount = analysis.analystOpinions.length;
+function formatDebateSection(debate: DebateResult): string {
+  const changes = debate.positionChanges.map(change =>
+    `• Round ${change.round}: ${change.analyst.replace('_', ' ')} moved from ${change.from.stance?.toUpperCase() ?? 'UNSTATED'} (${change.from.risk_level ?? 'n/a'} risk) to ${change.to.stance?.toUpperCase() ?? 'UNSTATED'} (${change.to.risk_level ?? 'n/a'} risk)`
+  );
   
+  return `
+## 🗣️ **Sage Debate**
+- **Rounds Completed**: ${debate.roundsCompleted}
+- **Outcome**: ${debate.converged ? 'CONVERGED' : 'NO CONVERGENCE'}
+- **Opinion Dispersion by Round**: ${debate.dispersionByRound.map(describeDispersion).map(label => label.split(' ')[0]).join(' → ')}
+
+${changes.length > 0 ? `**Position Changes**:\n${changes.join('\n')}` : '*All analysts held their opening positions.*'}
+`;
+}
+
+function formatPartialNotice(partial: PartialResultInfo): string {
+  const cause = partial.reason === 'timeout' ? 'hit its deadline' : 'was cancelled';
+  const missing = partial.unfinishedAnalysts.length > 0
+    ? `\n- **Did Not Finish**: ${partial.unfinishedAnalysts.map(analyst => analyst.replace('_', ' ')).join(', ')}`
+    : '';
+  
+  return `
+> ⏱️ **Partial Result**: the analysis ${cause} during the ${partial.stage} stage. The consensus below is built only from the analysts that finished.${missing}
+`;
+}
+
+function describeDepthProfile(profile: DepthProfileUsage): string {
+  const panel = profile.maxAnalysts === null ? 'all analysts' : `up to ${profile.maxAnalysts} analysts`;
+  const debate = profile.debateRounds > 0 ? `${profile.debateRounds} debate round(s)` : 'no debate';
+  const passes = profile.verificationPasses > 1 ? `${profile.verificationPasses} verification passes` : 'single verification pass';
+  
+  return `${profile.modelTier} models, ${panel}, ${profile.analystWordLimit}-word analyst limit, ${debate}, ${passes}, ` +
+    `${profile.tokensUsed.toLocaleString()} of ${profile.tokenBudget.toLocaleString()} budgeted tokens used${profile.budgetExhausted ? ' (budget exhausted)' : ''}`;
+}
+
+function formatUsageSection(usage: AnalysisUsage, passes: number): string {
+  const analysts = Object.entries(usage.analysts).map(([analyst, analystUsage]) =>
+    `• ${analyst.replace('_', ' ')}: ${describeTokenUsage(analystUsage)}`
+  );
+  
+  return `
+## 💰 **AI Usage**
+- **Total**: ${describeTokenUsage(usage.total)}${passes > 1 ? ` across ${passes} analysis passes` : ''}
+- **Consensus Synthesis**: ${describeTokenUsage(usage.consensus)}
+
+${analysts.length > 0 ? `**Per Analyst**:\n${analysts.join('\n')}` : ''}
+`;
+}
+
+function describeDispersion(score: number): string {
+  if (score >= 0.6) return 'HIGH (analysts sharply split)';
+  if (score >= 0.3) return 'MODERATE';
+  return 'LOW (broad agreement)';
+}
+
+function verifyCrossReferenceConsistency(analysis: ConsensusAnalysis): number {
   // Check confidence spread
   const confidences = analysis.analystOpinions.map(op => op.confidence);
   const avgConfidence = confidences.reduce((sum, conf) => sum + conf, 0) / confidences.length;
@@ -119,8 +206,8 @@ function verifyCrossReferenceConsistency(analysis: ConsensusAnalysis): number {
   
   let score = 0.5; // Base score
   
-  // Lower score for too many disagreements
-  if (majorDisagreements / analystCount > 0.5) {
+  // Lower score when analysts are split on direction, risk or horizon
+  if (analysis.dispersion.score > 0.5) {
     score -= 0.2;
   }
   
@@ -168,9 +255,11 @@ function verifyConfidenceScoring(analysis: ConsensusAnalysis): number {
  */
 function formatConsensusResponse(
   analysis: ConsensusAnalysis,
-  verificationResult: { verified: boolean; confidence: number; issues: string[] },
+  verificationResult: TripleVerificationResult,
   analysisDepth: AnalysisDepth,
-  duration: number
+  duration: number,
+  usage: AnalysisUsage,
+  passes: number
 ): string {
   const riskEmoji = {
     'LOW': '🟢',
@@ -190,6 +279,7 @@ function formatConsensusResponse(
 ## 📊 **Executive Summary**
 ${analysis.summary}
 
+${analysis.partial ? formatPartialNotice(analysis.partial) : ''}
 ${verificationResult.verified ? '✅' : '⚠️'} **Verification Status**: ${verificationResult.verified ? 'VERIFIED' : 'REQUIRES REVIEW'} ([CONFIDENCE ASSESSMENT REMOVED])
 
 ---
@@ -203,12 +293,14 @@ ${analysis.consensus}
 
 ---
 
-## 👥 **Analyst Perspectives** (${analysis.analystOpinions.length}/7 Sages)
+## 👥 **Analyst Perspectives** (${analysis.analystOpinions.length}/${customAnalystRegistry.getAnalystTypes().length} Sages)
 
 ${analysis.analystOpinions.map(opinion => `
 ### ${opinion.analyst.replace('_', ' ').toUpperCase()} 
 **Confidence**: [CONFIDENCE ASSESSMENT REMOVED]
-**Opinion**: ${opinion.opinion}
+**Weight**: ${((analysis.aggregation.weights[opinion.analyst] ?? 0) * 100).toFixed(0)}%
+${opinion.stance ? `**Stance**: ${opinion.stance.toUpperCase()}
+` : ''}**Opinion**: ${opinion.opinion}
 **Key Reasoning**: ${opinion.reasoning}
 ${opinion.supporting_evidence.length > 0 ? `**Evidence**: ${opinion.supporting_evidence.slice(0, 2).join(', ')}` : ''}
 `).join('\n')}
@@ -223,6 +315,8 @@ ${analysis.disagreements.length > 0 ? `
 ${analysis.disagreements.map((disagreement) => `• ${disagreement}`).join('\n')}
 ` : ''}
 
+${analysis.debate ? formatDebateSection(analysis.debate) : ''}
+
 ${!verificationResult.verified && verificationResult.issues.length > 0 ? `
 ## 🔍 **Verification Issues**
 ${verificationResult.issues.map(issue => `• ${issue}`).join('\n')}
@@ -234,9 +328,13 @@ ${verificationResult.issues.map(issue => `• ${issue}`).join('\n')}
 - **Analysis Depth**: ${depthEmoji[analysisDepth]} ${analysisDepth.toUpperCase()}
 - **Processing Time**: ${duration}ms
 - **Analysts Consulted**: ${analysis.analystOpinions.length}
-- **Report Generated**: ${analysis.lastUpdated.toLocaleString()}
+- **Depth Profile**: ${describeDepthProfile(analysis.depthProfile)}
+${analysis.routing ? `- **Analyst Selection**: ${analysis.routing.explanation}\n` : ''}- **Consensus Strategy**: ${analysis.aggregation.strategy.replace('_', ' ').toUpperCase()}
+- **Opinion Dispersion**: ${describeDispersion(analysis.dispersion.score)}
+${analysis.partial ? `- **Completeness**: PARTIAL (${analysis.partial.reason} during ${analysis.partial.stage})\n` : ''}- **Report Generated**: ${analysis.lastUpdated.toLocaleString()}
 - **Triple Verification**: ${verificationResult.verified ? 'PASSED' : 'FLAGGED'}
 
+${formatUsageSection(usage, passes)}
 ---
 *🔒 Powered by MCP NextGen Financial Intelligence • AI-Enhanced Analysis with Human-Grade Insights*`;
 
@@ -256,26 +354,59 @@ ${verificationResult.issues.map(issue => `• ${issue}`).join('\n')}
   return sanitizationResult.sanitizedContent;
 }
 
+/**
+ * Build the machine-readable payload for a completed consensus run
+ * Its text goes through the output sanitizer like the markdown report does
+ */
+function buildConsensusOutput(
+  analysis: ConsensusAnalysis,
+  verificationResult: TripleVerificationResult,
+  analysisDepth: AnalysisDepth,
+  duration: number,
+  usage: AnalysisUsage
+): ConsensusToolOutput {
+  return {
+    tool: 'multi_analyst_consensus',
+    status: 'completed',
+    analysis_depth: analysisDepth,
+    processing_time_ms: duration,
+    analysis: outputSanitizer.sanitizeStructured(analysis),
+    verification: outputSanitizer.sanitizeStructured(verificationResult),
+    usage
+  };
+}
+
 /**
  * Multi-Analyst Consensus Tool Implementation
  * Priority Tool #1 - Core feature providing comprehensive market intelligence
  */
-export async function multiAnalystConsensus(args: any): Promise<ToolResponse> {
+export async function multiAnalystConsensus(args: any, context: ToolExecutionContext = {}): Promise<ToolResponse> {
   const startTime = Date.now();
+  const { signal } = context;
   
   try {
     // Validate input parameters with strict security
     const validatedArgs = multiAnalystConsensusSchema.parse(args);
-    const { news_item, analysis_depth, sage_perspectives } = validatedArgs;
+    const { news_item, analysis_depth, sage_perspectives, consensus_strategy, analysis_mode, debate_rounds, output_format } = validatedArgs;
+    // Mode and rounds fall back to the depth profile when not requested
+    const consensusOptions: ConsensusOptions = {
+      strategy: consensus_strategy,
+      ...(analysis_mode && { mode: analysis_mode }),
+      ...(debate_rounds && { debateRounds: debate_rounds }),
+      ...context
+    };
     
     secureLogger.info('Multi-analyst consensus initiated', {
       analysisDepth: analysis_depth,
       analystCount: sage_perspectives?.length || 7,
+      consensusStrategy: consensus_strategy,
+      analysisMode: analysis_mode,
       inputLength: news_item.length
     });
     
     // CRITICAL: Check preventive validation BEFORE any analysis
     const validationResult = await preventiveValidationService.validateQuery(news_item);
+    context.onEvent?.({ type: 'validation_completed', allowed: validationResult.allowAnalysis });
     
     // HARD STOP: If validation blocks analysis, return refusal immediately
     if (!validationResult.allowAnalysis) {
@@ -293,11 +424,24 @@ export async function multiAnalystConsensus(args: any): Promise<ToolResponse> {
         throw new Error('Validation blocked but no structured response provided');
       }
       
+      const blockedOutput: ConsensusToolOutput = {
+        tool: 'multi_analyst_consensus',
+        status: 'blocked',
+        analysis_depth,
+        processing_time_ms: duration,
+        blocked: {
+          reason: validationResult.blockReason || 'Blocked by preventive validation',
+          response: refusalResponse.analysis,
+          disclaimer: refusalResponse.disclaimer
+        }
+      };
+      
       return {
-        content: [{ 
-          type: "text", 
-          text: `❌ **ANALYSIS BLOCKED**\n\n**REASON**: ${validationResult.blockReason}\n\n**RESPONSE**: ${refusalResponse.analysis}\n\n**ALTERNATIVE**: ${refusalResponse.disclaimer}\n\n---\n*Request processed in ${duration}ms - Analysis prevented to avoid data fabrication*`
-        }],
+        ...createStructuredToolResponse(
+          blockedOutput,
+          `❌ **ANALYSIS BLOCKED**\n\n**REASON**: ${validationResult.blockReason}\n\n**RESPONSE**: ${refusalResponse.analysis}\n\n**ALTERNATIVE**: ${refusalResponse.disclaimer}\n\n---\n*Request processed in ${duration}ms - Analysis prevented to avoid data fabrication*`,
+          output_format
+        ),
         isError: false // Not an error - intentional block
       };
     }
@@ -309,56 +453,72 @@ export async function multiAnalystConsensus(args: any): Promise<ToolResponse> {
     });
     
     // Get consensus analysis from analyst manager
-    const analysis = await analystManager.getConsensusAnalysis(
+    let analysis = await analystManager.getConsensusAnalysis(
       news_item,
       analysis_depth,
-      sage_perspectives
+      sage_perspectives,
+      consensusOptions
     );
     
     // Run triple verification
-    const verificationResult = await tripleVerification(analysis, news_item);
+    let verificationResult = await runVerificationPass(analysis, news_item, 1, context.onEvent);
+    let reanalyzed = false;
+    // Discarded reanalyses were paid for too, so usage covers every pass
+    let usage = analysis.usage;
+    let passes = 1;
     
-    // If verification fails and this is a deep analysis, attempt reanalysis
-    if (!verificationResult.verified && analysis_depth === 'deep') {
-      secureLogger.warn('Deep analysis failed verification, attempting reanalysis');
+    // Profiles with extra verification passes rerun a failed analysis, budget permitting
+    for (let pass = 2; pass <= analysis.depthProfile.verificationPasses && !verificationResult.verified; pass++) {
+      if (analysis.depthProfile.budgetExhausted) {
+        secureLogger.warn('Skipping reanalysis: token budget exhausted', { depth: analysis_depth });
+        break;
+      }
+      // A run that already hit its deadline would hit it again - return what finished instead
+      if (analysis.partial || signal?.aborted) {
+        secureLogger.warn('Skipping reanalysis: deadline reached', { depth: analysis_depth });
+        break;
+      }
+      
+      secureLogger.warn('Analysis failed verification, attempting reanalysis', { depth: analysis_depth, pass });
       
-      // Rerun with all analysts for better verification
+      // Rerun with the full routed panel for better verification
       const reanalysis = await analystManager.getConsensusAnalysis(
         news_item,
-        analysis_depth
+        analysis_depth,
+        undefined,
+        consensusOptions
       );
+      usage = addAnalysisUsage(usage, reanalysis.usage);
+      passes++;
       
-      const reverification = await tripleVerification(reanalysis, news_item);
+      const reverification = await runVerificationPass(reanalysis, news_item, pass, context.onEvent);
       
-      if (reverification.verified || reverification.confidence > verificationResult.confidence) {
-        const duration = Date.now() - startTime;
-        const formattedResponse = formatConsensusResponse(reanalysis, reverification, analysis_depth, duration);
-        
-        secureLogger.info('Multi-analyst consensus completed (reanalyzed)', {
-          duration,
-          verified: reverification.verified,
-          confidence: reverification.confidence
-        });
-        
-        return {
-          content: [{ type: "text", text: formattedResponse }]
-        };
+      if (!reanalysis.partial && (reverification.verified || reverification.confidence > verificationResult.confidence)) {
+        analysis = reanalysis;
+        verificationResult = reverification;
+        reanalyzed = true;
       }
     }
     
     const duration = Date.now() - startTime;
-    const formattedResponse = formatConsensusResponse(analysis, verificationResult, analysis_depth, duration);
+    const formattedResponse = formatConsensusResponse(analysis, verificationResult, analysis_depth, duration, usage, passes);
     
     secureLogger.info('Multi-analyst consensus completed', {
       duration,
+      reanalyzed,
+      partial: analysis.partial?.stage,
       verified: verificationResult.verified,
       confidence: verificationResult.confidence,
-      analystCount: analysis.analystOpinions.length
+      analystCount: analysis.analystOpinions.length,
+      tokensUsed: usage.total.totalTokens,
+      costUsd: usage.total.costUsd
     });
     
-    return {
-      content: [{ type: "text", text: formattedResponse }]
-    };
+    return createStructuredToolResponse(
+      buildConsensusOutput(analysis, verificationResult, analysis_depth, duration, usage),
+      formattedResponse,
+      output_format
+    );
     
   } catch (error) {
     const duration = Date.now() - startTime;
@@ -369,7 +529,7 @@ export async function multiAnalystConsensus(args: any): Promise<ToolResponse> {
       return {
         content: [{ 
           type: "text", 
-          text: `❌ **Input Validation Error**: ${validationErrors}\n\nPlease ensure:\n• News item is 10-5000 characters\n• Analysis depth is 'quick', 'standard', or 'deep'\n• Analyst selection contains valid analyst names (no duplicates)` 
+          text: `❌ **Input Validation Error**: ${validationErrors}\n\nPlease ensure:\n• News item is 10-5000 characters\n• Analysis depth is 'quick', 'standard', or 'deep'\n• Analyst selection contains valid analyst names (no duplicates)\n• Consensus strategy is 'simple_mean', 'confidence_weighted', 'specialty_weighted', or 'calibrated'\n• Analysis mode is 'independent' or 'debate' with 1-${SERVER_CONSTANTS.DEBATE.MAX_ROUNDS} debate rounds\n• Output format is 'markdown' or 'json'` 
         }],
         isError: true
       };
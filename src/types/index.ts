@@ -9,12 +9,89 @@ export interface AnalysisResult {
   metadata?: Record<string, any>;
 }
 
+export type ModelTier = 'fast' | 'balanced' | 'premium';
+
+/**
+ * How AIProviderManager orders providers for a call:
+ * - primary_first: the configured primary, then the fallback chain
+ * - cheapest_first: lowest estimated cost of the call at configured model prices
+ * - fastest_first: lowest observed average latency
+ * - quality_first: highest quality rank of the model the call would use
+ */
+export type RoutingPolicy = 'primary_first' | 'cheapest_first' | 'fastest_first' | 'quality_first';
+
+/**
+ * USD spend limits; an absent limit does not apply
+ */
+export interface SpendCaps {
+  dailyUsd?: number;
+  monthlyUsd?: number;
+}
+
+/**
+ * Spend so far in the current UTC day and month
+ */
+export interface SpendTotals {
+  dailyUsd: number;
+  monthlyUsd: number;
+}
+
+export interface AIRequestOptions {
+  responseFormat?: 'text' | 'json';
+  /** Model tier to use when no explicit model is given */
+  modelTier?: ModelTier;
+  /** Output token cap for the request */
+  maxTokens?: number;
+  /** Aborts the in-flight HTTP request and stops the provider fallback chain */
+  signal?: AbortSignal;
+  /** Streams the response, receiving each text chunk as the model writes it */
+  onToken?: (text: string) => void;
+  /** Text streamed so far is discarded: the next provider or a schema retry writes the response again */
+  onRestart?: (reason: StreamRestartReason) => void;
+  /** API key whose tenant pays for the call; the tenant's spend caps steer model choice */
+  billedTo?: ApiKeyIdentity;
+}
+
 export interface AIProvider {
   name: string;
-  analyze(prompt: string, model?: string): Promise<AnalysisResult>;
-  isAvailable(): Promise<boolean>;
-  getRemainingQuota(): Promise<number>;
+  analyze(prompt: string, model?: string, options?: AIRequestOptions): Promise<AnalysisResult>;
+  /** Cheap request proving the provider is reachable with our credentials; throws when it is not */
+  probe(signal: AbortSignal): Promise<void>;
   getModels(): string[];
+  /** Model used when the call names none and its tier has no model for this provider */
+  getDefaultModel(): string;
+}
+
+/**
+ * Tokens one or more model calls consumed and what they cost at the configured model prices
+ */
+export interface TokenUsage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+  /** True when any call did not report usage and its tokens were estimated from the text length */
+  estimated: boolean;
+}
+
+/**
+ * Token usage of an analysis run, split by who spent it
+ */
+export interface AnalysisUsage {
+  total: TokenUsage;
+  /** Per analyst, summed over the opening analysis and every debate round */
+  analysts: Record<string, TokenUsage>;
+  /** The consensus synthesis call(s) */
+  consensus: TokenUsage;
+}
+
+/**
+ * One provider's calls and spend for a UTC day
+ */
+export interface ProviderUsage extends TokenUsage {
+  date: string;
+  requests: number;
+  errors: number;
 }
 
 export interface Analyst {
@@ -34,6 +111,234 @@ export interface NewsItem {
   category: string;
   relevanceScore: number;
   sentiment?: number;
+  /** Registry id of the feed the item came from (absent for news API items) */
+  sourceId?: string;
+  /** The source's credibility weight, 0-1 */
+  credibility?: number;
+  /** ISO 639-1 language code */
+  language?: string;
+  region?: string;
+  /** The story this article is the canonical report of, with every source reporting it */
+  story?: NewsStory;
+  /** Main text of the linked page, when it was downloaded for analysis; never part of tool output */
+  fullText?: string;
+}
+
+/**
+ * One story as reported across sources
+ */
+export interface NewsStory {
+  /** Headline of the canonical article - the most credible source's, the earliest on ties */
+  headline: string;
+  /** Distinct sources reporting the story, earliest first */
+  sources: string[];
+  earliestPublishedAt: Date;
+  /** Every article of the story, earliest first */
+  articles: Array<{ source: string; title: string; url: string; publishedAt: Date }>;
+}
+
+export type RiskLevel = 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+
+export type MarketStance = 'bullish' | 'bearish' | 'neutral';
+
+/**
+ * How the fields of an opinion were obtained from the model output
+ */
+export type ExtractionMethod = 'structured' | 'regex_fallback' | 'blocked' | 'failed' | 'cancelled';
+
+/**
+ * Spread of analyst opinions, each value 0 (unanimous) to 1 (maximally split)
+ * Dimension values are null when fewer than two analysts reported them
+ */
+export interface OpinionDispersion {
+  score: number;
+  stance: number | null;
+  riskLevel: number | null;
+  timeframe: number | null;
+}
+
+export type ConsensusStrategy = 'simple_mean' | 'confidence_weighted' | 'specialty_weighted' | 'calibrated';
+
+/**
+ * Weights applied to each analyst when aggregating the consensus (normalized to sum to 1)
+ */
+export interface ConsensusAggregation {
+  strategy: ConsensusStrategy;
+  weights: Record<string, number>;
+}
+
+/**
+ * Relevance of one analyst to a query, as scored by the analyst router
+ */
+export interface AnalystRelevance {
+  analyst: string;
+  score: number;
+  matchedKeywords: string[];
+  selected: boolean;
+  reason: string;
+}
+
+export interface AnalystRoutingDecision {
+  depth: AnalysisDepth;
+  selected: string[];
+  candidates: AnalystRelevance[];
+  explanation: string;
+}
+
+/**
+ * What each analysis depth buys: prompt length, model quality, panel size, extra passes and spend
+ */
+export interface DepthProfile {
+  depth: AnalysisDepth;
+  analystWordLimit: number;
+  consensusWordLimit: number;
+  maxEvidencePoints: number;
+  modelTier: ModelTier;
+  minAnalysts: number;
+  /** null means every available analyst */
+  maxAnalysts: number | null;
+  /** Debate rounds run when no analysis_mode is requested (0 = independent) */
+  debateRounds: number;
+  /** Analysis attempts allowed when triple verification fails */
+  verificationPasses: number;
+  maxTokensPerCall: number;
+  tokenBudget: number;
+  timeoutMs: number;
+}
+
+/**
+ * Depth profile as applied to one run, with the tokens it actually consumed
+ */
+export interface DepthProfileUsage extends DepthProfile {
+  tokensUsed: number;
+  budgetExhausted: boolean;
+}
+
+export type AnalysisMode = 'independent' | 'debate';
+
+export interface ConsensusOptions {
+  strategy?: ConsensusStrategy;
+  mode?: AnalysisMode;
+  /** Rebuttal rounds after the opening round (debate mode only) */
+  debateRounds?: number;
+  /** Caller's cancellation (client disconnect or tool deadline); the depth profile's timeout applies on top */
+  signal?: AbortSignal;
+  /** Receives live events, including each analyst's output as it is written */
+  onEvent?: AnalysisEventListener;
+  /** Receives the AI tokens and cost the analysis spent, once it completes */
+  onTokenUsage?: (usage: TokenUsage) => void;
+  /** Authenticated caller the model calls are billed to */
+  caller?: ToolCaller;
+}
+
+/**
+ * Why a streamed response starts over: a provider failed and the next one answers, or the output violated its schema
+ */
+export type StreamRestartReason = 'fallback' | 'schema_retry';
+
+/**
+ * Live events emitted while a tool runs (analyst round 0 is the opening round, later rounds are debate rebuttals)
+ * Token text is the model's raw output and is not passed through the output sanitizer (the tool result is)
+ */
+export type AnalysisStreamEvent =
+  | { type: 'validation_completed'; allowed: boolean }
+  | { type: 'analysis_started'; depth: AnalysisDepth; analysts: string[] }
+  | { type: 'analyst_started'; analyst: string; round: number }
+  | { type: 'analyst_token'; analyst: string; round: number; text: string }
+  | { type: 'analyst_restarted'; analyst: string; round: number; reason: StreamRestartReason }
+  | { type: 'analyst_completed'; analyst: string; round: number; opinion: AnalystOpinion }
+  | { type: 'consensus_started'; analysts: string[] }
+  | { type: 'consensus_token'; text: string }
+  | { type: 'consensus_restarted'; reason: StreamRestartReason }
+  | { type: 'consensus_completed'; summary: string; riskLevel: RiskLevel }
+  | { type: 'verification_started'; pass: number }
+  | { type: 'verification_completed'; pass: number; verified: boolean }
+  | { type: 'news_fetched'; category: string; items: number };
+
+export type AnalysisEventListener = (event: AnalysisStreamEvent) => void;
+
+/**
+ * Per-call context the transports hand to a tool
+ */
+export interface ToolExecutionContext {
+  /** Aborts the tool (client disconnect, cancellation or deadline) */
+  signal?: AbortSignal;
+  /** Receives live analysis events for streaming transports */
+  onEvent?: AnalysisEventListener;
+  /** Authenticated caller; quotas are enforced and usage attributed when present */
+  caller?: ToolCaller;
+  /** Client IP; anonymous calls are rate limited by it (STDIO calls have none and are not limited) */
+  clientAddress?: string;
+  /** Receives the AI tokens and cost of each analysis the tool runs */
+  onTokenUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * An authenticated API key - never carries the key itself or its hash
+ */
+export interface ApiKeyIdentity {
+  id: string;
+  name: string;
+  tenant: string;
+  rateLimit: {
+    windowMs: number;
+    maxRequests: number;
+  };
+  /** AI tokens the tenant may spend per UTC day */
+  dailyTokenBudget: number;
+  /** USD the tenant may spend per UTC day and month */
+  spendCaps: SpendCaps;
+}
+
+/**
+ * Who is calling a tool over HTTP or WebSocket
+ */
+export interface ToolCaller {
+  apiKey: ApiKeyIdentity;
+  ipAddress: string;
+  userAgent: string;
+}
+
+export type CancellationReason = 'timeout' | 'cancelled';
+
+/**
+ * Marks a consensus built from whatever finished before the run was cut short
+ */
+export interface PartialResultInfo {
+  reason: CancellationReason;
+  /** Pipeline stage that was cut short */
+  stage: 'analysis' | 'debate' | 'consensus';
+  /** Analysts whose opening analysis did not finish and are missing from analystOpinions */
+  unfinishedAnalysts: string[];
+}
+
+/**
+ * One analyst's position in one debate round (round 0 is the independent opening)
+ */
+export interface DebateTurn {
+  round: number;
+  analyst: string;
+  stance?: MarketStance;
+  risk_level?: RiskLevel;
+  confidence: number;
+  opinion: string;
+  reasoning: string;
+}
+
+export interface PositionChange {
+  analyst: string;
+  round: number;
+  from: { stance?: MarketStance; risk_level?: RiskLevel };
+  to: { stance?: MarketStance; risk_level?: RiskLevel };
+}
+
+export interface DebateResult {
+  roundsCompleted: number;
+  transcript: DebateTurn[];
+  positionChanges: PositionChange[];
+  /** Dispersion score after each round, starting with the opening round */
+  dispersionByRound: number[];
+  converged: boolean;
 }
 
 export interface ConsensusAnalysis {
@@ -41,11 +346,21 @@ export interface ConsensusAnalysis {
   consensus: string;
   confidence: number;
   disagreements: string[];
+  dispersion: OpinionDispersion;
+  aggregation: ConsensusAggregation;
+  depthProfile: DepthProfileUsage;
+  usage: AnalysisUsage;
+  /** Present when the panel was chosen automatically rather than via sage_perspectives */
+  routing?: AnalystRoutingDecision;
+  debate?: DebateResult;
+  /** Present when the depth deadline or a cancellation cut the run short */
+  partial?: PartialResultInfo;
   analystOpinions: AnalystOpinion[];
   recommendations: string[];
-  riskLevel: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL';
+  riskLevel: RiskLevel;
   timeframe: string;
   lastUpdated: Date;
+  extractionMethod?: ExtractionMethod;
 }
 
 export interface AnalystOpinion {
@@ -54,6 +369,10 @@ export interface AnalystOpinion {
   confidence: number;
   reasoning: string;
   supporting_evidence: string[];
+  stance?: MarketStance;
+  risk_level?: RiskLevel;
+  timeframe?: string;
+  extraction_method: ExtractionMethod;
 }
 
 export interface GeopoliticalEvent {
@@ -77,6 +396,8 @@ export interface SentimentData {
 
 export type AnalysisDepth = 'quick' | 'standard' | 'deep';
 
+export type OutputFormat = 'markdown' | 'json';
+
 export type AnalystType = 
   | 'political_analyst' 
   | 'economic_analyst' 
@@ -95,9 +416,68 @@ export interface ToolResponse {
     type: 'text';
     text: string;
   }>;
+  structuredContent?: Record<string, unknown>;
   isError?: boolean;
 }
 
+// Structured Tool Output Types
+export interface TripleVerificationResult {
+  verified: boolean;
+  confidence: number;
+  issues: string[];
+}
+
+export interface NewsImpactAnalysis {
+  newsId: string;
+  title: string;
+  analyst: string;
+  impact: string;
+  confidence: number;
+  severity: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL' | 'UNKNOWN';
+  affectedSectors: string[];
+}
+
+export interface ConsensusToolOutput {
+  tool: 'multi_analyst_consensus';
+  status: 'completed' | 'blocked';
+  analysis_depth: AnalysisDepth;
+  processing_time_ms: number;
+  analysis?: ConsensusAnalysis;
+  verification?: TripleVerificationResult;
+  /** Tokens and cost of every analysis pass, including reanalyses that were discarded */
+  usage?: AnalysisUsage;
+  blocked?: {
+    reason: string;
+    response: string;
+    disclaimer: string;
+  };
+}
+
+export interface BreakingNewsToolOutput {
+  tool: 'fetch_breaking_news';
+  category: string;
+  time_range: string;
+  processing_time_ms: number;
+  items: NewsItem[];
+  impact_analyses: NewsImpactAnalysis[];
+  source_status?: Record<string, any>;
+  /** Tokens and cost of the impact analyses, when they ran */
+  usage?: AnalysisUsage;
+}
+
+export interface CompleteAnalysisToolOutput {
+  tool: 'complete_financial_intelligence_analysis';
+  query: string;
+  analysis_depth: AnalysisDepth;
+  timestamp: string;
+  processing_time_ms: number;
+  unified_insights: string;
+  consensus: { status: 'success' | 'error' | 'not_requested'; error?: string; result?: ConsensusToolOutput };
+  breaking_news: { status: 'success' | 'error' | 'not_requested'; error?: string; result?: BreakingNewsToolOutput };
+  /** Tokens and cost of the whole request */
+  usage?: AnalysisUsage;
+}
+
 // News API Response Types
 export interface RSSFeedItem {
   title: string;
@@ -120,6 +500,36 @@ export interface NewsAPIResponse {
   }>;
 }
 
+export interface GNewsResponse {
+  totalArticles: number;
+  articles: Array<{
+    title: string;
+    description: string;
+    content: string;
+    url: string;
+    publishedAt: string;
+    source: {
+      name: string;
+      url: string;
+    };
+  }>;
+}
+
+export interface CurrentsResponse {
+  status: string;
+  news: Array<{
+    id: string;
+    title: string;
+    description: string;
+    url: string;
+    author: string;
+    language: string;
+    category: string[];
+    /** e.g. "2024-05-01 13:45:00 +0000" */
+    published: string;
+  }>;
+}
+
 // Database Types
 export interface HistoricalAnalysis {
   _id?: string;
@@ -164,6 +574,32 @@ export interface OpenAIResponse {
   };
 }
 
+export interface OpenAIStreamChunk {
+  /** Empty on the usage-only final chunk */
+  choices?: Array<{
+    delta: {
+      content?: string;
+    };
+  }>;
+  /** Only on the final chunk, when stream_options.include_usage is set */
+  usage?: OpenAIStreamUsage | null;
+  /** Groq reports stream usage here instead */
+  x_groq?: {
+    usage?: OpenAIStreamUsage;
+  };
+  /** Sent by OpenRouter when the upstream model fails mid-stream */
+  error?: {
+    message: string;
+    code?: number | string;
+  };
+}
+
+export interface OpenAIStreamUsage {
+  prompt_tokens: number;
+  completion_tokens: number;
+  total_tokens: number;
+}
+
 export interface GeminiResponse {
   candidates: Array<{
     content: {
@@ -173,6 +609,12 @@ export interface GeminiResponse {
     };
     finishReason: string;
   }>;
+  /** On the response, or on the last chunk of a stream */
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
 }
 
 export interface AnthropicResponse {
@@ -192,6 +634,13 @@ export interface AnthropicResponse {
   };
 }
 
+export type AnthropicStreamEvent =
+  | { type: 'message_start'; message: { usage: { input_tokens: number; output_tokens: number } } }
+  | { type: 'content_block_delta'; delta: { type: string; text?: string } }
+  | { type: 'message_delta'; usage: { output_tokens: number } }
+  | { type: 'error'; error: { type: string; message: string } }
+  | { type: 'content_block_start' | 'content_block_stop' | 'message_stop' | 'ping' };
+
 export interface LocalModelResponse {
   response: string;
   done: boolean;
@@ -227,6 +676,28 @@ export class AnalysisError extends Error {
   }
 }
 
+export class ApiKeyError extends Error {
+  constructor(
+    message: string,
+    public statusCode: number,
+    public retryAfterSeconds?: number
+  ) {
+    super(message);
+    this.name = 'ApiKeyError';
+  }
+}
+
+export class RateLimitError extends Error {
+  constructor(
+    message: string,
+    public bucket: string,
+    public retryAfterSeconds: number
+  ) {
+    super(message);
+    this.name = 'RateLimitError';
+  }
+}
+
 export class ValidationError extends Error {
   constructor(
     message: string,
@@ -0,0 +1,38 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'node:fs';
+import { extractArticleText } from './article-extractor.js';
+
+const fixture = (name: string) => fs.readFileSync(new URL(`./__fixtures__/articles/${name}`, import.meta.url), 'utf8');
+
+describe('extractArticleText', () => {
+  it('takes the JSON-LD articleBody when the page carries one', () => {
+    const article = extractArticleText(fixture('json-ld.html'));
+    assert.ok(article);
+    assert.equal(article.method, 'json-ld');
+    assert.equal(article.text, fixture('json-ld.expected.txt').trimEnd());
+  });
+
+  it('extracts the article body of a plain page and drops the boilerplate around it', () => {
+    const article = extractArticleText(fixture('readability.html'));
+    assert.ok(article);
+    assert.equal(article.method, 'readability');
+    assert.equal(article.text, fixture('readability.expected.txt').trimEnd());
+  });
+
+  it('finds no article on a link-heavy index page', () => {
+    assert.equal(extractArticleText(fixture('link-index.html')), null);
+  });
+
+  it('finds no article on a consent wall', () => {
+    assert.equal(extractArticleText(fixture('consent-wall.html')), null);
+  });
+
+  it('tolerates unclosed paragraphs and stray end tags', () => {
+    const paragraph = 'Crude oil rose for a third day, with Brent up 1.2% as traders weighed supply risks, inventories and demand. ';
+    const html = `<div class="content"><p>${paragraph.repeat(3)}<p>${paragraph.repeat(3)}</span></em><p>${paragraph}</div>`;
+    const article = extractArticleText(html);
+    assert.ok(article);
+    assert.equal(article.text.split('\n\n').length, 3);
+  });
+});
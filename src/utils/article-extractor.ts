@@ -0,0 +1,348 @@
+/**
+ * Article Extractor Utility
+ * Pulls the main text out of a news article page, readability-style:
+ * - the page's JSON-LD articleBody when it carries one
+ * - otherwise paragraphs are scored (text length, commas) into their ancestors, the best container
+ *   (and its sibling blocks that score close to it) wins, and navigation, share bars, related links and
+ *   other boilerplate are dropped from it
+ *
+ * Pure and synchronous - HTML in, text out - so it can be run against saved pages
+ */
+
+import { SERVER_CONSTANTS } from '../constants/server-constants.js';
+
+export interface ExtractedArticle {
+  text: string;
+  /** Where the text came from */
+  method: 'json-ld' | 'readability';
+}
+
+interface HtmlElement {
+  tag: string;
+  /** Class and id, lowercased, for the boilerplate hints */
+  hint: string;
+  children: HtmlNode[];
+  parent: HtmlElement | null;
+}
+
+type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+
+// Elements whose content is never article text
+const RAW_TEXT_TAGS = ['script', 'style', 'noscript', 'template', 'svg', 'math', 'iframe', 'canvas', 'select', 'textarea', 'button'];
+const SKIPPED_TAGS = new Set(['nav', 'header', 'footer', 'aside', 'form', 'figure', 'figcaption', 'dialog', 'menu']);
+
+const BLOCK_TAGS = new Set([
+  'address', 'article', 'blockquote', 'dd', 'div', 'dl', 'dt', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'li',
+  'main', 'ol', 'p', 'pre', 'section', 'table', 'tbody', 'td', 'th', 'thead', 'tr', 'ul'
+]);
+const PARAGRAPH_TAGS = new Set(['p', 'pre', 'blockquote', 'td']);
+
+const UNLIKELY_HINT = /-ad-|ad-break|agegate|banner|breadcrumb|byline|caption|combx|comment|cookie|consent|disqus|foot|header|legends|menu|modal|nav|newsletter|outbrain|pager|pagination|popup|promo|related|remark|rss|share|shoutbox|sidebar|skyscraper|social|sponsor|subscribe|taboola|tags|toolbar|tooltip/;
+const MAYBE_HINT = /and|article|body|column|content|main|shadow|story/;
+const NEGATIVE_HINT = /comment|foot|footer|masthead|media|meta|promo|related|scroll|share|shopping|sidebar|sponsor|widget|newsletter|social/;
+const POSITIVE_HINT = /article|body|content|entry|hentry|main|page|post|text|blog|story/;
+
+// Lines that are page furniture rather than article text
+const BOILERPLATE_LINE = /^(advertisement|advert|sponsored|read more|read next|related( articles| stories)?|recommended|share( this)?( article| story)?|sign up|subscribe|follow us|click here|copyright|all rights reserved|©|image:|photo:|getty images|reuters\/?$)/i;
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ', mdash: '—', ndash: '–', hellip: '…',
+  rsquo: '’', lsquo: '‘', rdquo: '”', ldquo: '“', euro: '€', pound: '£', yen: '¥', cent: '¢', copy: '©'
+};
+
+function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (entity, code: string) => {
+    if (code[0] === '#') {
+      const value = code[1] === 'x' || code[1] === 'X' ? parseInt(code.slice(2), 16) : parseInt(code.slice(1), 10);
+      return Number.isFinite(value) && value > 0 && value <= 0x10ffff ? String.fromCodePoint(value) : entity;
+    }
+    return NAMED_ENTITIES[code.toLowerCase()] ?? entity;
+  });
+}
+
+function normalizeSpace(text: string): string {
+  return text.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * articleBody of the page's schema.org Article markup, if any
+ */
+function findJsonLdBody(html: string): string | null {
+  const scripts = html.matchAll(/<script[^>]+type\s*=\s*["']?application\/ld\+json["']?[^>]*>([\s\S]*?)<\/script>/gi);
+  for (const [, json] of scripts) {
+    let data: unknown;
+    try {
+      data = JSON.parse(json ?? '');
+    } catch {
+      continue;
+    }
+
+    const pending = [data];
+    while (pending.length > 0) {
+      const node = pending.pop();
+      if (Array.isArray(node)) {
+        pending.push(...node);
+      } else if (node && typeof node === 'object') {
+        const record = node as Record<string, unknown>;
+        if (typeof record.articleBody === 'string' && record.articleBody.trim()) {
+          return record.articleBody;
+        }
+        if (record['@graph']) {
+          pending.push(record['@graph']);
+        }
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Tolerant HTML parse into a light element tree: unclosed tags are closed by their ancestors' end tags,
+ * stray end tags are ignored, and a new <p> or <li> closes an open one
+ */
+function parseHtml(html: string): HtmlElement {
+  const root: HtmlElement = { tag: 'root', hint: '', children: [], parent: null };
+  const cleaned = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(new RegExp(`<(${RAW_TEXT_TAGS.join('|')})\\b[\\s\\S]*?<\\/\\1\\s*>`, 'gi'), '');
+
+  let current = root;
+  let lastIndex = 0;
+  const tagPattern = /<(\/?)([a-zA-Z][\w:-]*)((?:"[^"]*"|'[^']*'|[^'">])*)>/g;
+
+  for (const match of cleaned.matchAll(tagPattern)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      current.children.push(cleaned.slice(lastIndex, index));
+    }
+    lastIndex = index + match[0].length;
+
+    const closing = match[1] === '/';
+    const tag = (match[2] ?? '').toLowerCase();
+    const attributes = match[3] ?? '';
+
+    if (closing) {
+      let open: HtmlElement | null = current;
+      while (open && open.tag !== tag) open = open.parent;
+      if (open?.parent) current = open.parent;
+      continue;
+    }
+
+    if ((tag === 'p' || tag === 'li') && current.tag === tag && current.parent) {
+      current = current.parent;
+    }
+
+    const hint = Array.from(attributes.matchAll(/\b(?:class|id)\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+))/gi))
+      .map(attr => attr[1] ?? attr[2] ?? attr[3] ?? '')
+      .join(' ')
+      .toLowerCase();
+    const element: HtmlElement = { tag, hint, children: [], parent: current };
+    current.children.push(element);
+
+    if (!VOID_TAGS.has(tag) && !attributes.trimEnd().endsWith('/')) {
+      current = element;
+    }
+  }
+
+  if (lastIndex < cleaned.length) {
+    current.children.push(cleaned.slice(lastIndex));
+  }
+  return root;
+}
+
+function isElement(node: HtmlNode): node is HtmlElement {
+  return typeof node !== 'string';
+}
+
+/**
+ * Page furniture: layout elements, and elements whose class or id says so (unless it also suggests content)
+ */
+function isUnlikely(element: HtmlElement): boolean {
+  if (SKIPPED_TAGS.has(element.tag)) return true;
+  if (element.tag === 'article' || element.tag === 'main' || element.tag === 'body') return false;
+  return UNLIKELY_HINT.test(element.hint) && !MAYBE_HINT.test(element.hint);
+}
+
+function innerText(node: HtmlNode): string {
+  return isElement(node) ? node.children.map(innerText).join(' ') : node;
+}
+
+function linkText(element: HtmlElement): number {
+  return element.children.reduce((length, child) => {
+    if (!isElement(child)) return length;
+    return length + (child.tag === 'a' ? normalizeSpace(decodeEntities(innerText(child))).length : linkText(child));
+  }, 0);
+}
+
+/**
+ * Share of an element's text inside links - high for menus and lists of related stories
+ */
+function linkDensity(element: HtmlElement): number {
+  const textLength = normalizeSpace(decodeEntities(innerText(element))).length;
+  return textLength === 0 ? 0 : linkText(element) / textLength;
+}
+
+function tagWeight(tag: string): number {
+  switch (tag) {
+    case 'article': return 10;
+    case 'div': case 'main': case 'section': return 5;
+    case 'pre': case 'td': case 'blockquote': return 3;
+    case 'address': case 'ol': case 'ul': case 'dl': case 'dd': case 'dt': case 'li': return -3;
+    case 'h1': case 'h2': case 'h3': case 'h4': case 'h5': case 'h6': case 'th': return -5;
+    default: return 0;
+  }
+}
+
+function hintWeight(element: HtmlElement): number {
+  return (NEGATIVE_HINT.test(element.hint) ? -25 : 0) + (POSITIVE_HINT.test(element.hint) ? 25 : 0);
+}
+
+/**
+ * Paragraph-like elements outside page furniture: <p> and friends, and divs holding text but no blocks
+ */
+function collectParagraphs(element: HtmlElement, paragraphs: HtmlElement[]): void {
+  for (const child of element.children) {
+    if (!isElement(child) || isUnlikely(child)) continue;
+
+    const textDiv = child.tag === 'div' && !child.children.some(grandchild => isElement(grandchild) && BLOCK_TAGS.has(grandchild.tag));
+    if (PARAGRAPH_TAGS.has(child.tag) || textDiv) {
+      paragraphs.push(child);
+    } else {
+      collectParagraphs(child, paragraphs);
+    }
+  }
+}
+
+/**
+ * The element holding the article, or null when no paragraph is long enough to tell
+ */
+function findArticleRoot(root: HtmlElement): { best: HtmlElement; scores: Map<HtmlElement, number> } | null {
+  const paragraphs: HtmlElement[] = [];
+  collectParagraphs(root, paragraphs);
+
+  const scores = new Map<HtmlElement, number>();
+  for (const paragraph of paragraphs) {
+    const text = normalizeSpace(decodeEntities(innerText(paragraph)));
+    if (text.length < SERVER_CONSTANTS.ARTICLE_FETCH.MIN_PARAGRAPH_CHARS) continue;
+
+    const score = 1 + (text.split(',').length - 1) + Math.min(Math.floor(text.length / 100), 3);
+    // The parent gets the full score, each level above a smaller share
+    let ancestor = paragraph.parent;
+    for (let level = 0; ancestor && ancestor.tag !== 'root' && level < 3; level++, ancestor = ancestor.parent) {
+      if (!scores.has(ancestor)) {
+        scores.set(ancestor, tagWeight(ancestor.tag) + hintWeight(ancestor));
+      }
+      scores.set(ancestor, scores.get(ancestor)! + score / (level === 0 ? 1 : level * 2));
+    }
+  }
+
+  let best: HtmlElement | null = null;
+  let bestScore = -Infinity;
+  for (const [element, score] of scores) {
+    const adjusted = score * (1 - linkDensity(element));
+    scores.set(element, adjusted);
+    if (adjusted > bestScore) {
+      best = element;
+      bestScore = adjusted;
+    }
+  }
+
+  return best ? { best, scores } : null;
+}
+
+/**
+ * The article root and the siblings that look like more of the same article (split layouts)
+ */
+function articleParts(best: HtmlElement, scores: Map<HtmlElement, number>): HtmlElement[] {
+  const parent = best.parent;
+  if (!parent) return [best];
+
+  const threshold = Math.max(10, (scores.get(best) ?? 0) * 0.2);
+  return parent.children.filter((sibling): sibling is HtmlElement => {
+    if (!isElement(sibling)) return false;
+    if (sibling === best) return true;
+    if (isUnlikely(sibling)) return false;
+    if ((scores.get(sibling) ?? 0) >= threshold) return true;
+
+    const text = normalizeSpace(decodeEntities(innerText(sibling)));
+    return sibling.tag === 'p' && text.length > 80 && linkDensity(sibling) < 0.25;
+  });
+}
+
+/**
+ * Text lines of an element, one per block, leaving out furniture and link lists
+ * A single <br> is a line wrap inside the paragraph; two in a row separate paragraphs
+ */
+function blockLines(element: HtmlElement, lines: string[], buffer: string[] = []): void {
+  const flush = (): void => {
+    const line = normalizeSpace(decodeEntities(buffer.join('')));
+    if (line) lines.push(line);
+    buffer.length = 0;
+  };
+
+  let breaks = 0;
+  for (const child of element.children) {
+    if (!isElement(child)) {
+      buffer.push(child);
+      if (child.trim()) breaks = 0;
+      continue;
+    }
+    if (isUnlikely(child)) continue;
+    if (child.tag === 'br') {
+      if (++breaks > 1) {
+        flush();
+      } else {
+        buffer.push(' ');
+      }
+      continue;
+    }
+    breaks = 0;
+
+    if (BLOCK_TAGS.has(child.tag)) {
+      flush();
+      if (!/^h[1-6]$/.test(child.tag) && linkDensity(child) > 0.5) continue;
+      blockLines(child, lines, buffer);
+      flush();
+    } else {
+      blockLines(child, lines, buffer);
+    }
+  }
+}
+
+function keepLine(line: string): boolean {
+  return line.length >= SERVER_CONSTANTS.ARTICLE_FETCH.MIN_LINE_CHARS && !BOILERPLATE_LINE.test(line);
+}
+
+/**
+ * Main text of an article page
+ * @returns null when the page holds no article-length text (index pages, paywalls, consent walls)
+ */
+export function extractArticleText(html: string): ExtractedArticle | null {
+  const minChars = SERVER_CONSTANTS.ARTICLE_FETCH.MIN_ARTICLE_CHARS;
+
+  const jsonLdBody = findJsonLdBody(html);
+  if (jsonLdBody) {
+    const text = decodeEntities(jsonLdBody.replace(/<[^>]*>/g, ' '))
+      .split(/\n+/)
+      .map(normalizeSpace)
+      .filter(Boolean)
+      .join('\n\n');
+    if (text.length >= minChars) {
+      return { text, method: 'json-ld' };
+    }
+  }
+
+  const root = parseHtml(html);
+  const article = findArticleRoot(root);
+  if (!article) return null;
+
+  const lines: string[] = [];
+  for (const part of articleParts(article.best, article.scores)) {
+    blockLines({ tag: 'root', hint: '', children: [part], parent: null }, lines);
+  }
+
+  const text = lines.filter(keepLine).join('\n\n');
+  return text.length >= minChars ? { text, method: 'readability' } : null;
+}
@@ -0,0 +1,54 @@
+/**
+ * Cancellation Utility
+ * Deadline and abort helpers shared by the transports, tools and analyst pipeline
+ */
+
+import { CancellationReason } from '../types/index.js';
+
+/**
+ * Signal that aborts after timeoutMs, or earlier when the parent signal aborts
+ * @param timeoutMs - Deadline in milliseconds
+ * @param parent - Caller's signal (e.g. client disconnect), if any
+ * @returns Combined AbortSignal
+ */
+export function withDeadline(timeoutMs: number, parent?: AbortSignal): AbortSignal {
+  const deadline = AbortSignal.timeout(timeoutMs);
+  return parent ? AbortSignal.any([parent, deadline]) : deadline;
+}
+
+/**
+ * Settle with the promise, or reject with the signal's reason as soon as it aborts
+ * Used around work that cannot be interrupted itself, so a stuck step cannot hold up the caller
+ * @param promise - Work to wait for
+ * @param signal - Signal ending the wait
+ * @returns The promise's result
+ */
+export function raceWithSignal<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+  if (!signal) return promise;
+  if (signal.aborted) return Promise.reject(signal.reason);
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = (): void => reject(signal.reason);
+    signal.addEventListener('abort', onAbort, { once: true });
+
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+}
+
+/**
+ * Why an aborted signal fired - AbortSignal.timeout() aborts with a TimeoutError
+ * @param signal - An aborted signal
+ * @returns 'timeout' for deadlines, 'cancelled' for everything else
+ */
+export function getCancellationReason(signal: AbortSignal): CancellationReason {
+  return signal.reason instanceof Error && signal.reason.name === 'TimeoutError' ? 'timeout' : 'cancelled';
+}
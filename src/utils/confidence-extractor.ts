@@ -29,7 +29,10 @@ export const ProviderConfidenceExtractors = {
   openai: (content: string) => extractConfidenceFromContent(content, 0.8),
   gemini: (content: string) => extractConfidenceFromContent(content, 0.75),
   anthropic: (content: string) => extractConfidenceFromContent(content, 0.85),
-  local: (content: string) => extractConfidenceFromContent(content, 0.7)
+  local: (content: string) => extractConfidenceFromContent(content, 0.7),
+  deepseek: (content: string) => extractConfidenceFromContent(content, 0.75),
+  groq: (content: string) => extractConfidenceFromContent(content, 0.75),
+  openrouter: (content: string) => extractConfidenceFromContent(content, 0.75)
 } as const;
 
 export type ProviderType = keyof typeof ProviderConfidenceExtractors;
\ No newline at end of file
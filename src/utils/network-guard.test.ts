@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { InternalAddressError, isPublicAddress, resolvePublicHost } from './network-guard.js';
+
+describe('isPublicAddress', () => {
+  it('refuses loopback, private, link-local and metadata addresses', () => {
+    for (const address of [
+      '127.0.0.1', '10.1.2.3', '172.16.0.1', '172.31.255.255', '192.168.1.1', '169.254.169.254',
+      '100.64.0.1', '0.0.0.0', '224.0.0.1', '::1', '::', 'fe80::1', 'fd00:ec2::254', '::ffff:10.0.0.1',
+      '::ffff:127.0.0.1'
+    ]) {
+      assert.equal(isPublicAddress(address), false, address);
+    }
+  });
+
+  it('accepts public addresses', () => {
+    for (const address of ['8.8.8.8', '172.32.0.1', '151.101.1.69', '2606:4700::6810:84e5', '::ffff:8.8.8.8']) {
+      assert.equal(isPublicAddress(address), true, address);
+    }
+  });
+
+  it('refuses strings that are not IP addresses', () => {
+    assert.equal(isPublicAddress('example.com'), false);
+  });
+});
+
+describe('resolvePublicHost', () => {
+  it('refuses IP literals in internal ranges, bracketed IPv6 included', async () => {
+    await assert.rejects(resolvePublicHost('169.254.169.254'), InternalAddressError);
+    await assert.rejects(resolvePublicHost('[::1]'), InternalAddressError);
+  });
+
+  it('refuses hostnames that resolve to internal addresses', async () => {
+    await assert.rejects(resolvePublicHost('localhost'), InternalAddressError);
+  });
+
+  it('passes public IP literals without a lookup', async () => {
+    assert.deepEqual(await resolvePublicHost('8.8.8.8'), [{ address: '8.8.8.8', family: 4 }]);
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * Network Guard Utility
+ * Keeps server-side requests to URLs taken from outside (feed entries, redirects) off internal networks:
+ * loopback, private, carrier-grade NAT, link-local (cloud metadata at 169.254.169.254), multicast and
+ * reserved ranges, in IPv4 and IPv6 (IPv4-mapped addresses included)
+ */
+
+import { BlockList, isIP } from 'net';
+import { promises as dns, LookupAddress } from 'dns';
+
+const INTERNAL_RANGES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+] as const) {
+  INTERNAL_RANGES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32], ['fc00::', 7],
+  ['fe80::', 10], ['ff00::', 8]
+] as const) {
+  INTERNAL_RANGES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Error for a host that is, or resolves to, an internal address
+ */
+export class InternalAddressError extends Error {
+  constructor(hostname: string, address: string) {
+    super(`Refusing to connect to ${hostname}: ${address} is not a public address`);
+    this.name = 'InternalAddressError';
+  }
+}
+
+/**
+ * Whether an IP address is routable on the public internet
+ * @param address - IPv4 or IPv6 address
+ * @returns false for internal addresses and for strings that are not IP addresses
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) return false;
+
+  if (family === 6) {
+    // ::ffff:10.0.0.1 reaches 10.0.0.1
+    const mapped = address.toLowerCase().match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+    if (mapped?.[1]) return isPublicAddress(mapped[1]);
+  }
+
+  return !INTERNAL_RANGES.check(address, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+/**
+ * Resolve a hostname and check every address it resolves to
+ * @param hostname - Host of the URL about to be requested (IP literals are checked as they are)
+ * @returns The resolved addresses
+ * @throws InternalAddressError when any address is internal
+ */
+export async function resolvePublicHost(hostname: string): Promise<LookupAddress[]> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  const addresses = isIP(host)
+    ? [{ address: host, family: isIP(host) }]
+    : await dns.lookup(host, { all: true, verbatim: true });
+
+  const internal = addresses.find(entry => !isPublicAddress(entry.address));
+  if (internal || addresses.length === 0) {
+    throw new InternalAddressError(host, internal?.address ?? 'no address');
+  }
+  return addresses;
+}
@@ -0,0 +1,149 @@
+/**
+ * News Clustering Utility
+ * Groups articles that report the same story, across sources, by the similarity of their headline and
+ * lead text. Similarity is the Jaccard index of the texts' stemmed words (1-word shingles - outlets
+ * paraphrase each other, so longer shingles rarely match), estimated from MinHash signatures. No external
+ * service or model is involved; articles above the threshold are joined transitively
+ */
+
+import { SERVER_CONSTANTS } from '../constants/server-constants.js';
+import { NewsItem, NewsStory } from '../types/index.js';
+
+const STOP_WORDS = new Set([
+  'the', 'a', 'an', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'as', 'is',
+  'are', 'was', 'were', 'be', 'been', 'its', 'it', 'this', 'that', 'from', 'after', 'over', 'into',
+  'says', 'said', 'will', 'has', 'have', 'had', 'new', 'up', 'out', 'amid', 'about', 'than'
+]);
+
+/**
+ * Significant words of a text, crudely stemmed: common endings dropped, then cut to STEM_CHARS
+ * ("signals", "signaled" and "signalling" all become "signa")
+ */
+function shingles(text: string): Set<string> {
+  return new Set(text.toLowerCase()
+    .replace(/['’]s\b/g, '')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 1 && !STOP_WORDS.has(word))
+    .map(word => word.replace(/(ing|ed|es|s|ly)$/, '').slice(0, SERVER_CONSTANTS.NEWS_CLUSTERING.STEM_CHARS)));
+}
+
+function fnv1a(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Murmur3 finalizer - spreads a 32-bit value over all bits
+ */
+function mix(value: number): number {
+  let hash = value;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
+
+const SEEDS = Array.from({ length: SERVER_CONSTANTS.NEWS_CLUSTERING.MINHASH_PERMUTATIONS }, (_, i) => mix(Math.imul(i + 1, 0x9e3779b9)));
+
+/**
+ * Smallest hash of the shingles under each permutation; null for a text without significant words
+ */
+function minHashSignature(text: string): Uint32Array | null {
+  const shingleSet = shingles(text);
+  if (shingleSet.size === 0) return null;
+
+  const signature = new Uint32Array(SEEDS.length).fill(0xffffffff);
+  for (const shingle of shingleSet) {
+    const base = fnv1a(shingle);
+    SEEDS.forEach((seed, i) => {
+      const hash = mix(base ^ seed);
+      if (hash < signature[i]!) {
+        signature[i] = hash;
+      }
+    });
+  }
+  return signature;
+}
+
+/**
+ * Estimated Jaccard similarity - the share of permutations whose minimum agrees
+ */
+function estimateSimilarity(a: Uint32Array, b: Uint32Array): number {
+  let matches = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] === b[i]) matches++;
+  }
+  return matches / a.length;
+}
+
+function storyText(item: NewsItem): string {
+  return `${item.title} ${item.content.slice(0, SERVER_CONSTANTS.NEWS_CLUSTERING.LEAD_CHARS)}`;
+}
+
+/**
+ * Group articles into stories and return one article per story - the canonical one, carrying the story
+ * The canonical article comes from the most credible source, the earliest on ties. Stories are ordered by
+ * how many sources report them; stories with equal breadth keep the order of their best placed article
+ * @param items - Articles in ranked order
+ */
+export function clusterNews(items: NewsItem[]): NewsItem[] {
+  const signatures = items.map(item => minHashSignature(storyText(item)));
+  const parent = items.map((_, i) => i);
+  const find = (i: number): number => {
+    while (parent[i] !== i) {
+      parent[i] = parent[parent[i]!]!;
+      i = parent[i]!;
+    }
+    return i;
+  };
+
+  for (let i = 0; i < items.length; i++) {
+    const signatureI = signatures[i];
+    if (!signatureI) continue;
+    for (let j = i + 1; j < items.length; j++) {
+      const signatureJ = signatures[j];
+      if (signatureJ && find(i) !== find(j) &&
+        estimateSimilarity(signatureI, signatureJ) >= SERVER_CONSTANTS.NEWS_CLUSTERING.SIMILARITY_THRESHOLD) {
+        parent[find(j)] = find(i);
+      }
+    }
+  }
+
+  // Clusters come out in the order of their best placed member
+  const clusters = new Map<number, NewsItem[]>();
+  items.forEach((item, i) => {
+    const root = find(i);
+    clusters.set(root, [...(clusters.get(root) ?? []), item]);
+  });
+
+  const stories = Array.from(clusters.values()).map(members => toStoryItem(members));
+  // Array.prototype.sort is stable, so equal breadth keeps the ranked order
+  return stories.sort((a, b) => (b.story?.sources.length ?? 1) - (a.story?.sources.length ?? 1));
+}
+
+function toStoryItem(members: NewsItem[]): NewsItem {
+  const byTime = [...members].sort((a, b) => a.publishedAt.getTime() - b.publishedAt.getTime());
+  const credibility = (item: NewsItem) => item.credibility ?? SERVER_CONSTANTS.NEWS_SOURCES.DEFAULT_CREDIBILITY;
+  const canonical = byTime.reduce((best, item) => credibility(item) > credibility(best) ? item : best);
+
+  const story: NewsStory = {
+    headline: canonical.title,
+    sources: [...new Set(byTime.map(item => item.source))],
+    earliestPublishedAt: byTime[0]!.publishedAt,
+    articles: byTime.map(item => ({ source: item.source, title: item.title, url: item.url, publishedAt: item.publishedAt }))
+  };
+
+  return {
+    ...canonical,
+    content: canonical.content || byTime.find(item => item.content)?.content || '',
+    relevanceScore: Math.max(...members.map(item => item.relevanceScore || 0)),
+    story
+  };
+}
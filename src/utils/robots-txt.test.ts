@@ -0,0 +1,61 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isAllowed, parseRobots } from './robots-txt.js';
+
+describe('parseRobots', () => {
+  it('applies the groups naming our product token instead of the * groups', () => {
+    const rules = parseRobots([
+      'User-agent: *',
+      'Disallow: /',
+      'Crawl-delay: 10',
+      '',
+      'User-agent: Googlebot',
+      'User-agent: MCP-NextGen-Financial-Intelligence',
+      'Disallow: /private',
+      'Crawl-delay: 2'
+    ].join('\n'));
+    assert.equal(isAllowed(rules, '/news/story'), true);
+    assert.equal(isAllowed(rules, '/private/report'), false);
+    assert.equal(rules.crawlDelayMs, 2000);
+  });
+
+  it('falls back to the * groups and ignores groups of other agents', () => {
+    const rules = parseRobots('User-agent: Googlebot\nDisallow:\n\nuser-agent: *\ndisallow: /search # internal search\n');
+    assert.equal(isAllowed(rules, '/search?q=fed'), false);
+    assert.equal(isAllowed(rules, '/markets'), true);
+  });
+
+  it('treats a group of ours without rules as allowing everything', () => {
+    const rules = parseRobots('User-agent: *\nDisallow: /\n\nUser-agent: mcp-nextgen-financial-intelligence\n');
+    assert.equal(isAllowed(rules, '/anything'), true);
+  });
+
+  it('allows everything for an empty robots.txt', () => {
+    assert.equal(isAllowed(parseRobots(''), '/'), true);
+  });
+});
+
+describe('isAllowed', () => {
+  it('lets the longest matching rule decide, Allow on a tie', () => {
+    const rules = parseRobots('User-agent: *\nDisallow: /news/\nAllow: /news/markets/\nDisallow: /news/markets/live\nAllow: /page\nDisallow: /page\n');
+    assert.equal(isAllowed(rules, '/news/politics/1'), false);
+    assert.equal(isAllowed(rules, '/news/markets/1'), true);
+    assert.equal(isAllowed(rules, '/news/markets/live-blog'), false);
+    assert.equal(isAllowed(rules, '/page'), true);
+  });
+
+  it('matches * wildcards and the $ end anchor', () => {
+    const rules = parseRobots('User-agent: *\nDisallow: /*.pdf$\nDisallow: /*/print\nAllow: /reports/*.pdf$\n');
+    assert.equal(isAllowed(rules, '/files/q3.pdf'), false);
+    assert.equal(isAllowed(rules, '/files/q3.pdf?download=1'), true);
+    assert.equal(isAllowed(rules, '/reports/q3.pdf'), true);
+    assert.equal(isAllowed(rules, '/story/123/print'), false);
+    assert.equal(isAllowed(rules, '/story/123'), true);
+  });
+
+  it('takes regular expression characters in patterns literally', () => {
+    const rules = parseRobots('User-agent: *\nDisallow: /a+b(c)\n');
+    assert.equal(isAllowed(rules, '/a+b(c)/x'), false);
+    assert.equal(isAllowed(rules, '/aab'), true);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * robots.txt Utility
+ * Parses robots.txt and answers whether a path may be fetched, following RFC 9309: the groups naming our
+ * product token apply (else the `*` groups), the longest matching rule decides with Allow winning ties, and
+ * patterns may use `*` wildcards and a `$` end anchor. Crawl-delay, though not in the RFC, is honored
+ */
+
+import { SERVER_CONSTANTS } from '../constants/server-constants.js';
+
+export interface RobotsRules {
+  allow: string[];
+  disallow: string[];
+  crawlDelayMs: number;
+}
+
+/**
+ * The rules of robots.txt that apply to us: the groups naming our product token, else the `*` groups
+ */
+export function parseRobots(body: string): RobotsRules {
+  const ownToken = SERVER_CONSTANTS.NEWS_SOURCES.ROBOTS_AGENT.toLowerCase();
+  const own: RobotsRules = { allow: [], disallow: [], crawlDelayMs: 0 };
+  const anyAgent: RobotsRules = { allow: [], disallow: [], crawlDelayMs: 0 };
+  let matchesOwn = false;
+
+  let agents: string[] = [];
+  let inRules = false;
+  for (const rawLine of body.split(/\r?\n/)) {
+    const line = rawLine.replace(/#.*/, '').trim();
+    const separator = line.indexOf(':');
+    if (separator < 0) continue;
+
+    const field = line.slice(0, separator).trim().toLowerCase();
+    const value = line.slice(separator + 1).trim();
+
+    if (field === 'user-agent') {
+      // Consecutive User-agent lines share the rules that follow them
+      if (inRules) {
+        agents = [];
+        inRules = false;
+      }
+      agents.push(value.toLowerCase());
+      // A group of ours replaces the `*` groups even when it has no rules (allowing everything)
+      matchesOwn ||= value.toLowerCase() === ownToken;
+      continue;
+    }
+
+    inRules = true;
+    const groups: RobotsRules[] = [];
+    if (agents.includes(ownToken)) {
+      groups.push(own);
+    }
+    if (agents.includes('*')) {
+      groups.push(anyAgent);
+    }
+
+    for (const group of groups) {
+      if (field === 'allow' && value) {
+        group.allow.push(value);
+      } else if (field === 'disallow' && value) {
+        group.disallow.push(value);
+      } else if (field === 'crawl-delay' && Number(value) > 0) {
+        group.crawlDelayMs = Number(value) * 1000;
+      }
+    }
+  }
+
+  return matchesOwn ? own : anyAgent;
+}
+
+/**
+ * Length of the path prefix a robots.txt pattern matches (`*` wildcards, `$` end anchor), -1 for no match
+ */
+function matchLength(pattern: string, path: string): number {
+  const anchored = pattern.endsWith('$');
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path) ? pattern.length : -1;
+}
+
+/**
+ * Whether the rules let us fetch the path - the longest matching rule decides, Allow on a tie
+ */
+export function isAllowed(rules: RobotsRules, path: string): boolean {
+  const longest = (patterns: string[]) => Math.max(-1, ...patterns.map(pattern => matchLength(pattern, path)));
+  return longest(rules.allow) >= longest(rules.disallow);
+}
@@ -0,0 +1,38 @@
+/**
+ * Structured Output Utility
+ * Shared helpers for returning machine-readable tool payloads alongside the markdown report
+ */
+
+import { OutputFormat, ToolResponse } from '../types/index.js';
+
+/**
+ * Converts a typed payload into plain JSON data (Dates become ISO strings)
+ * so it matches the published output schemas exactly
+ * @param payload - Typed tool output
+ * @returns JSON-safe copy of the payload
+ */
+export function toStructuredContent(payload: object): Record<string, unknown> {
+  return JSON.parse(JSON.stringify(payload)) as Record<string, unknown>;
+}
+
+/**
+ * Build a tool response carrying both representations of the result
+ * @param payload - Typed tool output, always attached as structuredContent - AI-written text in it must already
+ *   have gone through outputSanitizer.sanitizeStructured, as the markdown goes through sanitizeOutput
+ * @param markdown - Human-readable report
+ * @param format - Requested format for the text block
+ * @returns ToolResponse whose text block is either the markdown report or the serialized payload
+ */
+export function createStructuredToolResponse(
+  payload: object,
+  markdown: string,
+  format: OutputFormat = 'markdown'
+): ToolResponse {
+  const structuredContent = toStructuredContent(payload);
+  const text = format === 'json' ? JSON.stringify(structuredContent, null, 2) : markdown;
+
+  return {
+    content: [{ type: "text", text }],
+    structuredContent
+  };
+}
@@ -0,0 +1,74 @@
+/**
+ * Token Usage Utility
+ * Arithmetic on token and cost records shared by the providers, analyst pipeline and tools
+ */
+
+import { SERVER_CONSTANTS } from '../constants/server-constants.js';
+import { AnalysisUsage, TokenUsage } from '../types/index.js';
+
+/**
+ * Usage of nothing - the starting point for sums
+ */
+export function emptyTokenUsage(): TokenUsage {
+  return { promptTokens: 0, completionTokens: 0, totalTokens: 0, costUsd: 0, estimated: false };
+}
+
+/**
+ * Analysis usage of nothing - the starting point for sums of analysis runs
+ */
+export function emptyAnalysisUsage(): AnalysisUsage {
+  return { total: emptyTokenUsage(), analysts: {}, consensus: emptyTokenUsage() };
+}
+
+/**
+ * Round a USD amount to COST_DECIMALS, so sums of small costs do not collect floating point noise
+ */
+export function roundCost(costUsd: number): number {
+  const factor = 10 ** SERVER_CONSTANTS.USAGE.COST_DECIMALS;
+  return Math.round(costUsd * factor) / factor;
+}
+
+/**
+ * Sum two usage records; the result is estimated if either part was
+ */
+export function addTokenUsage(a: TokenUsage, b: TokenUsage): TokenUsage {
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+    costUsd: roundCost(a.costUsd + b.costUsd),
+    estimated: a.estimated || b.estimated
+  };
+}
+
+/**
+ * Rough token count of a text, for providers that do not report usage
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / SERVER_CONSTANTS.USAGE.CHARS_PER_TOKEN_ESTIMATE);
+}
+
+/**
+ * Combine the usage of several analysis runs (e.g. a reanalysis after failed verification)
+ */
+export function addAnalysisUsage(a: AnalysisUsage, b: AnalysisUsage): AnalysisUsage {
+  const analysts = { ...a.analysts };
+  for (const [analyst, usage] of Object.entries(b.analysts)) {
+    analysts[analyst] = analysts[analyst] ? addTokenUsage(analysts[analyst], usage) : usage;
+  }
+
+  return {
+    total: addTokenUsage(a.total, b.total),
+    analysts,
+    consensus: addTokenUsage(a.consensus, b.consensus)
+  };
+}
+
+/**
+ * One-line summary for reports, e.g. "12,345 tokens (9,800 prompt / 2,545 completion), est. $0.004210"
+ */
+export function describeTokenUsage(usage: TokenUsage): string {
+  return `${usage.totalTokens.toLocaleString()} tokens (${usage.promptTokens.toLocaleString()} prompt / ` +
+    `${usage.completionTokens.toLocaleString()} completion), est. $${usage.costUsd.toFixed(SERVER_CONSTANTS.USAGE.COST_DECIMALS)}` +
+    (usage.estimated ? ' - partly estimated' : '');
+}
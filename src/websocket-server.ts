@@ -1,21 +1,19 @@
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import WebSocket, { WebSocketServer } from 'ws';
+import { IncomingMessage, OutgoingHttpHeaders } from 'http';
 import { Transport } from "@modelcontextprotocol/sdk/shared/transport.js";
-import { 
-  CallToolRequestSchema, 
-  ListToolsRequestSchema,
-  JSONRPCMessage
-} from "@modelcontextprotocol/sdk/types.js";
+import { JSONRPCMessage, isJSONRPCRequest } from "@modelcontextprotocol/sdk/types.js";
 
 import { config, configForLogging } from "./config.js";
 import { secureLogger } from "./utils/logger.js";
-import { ToolResponse } from "./types/index.js";
 import { StandardErrorHandler } from "./utils/error-handler.js";
 import { SERVER_CONSTANTS } from "./constants/server-constants.js";
+import { ApiKeyError, ApiKeyIdentity, RateLimitError } from "./types/index.js";
+import { apiKeyService } from "./services/api-keys.js";
+import { rateLimiterService } from "./services/rate-limiter.js";
 
-// Import shared definitions
-import { TOOL_DEFINITIONS } from "./shared/tool-definitions.js";
-import { UniversalToolExecutor } from "./shared/tool-executor.js";
+// Import shared MCP server
+import { createMcpServer } from "./shared/mcp-server-factory.js";
 
 /**
  * Custom WebSocket Transport implementation for MCP Server
@@ -25,19 +23,28 @@ class WebSocketMcpTransport implements Transport {
   onclose?: () => void;
   onerror?: (error: Error) => void;  
   onmessage?: (message: JSONRPCMessage) => void;
+  private delivery: Promise<void> = Promise.resolve();
 
-  constructor(private readonly ws: WebSocket) {
+  /**
+   * @param ws - Connected socket
+   * @param admitRequest - Called before each JSON-RPC request is handled; a rejection is answered as an error
+   */
+  constructor(private readonly ws: WebSocket, private readonly admitRequest?: () => Promise<void>) {
     this.setupEventHandlers();
   }
 
   private setupEventHandlers(): void {
     this.ws.on('message', (data) => {
+      let message: JSONRPCMessage;
       try {
-        const message = JSON.parse(data.toString()) as JSONRPCMessage;
-        this.onmessage?.(message);
+        message = JSON.parse(data.toString()) as JSONRPCMessage;
       } catch (error) {
         this.onerror?.(new Error(`Invalid JSON message: ${StandardErrorHandler.getErrorMessage(error)}`));
+        return;
       }
+      
+      // Admission is async, so deliveries are chained to keep messages in arrival order
+      this.delivery = this.delivery.then(() => this.deliver(message));
     });
 
     this.ws.on('close', () => {
@@ -49,6 +56,28 @@ class WebSocketMcpTransport implements Transport {
     });
   }
 
+  private async deliver(message: JSONRPCMessage): Promise<void> {
+    if (this.admitRequest && isJSONRPCRequest(message)) {
+      try {
+        await this.admitRequest();
+      } catch (error) {
+        const retryAfter = error instanceof ApiKeyError || error instanceof RateLimitError ? error.retryAfterSeconds : undefined;
+        await this.send({
+          jsonrpc: '2.0',
+          id: message.id,
+          error: {
+            code: SERVER_CONSTANTS.JSON_RPC_ERRORS.RATE_LIMITED,
+            message: StandardErrorHandler.getErrorMessage(error),
+            ...(retryAfter !== undefined && { data: { retryAfter } })
+          }
+        }).catch(sendError => this.onerror?.(sendError));
+        return;
+      }
+    }
+    
+    this.onmessage?.(message);
+  }
+
   async start(): Promise<void> {
     // WebSocket is already connected when this transport is created
     return Promise.resolve();
@@ -92,20 +121,81 @@ export class FinancialIntelligenceWebSocketServer {
   private readonly wsServer: WebSocketServer;
   private readonly connections: Set<WebSocket> = new Set();
   private readonly mcpServers: Map<WebSocket, Server> = new Map();
+  // Keys accepted during the upgrade, picked up by the connection handler
+  private readonly authenticatedKeys: WeakMap<IncomingMessage, ApiKeyIdentity> = new WeakMap();
   
   constructor() {
     this.wsServer = new WebSocketServer({ 
       port: config.websocketPort,
-      perMessageDeflate: false
+      perMessageDeflate: false,
+      verifyClient: (info: { req: IncomingMessage }, callback: (result: boolean, code?: number, message?: string, headers?: OutgoingHttpHeaders) => void) => {
+        this.verifyClient(info.req, callback);
+      }
     });
     
     this.setupConnectionHandlers();
   }
   
+  /**
+   * Accept or refuse an upgrade request
+   */
+  private verifyClient(
+    request: IncomingMessage,
+    callback: (result: boolean, code?: number, message?: string, headers?: OutgoingHttpHeaders) => void
+  ): void {
+    this.admitConnection(request)
+      .then(() => callback(true))
+      .catch(error => {
+        const statusCode = error instanceof ApiKeyError
+          ? error.statusCode
+          : error instanceof RateLimitError ? SERVER_CONSTANTS.HTTP_STATUS.RATE_LIMITED : SERVER_CONSTANTS.HTTP_STATUS.INTERNAL_ERROR;
+        const retryAfter = error instanceof ApiKeyError || error instanceof RateLimitError ? error.retryAfterSeconds : undefined;
+        secureLogger.warn('WebSocket upgrade rejected', {
+          ip: this.getClientAddress(request),
+          status: statusCode,
+          error: StandardErrorHandler.getErrorMessage(error)
+        });
+        callback(false, statusCode, StandardErrorHandler.getErrorMessage(error), retryAfter !== undefined ? { 'Retry-After': retryAfter } : {});
+      });
+  }
+  
+  /**
+   * With API keys enabled, authenticate the upgrade and count it against the tenant's rate limit
+   * (the key may come from the Authorization or X-API-Key header, or the api_key query parameter);
+   * otherwise count it against the client IP's general bucket
+   */
+  private async admitConnection(request: IncomingMessage): Promise<void> {
+    if (!apiKeyService.isEnabled()) {
+      await rateLimiterService.consume('general', `ip:${this.getClientAddress(request)}`);
+      return;
+    }
+    
+    const apiKey = await apiKeyService.authenticate(apiKeyService.extractKey(request.headers, request.url));
+    await apiKeyService.consumeRequest(apiKey);
+    this.authenticatedKeys.set(request, apiKey);
+  }
+  
+  /**
+   * Client IP, read from X-Forwarded-For as far as TRUST_PROXY allows (same rules as Express)
+   */
+  private getClientAddress(request: IncomingMessage): string {
+    const socketAddress = request.socket.remoteAddress || 'unknown';
+    const trustProxy = config.security.trustProxy;
+    const forwardedFor = request.headers['x-forwarded-for'];
+    if (!trustProxy || typeof forwardedFor !== 'string') {
+      return socketAddress;
+    }
+    
+    // Nearest hop last: the socket address, then each proxy's view of its client
+    const addresses = [...forwardedFor.split(',').map(address => address.trim()), socketAddress];
+    const index = trustProxy === true ? 0 : Math.max(0, addresses.length - 1 - trustProxy);
+    return addresses[index] || socketAddress;
+  }
+  
   private setupConnectionHandlers(): void {
     this.wsServer.on('connection', (ws: WebSocket, request) => {
       const clientInfo = {
-        ip: request.socket.remoteAddress,
+        ip: this.getClientAddress(request),
         userAgent: request.headers['user-agent'] || 'unknown'
       };
       
@@ -114,12 +204,27 @@ export class FinancialIntelligenceWebSocketServer {
       // Add to active connections
       this.connections.add(ws);
       
-      // Create MCP server instance for this connection
-      const mcpServer = this.createMcpServerInstance();
+      // Aborts in-flight tool calls when the client goes away
+      const connectionController = new AbortController();
+      
+      // Set when the upgrade was authenticated; every request on the connection uses that key
+      const apiKey = this.authenticatedKeys.get(request);
+      
+      // Create MCP server instance for this connection; it streams each sage's output as it writes
+      const mcpServer = createMcpServer({
+        transport: 'WebSocket',
+        streamToolOutput: true,
+        signal: connectionController.signal,
+        ...(apiKey
+          ? { caller: { apiKey, ipAddress: clientInfo.ip, userAgent: clientInfo.userAgent } }
+          : { clientAddress: clientInfo.ip })
+      });
       this.mcpServers.set(ws, mcpServer);
       
-      // Create custom WebSocket MCP transport
-      const transport = new WebSocketMcpTransport(ws);
+      // Create custom WebSocket MCP transport; requests count against the key's rate limit, or the IP's without one
+      const transport = new WebSocketMcpTransport(ws, apiKey
+        ? () => apiKeyService.consumeRequest(apiKey)
+        : async () => { await rateLimiterService.consume('general', `ip:${clientInfo.ip}`); });
       
       // Connect MCP server to WebSocket transport
       mcpServer.connect(transport).catch((error) => {
@@ -138,6 +243,7 @@ export class FinancialIntelligenceWebSocketServer {
           ...clientInfo 
         });
         
+        connectionController.abort();
         this.connections.delete(ws);
         this.mcpServers.delete(ws);
       });
@@ -149,6 +255,7 @@ export class FinancialIntelligenceWebSocketServer {
           ...clientInfo 
         });
         
+        connectionController.abort();
         this.connections.delete(ws);
         this.mcpServers.delete(ws);
       });
@@ -163,62 +270,6 @@ export class FinancialIntelligenceWebSocketServer {
     });
   }
   
-  private createMcpServerInstance(): Server {
-    const server = new Server(
-      {
-        name: SERVER_CONSTANTS.NAME,
-        version: SERVER_CONSTANTS.VERSION
-      },
-      {
-        capabilities: {
-          tools: {}
-        }
-      }
-    );
-    
-    // List available tools
-    server.setRequestHandler(ListToolsRequestSchema, async () => {
-      return { tools: TOOL_DEFINITIONS };
-    });
-    
-    // Handle tool execution
-    server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const { name, arguments: args } = request.params;
-      const startTime = Date.now();
-      
-      try {
-        secureLogger.info(`WebSocket MCP executing tool: ${name}`, { args });
-        
-        const result: ToolResponse = await UniversalToolExecutor.execute(name, args);
-        
-        const duration = Date.now() - startTime;
-        secureLogger.toolExecution(name, args, duration, true);
-        
-        return {
-          content: result.content,
-          isError: result.isError
-        };
-        
-      } catch (error) {
-        const duration = Date.now() - startTime;
-        secureLogger.toolExecution(name, args, duration, false);
-        secureLogger.error(`WebSocket MCP tool execution error: ${name}`, { 
-          error: StandardErrorHandler.getErrorMessage(error) 
-        });
-        
-        return {
-          content: [{ 
-            type: "text", 
-            text: `❌ **Error executing ${name}**: ${StandardErrorHandler.getErrorMessage(error)}` 
-          }],
-          isError: true
-        };
-      }
-    });
-    
-    return server;
-  }
-  
   async start(): Promise<void> {
     return new Promise((resolve, reject) => {
       this.wsServer.on('listening', () => {